@@ -1,12 +1,22 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types env.d.ts --include-runtime false` (hash: c73e10ca2457f41f867107f22fedbd64)
+// Generated by Wrangler by running `wrangler types env.d.ts --include-runtime false` (hash: 66e8fb1cc717310ea9da8edaf7551c42)
 declare namespace Cloudflare {
+	interface GlobalProps {
+		mainModule: typeof import("./src/server");
+		durableNamespaces: "Chat";
+	}
 	interface Env {
+		CHATWOOT_DEBOUNCE_SECONDS: "5";
+		PAYMENT_LINK_EXPIRATION_HOURS: "48";
+		PAYMENT_RECOVERY_REMINDER_MINUTES: "60,1440";
+		PAYMENT_RECOVERY_ESCALATE: "true";
 		Chat: DurableObjectNamespace<import("./src/server").Chat>;
-		AI: Ai;
-		PAYMENT_SERVICE: Fetcher;
 		R2_BUCKET: R2Bucket;
+		PAYMENT_SERVICE: Fetcher /* holy-mouse-3f4c */;
 		MY_QUEUE: Queue;
+		AI: Ai;
+		CUSTOMER_SUPPORT_WORKFLOW: Workflow;
+		PAYMENT_RECOVERY_WORKFLOW: Workflow;
 	}
 }
 interface Env extends Cloudflare.Env {
@@ -14,3 +24,9 @@ interface Env extends Cloudflare.Env {
 	CLOUDFLARE_ACCOUNT_ID?: string;
 	AI_GATEWAY_ID?: string;
 }
+type StringifyValues<EnvType extends Record<string, unknown>> = {
+	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
+};
+declare namespace NodeJS {
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "CHATWOOT_DEBOUNCE_SECONDS" | "PAYMENT_LINK_EXPIRATION_HOURS" | "PAYMENT_RECOVERY_REMINDER_MINUTES" | "PAYMENT_RECOVERY_ESCALATE">> {}
+}
@@ -29,7 +29,9 @@ import {
 // List of tools that require human confirmation
 // NOTE: this should match the tools that don't have execute functions in tools.ts
 const toolsRequiringConfirmation: (keyof typeof tools)[] = [
-  "getWeatherInformation"
+  "getWeatherInformation",
+  "refundPayment",
+  "cancelPayment"
 ];
 
 export default function Chat() {
@@ -0,0 +1,282 @@
+/**
+ * Customer attachments
+ * Files sent in a Chatwoot conversation are archived in R2 under
+ * chatwoot-attachments/ (one folder per conversation) and turned into text
+ * the agent can reason over: images are described, with any visible text
+ * read, by a Workers AI vision model; PDF and DOCX documents are converted
+ * to markdown. Voice notes are transcribed in transcription.ts.
+ */
+import type { ChatwootAttachment } from "./chatwoot-types";
+import type { R2StorageManager } from "./r2";
+
+/**
+ * R2 prefix reserved for customer attachments (written only by the Chat agent)
+ */
+export const ATTACHMENT_PREFIX = "chatwoot-attachments/";
+
+/**
+ * Workers AI model that describes images
+ */
+export const VISION_MODEL = "@cf/google/gemma-3-12b-it";
+
+/**
+ * Largest image sent to the vision model
+ */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Largest document converted to text
+ */
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Text kept from a document, so a long one does not crowd out the
+ * conversation in the model's context
+ */
+export const MAX_DOCUMENT_CHARS = 6000;
+
+/**
+ * Documents converted to text, by content type
+ */
+export const DOCUMENT_TYPES: Record<string, string> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    "docx"
+};
+
+const IMAGE_PROMPT = `Descreva esta imagem enviada por um cliente em um atendimento de vendas.
+Transcreva todo texto visível (mensagens de erro, valores, nomes de planos, dados de orçamento).
+Responda em português do Brasil, em até 6 frases.`;
+
+/**
+ * A downloaded attachment and where it was archived
+ */
+export interface ArchivedAttachment {
+  key: string;
+  contentType: string;
+  data: ArrayBuffer;
+}
+
+/**
+ * What was read from an image or document
+ * - read: `text` has the description or the extracted text
+ * - too_large: over MAX_IMAGE_BYTES / MAX_DOCUMENT_BYTES, not read (nor
+ *   archived, when Chatwoot reported the size up front)
+ * - unsupported: neither an image nor a PDF or DOCX document; files are
+ *   still archived, videos, locations and contacts are not downloaded
+ * - archived: kept in R2 but not read, because a human agent had the
+ *   conversation (voice notes too, as kind "audio")
+ */
+export interface AttachmentContent {
+  kind: "image" | "document" | "audio" | "other";
+  status: "read" | "too_large" | "unsupported" | "archived";
+  filename: string;
+  contentType?: string;
+  /** Chatwoot URL of the original file */
+  url: string;
+  /** R2 key of the archived copy */
+  key?: string;
+  text?: string;
+}
+
+export function encodeBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let binary = "";
+  // Chunked so large files do not overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * File name of an attachment, from its URL
+ */
+function getFilename(attachment: ChatwootAttachment): string {
+  try {
+    const name = new URL(attachment.data_url).pathname.split("/").pop();
+    if (name) {
+      return decodeURIComponent(name);
+    }
+  } catch {
+    // Locations and contacts carry no file
+  }
+  return `anexo-${attachment.id}`;
+}
+
+/**
+ * Download an attachment from Chatwoot and store it in R2, in the
+ * conversation's folder
+ */
+export async function archiveAttachment(
+  storage: R2StorageManager,
+  conversationId: number,
+  attachment: ChatwootAttachment
+): Promise<ArchivedAttachment> {
+  const response = await fetch(attachment.data_url);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to download attachment ${attachment.id}: ${response.status}`
+    );
+  }
+  const data = await response.arrayBuffer();
+  const contentType =
+    response.headers.get("content-type")?.split(";")[0] ??
+    "application/octet-stream";
+
+  const extension =
+    attachment.extension ??
+    DOCUMENT_TYPES[contentType] ??
+    contentType.split("/")[1];
+  const key = `${ATTACHMENT_PREFIX}${conversationId}/${attachment.message_id}-${attachment.id}.${extension}`;
+  await storage.upload({
+    key,
+    data,
+    contentType,
+    metadata: {
+      conversationId: String(conversationId),
+      messageId: String(attachment.message_id)
+    }
+  });
+  return { key, contentType, data };
+}
+
+/**
+ * Attachments kept while a human agent has the conversation, by Chatwoot
+ * file type
+ */
+const KEPT_KINDS: Partial<
+  Record<ChatwootAttachment["file_type"], AttachmentContent["kind"]>
+> = {
+  image: "image",
+  file: "document",
+  audio: "audio"
+};
+
+/**
+ * Archive an image, document or voice note without reading it
+ * While a human agent has the conversation nothing is answered, so no model
+ * is run; the file is still kept with the conversation's attachments
+ */
+export async function keepAttachment(
+  storage: R2StorageManager,
+  conversationId: number,
+  attachment: ChatwootAttachment
+): Promise<AttachmentContent> {
+  const filename = getFilename(attachment);
+  const url = attachment.data_url;
+  const kind = KEPT_KINDS[attachment.file_type];
+  if (!kind) {
+    return { kind: "other", status: "unsupported", filename, url };
+  }
+
+  const { key, contentType } = await archiveAttachment(
+    storage,
+    conversationId,
+    attachment
+  );
+  return { kind, status: "archived", filename, url, key, contentType };
+}
+
+/**
+ * Archive an image or document and read it
+ * Size limits are checked against the size Chatwoot reports before
+ * downloading, and against the file itself after
+ */
+export async function readAttachment(
+  ai: Ai,
+  storage: R2StorageManager,
+  conversationId: number,
+  attachment: ChatwootAttachment
+): Promise<AttachmentContent> {
+  const filename = getFilename(attachment);
+  const url = attachment.data_url;
+  const isImage = attachment.file_type === "image";
+  if (!isImage && attachment.file_type !== "file") {
+    return { kind: "other", status: "unsupported", filename, url };
+  }
+
+  const kind = isImage ? "image" : "document";
+  const maxBytes = isImage ? MAX_IMAGE_BYTES : MAX_DOCUMENT_BYTES;
+  if ((attachment.file_size ?? 0) > maxBytes) {
+    return { kind, status: "too_large", filename, url };
+  }
+
+  const { key, contentType, data } = await archiveAttachment(
+    storage,
+    conversationId,
+    attachment
+  );
+  const content = { kind, filename, url, key, contentType } as const;
+  if (!isImage && !(contentType in DOCUMENT_TYPES)) {
+    return { ...content, kind: "other", status: "unsupported" };
+  }
+  if (data.byteLength > maxBytes) {
+    return { ...content, status: "too_large" };
+  }
+
+  if (isImage) {
+    const result = await ai.run(VISION_MODEL, {
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: IMAGE_PROMPT },
+            {
+              type: "image_url",
+              image_url: {
+                url: `data:${contentType};base64,${encodeBase64(data)}`
+              }
+            }
+          ]
+        }
+      ],
+      max_tokens: 512
+    });
+    return { ...content, status: "read", text: result.response.trim() };
+  }
+
+  const markdown = await ai.toMarkdown({
+    name: filename,
+    blob: new Blob([data], { type: contentType })
+  });
+  if (markdown.format === "error") {
+    // Encrypted or damaged files: answered as if the format were unsupported
+    console.warn(
+      `[Attachments] Could not convert ${filename}: ${markdown.error}`
+    );
+    return { ...content, kind: "other", status: "unsupported" };
+  }
+  const text = markdown.data.trim();
+  return {
+    ...content,
+    status: "read",
+    text:
+      text.length > MAX_DOCUMENT_CHARS
+        ? `${text.slice(0, MAX_DOCUMENT_CHARS)}\n[…documento cortado]`
+        : text
+  };
+}
+
+/**
+ * Text standing in for an attachment in the customer's message
+ */
+export function describeAttachment(content: AttachmentContent): string {
+  const { kind, status, filename, contentType, text } = content;
+  if (status === "read") {
+    return kind === "image"
+      ? `[Imagem enviada pelo cliente: ${filename}]\n${text || "(sem descrição)"}`
+      : `[Documento enviado pelo cliente: ${filename}]\n${text || "(sem texto)"}`;
+  }
+
+  if (status === "archived") {
+    return `[Anexo recebido durante o atendimento humano, não lido: ${filename}]`;
+  }
+
+  const label = kind === "image" ? "Imagem" : "Arquivo";
+  if (status === "too_large") {
+    const limit = kind === "image" ? MAX_IMAGE_BYTES : MAX_DOCUMENT_BYTES;
+    return `[${label} ${filename} grande demais para leitura (limite de ${limit / 1024 / 1024} MB)]`;
+  }
+  return `[${label} ${filename} em formato não suportado${contentType ? ` (${contentType})` : ""}; só imagens, PDF e DOCX são lidos]`;
+}
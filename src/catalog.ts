@@ -0,0 +1,230 @@
+/**
+ * Product catalog
+ * Plans, prices and limits as data. The system prompt, the plan tools and
+ * createPayment all read from here, so a price only exists in one place.
+ * The live catalog is stored in R2 and edited through /admin/catalog.
+ */
+import { z } from "zod/v3";
+import type { R2StorageManager } from "./r2";
+
+/**
+ * R2 prefix reserved for the catalog (writes go through /admin/catalog)
+ */
+export const CATALOG_PREFIX = "catalog/";
+
+const CATALOG_KEY = `${CATALOG_PREFIX}plans.json`;
+
+const planSchema = z.object({
+  sku: z
+    .string()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "sku must be lowercase kebab-case"),
+  name: z.string().min(1),
+  paymentTitle: z.string().min(1),
+  price: z.number().positive().multipleOf(0.01),
+  currency: z.literal("BRL"),
+  billingPeriod: z.enum(["monthly", "yearly"]),
+  audience: z.string().min(1),
+  /** null means unlimited */
+  limits: z.object({
+    contacts: z.number().int().positive().nullable(),
+    users: z.number().int().positive().nullable()
+  }),
+  /** sku of a cheaper plan whose features are all included */
+  includes: z.string().optional(),
+  features: z.array(z.string().min(1)),
+  popular: z.boolean().optional()
+});
+
+export const catalogSchema = z
+  .object({
+    plans: z.array(planSchema).min(1)
+  })
+  .superRefine(({ plans }, ctx) => {
+    const skus = new Set<string>();
+    plans.forEach((plan, index) => {
+      if (skus.has(plan.sku)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["plans", index, "sku"],
+          message: `Duplicate sku: ${plan.sku}`
+        });
+      }
+      skus.add(plan.sku);
+    });
+    plans.forEach((plan, index) => {
+      if (plan.includes && !skus.has(plan.includes)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["plans", index, "includes"],
+          message: `Unknown sku: ${plan.includes}`
+        });
+      }
+    });
+  });
+
+export type Plan = z.infer<typeof planSchema>;
+
+export interface Catalog {
+  plans: Plan[];
+  updatedAt?: string;
+}
+
+/**
+ * Catalog used until one is saved through the admin route
+ */
+export const DEFAULT_CATALOG: Catalog = {
+  plans: [
+    {
+      sku: "basico-mensal",
+      name: "Plano Básico",
+      paymentTitle: "Plano Básico Ingrave - Mensal",
+      price: 97,
+      currency: "BRL",
+      billingPeriod: "monthly",
+      audience: "Iniciantes e pequenos negócios",
+      limits: { contacts: 1000, users: 1 },
+      features: ["Funcionalidades essenciais para começar", "Suporte por email"]
+    },
+    {
+      sku: "profissional-mensal",
+      name: "Plano Profissional",
+      paymentTitle: "Plano Profissional Ingrave - Mensal",
+      price: 197,
+      currency: "BRL",
+      billingPeriod: "monthly",
+      audience: "Empresas em crescimento",
+      limits: { contacts: 10000, users: 5 },
+      includes: "basico-mensal",
+      features: [
+        "Suporte prioritário via chat",
+        "Integrações avançadas",
+        "Relatórios personalizados"
+      ],
+      popular: true
+    },
+    {
+      sku: "empresarial-mensal",
+      name: "Plano Empresarial",
+      paymentTitle: "Plano Empresarial Ingrave - Mensal",
+      price: 497,
+      currency: "BRL",
+      billingPeriod: "monthly",
+      audience: "Grandes empresas",
+      limits: { contacts: null, users: null },
+      includes: "profissional-mensal",
+      features: [
+        "Suporte VIP 24/7",
+        "API completa",
+        "Gerente de conta dedicado",
+        "Treinamento personalizado",
+        "SLA garantido"
+      ]
+    }
+  ]
+};
+
+/**
+ * Look up a plan by sku
+ */
+export function findPlan(catalog: Catalog, sku: string): Plan | undefined {
+  return catalog.plans.find((plan) => plan.sku === sku);
+}
+
+/**
+ * Every feature of a plan, including those of the plans it builds on
+ */
+export function getPlanFeatures(catalog: Catalog, plan: Plan): string[] {
+  const features: string[] = [];
+  const seen = new Set<string>();
+  let current: Plan | undefined = plan;
+
+  // Walk down the includes chain (guarding against cycles)
+  while (current && !seen.has(current.sku)) {
+    seen.add(current.sku);
+    features.unshift(...current.features);
+    current = current.includes
+      ? findPlan(catalog, current.includes)
+      : undefined;
+  }
+
+  return features;
+}
+
+/**
+ * Format an amount as Brazilian reais, e.g. "R$ 197,00"
+ */
+export function formatPrice(amount: number): string {
+  return `R$ ${amount.toFixed(2).replace(".", ",")}`;
+}
+
+function formatLimit(value: number | null, unit: string): string {
+  return value === null
+    ? `${unit} ilimitados`
+    : `Até ${value.toLocaleString("pt-BR")} ${unit}`;
+}
+
+const BILLING_PERIOD_LABELS: Record<Plan["billingPeriod"], string> = {
+  monthly: "mês",
+  yearly: "ano"
+};
+
+/**
+ * Render the catalog section of the system prompt
+ */
+export function renderCatalogPrompt(catalog: Catalog): string {
+  const sections = catalog.plans.map((plan, index) => {
+    const included = plan.includes
+      ? findPlan(catalog, plan.includes)
+      : undefined;
+    const lines = [
+      `### ${index + 1}. ${plan.name} - ${formatPrice(plan.price)}/${BILLING_PERIOD_LABELS[plan.billingPeriod]}${plan.popular ? " (MAIS POPULAR)" : ""}`,
+      `**SKU**: \`${plan.sku}\``,
+      `**Público-alvo**: ${plan.audience}`,
+      included
+        ? `**Recursos**: Todos do ${included.name}, mais:`
+        : "**Recursos**:",
+      ...plan.features.map((feature) => `- ${feature}`),
+      `- ${formatLimit(plan.limits.contacts, "contatos")}`,
+      `- ${plan.limits.users === 1 ? "1 usuário" : formatLimit(plan.limits.users, "usuários")}`
+    ];
+    return lines.join("\n");
+  });
+
+  return [
+    "## Catálogo de Produtos",
+    ...sections,
+    "Use `getPlans` ou `comparePlans` para consultar os detalhes dos planos. Para gerar o pagamento, chame `createPayment` com o `planSku` do plano escolhido: título e valor são definidos pelo sistema, nunca os informe manualmente."
+  ].join("\n\n");
+}
+
+/**
+ * Loads and saves the catalog in R2
+ */
+export class CatalogStore {
+  constructor(private storage: R2StorageManager) {}
+
+  /**
+   * The saved catalog, or the default one if none was saved yet
+   */
+  async get(): Promise<Catalog> {
+    const object = await this.storage.download(CATALOG_KEY);
+    return object ? await object.json<Catalog>() : DEFAULT_CATALOG;
+  }
+
+  /**
+   * Validate and replace the catalog
+   * Throws a ZodError when the input is not a valid catalog
+   */
+  async save(input: unknown): Promise<Catalog> {
+    const { plans } = catalogSchema.parse(input);
+    const catalog: Catalog = { plans, updatedAt: new Date().toISOString() };
+
+    await this.storage.upload({
+      key: CATALOG_KEY,
+      data: JSON.stringify(catalog),
+      contentType: "application/json"
+    });
+
+    return catalog;
+  }
+}
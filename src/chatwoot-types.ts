@@ -4,13 +4,26 @@
 export interface ChatwootWebhookEvent {
   event: string;
   id: number;
-  content: string;
+  /** Null for messages that only carry attachments, like voice notes */
+  content: string | null;
   content_type: "text" | "input_select" | "cards" | "form";
   message_type: "incoming" | "outgoing";
   created_at: string;
+  /** Private notes are outgoing messages only agents see */
+  private?: boolean;
+  attachments?: ChatwootAttachment[];
   account?: ChatwootAccount;
   conversation?: ChatwootConversation;
-  sender?: ChatwootContact;
+  sender?: ChatwootContact | ChatwootUser | ChatwootAgentBot;
+}
+
+/**
+ * Conversation events (conversation_updated, conversation_status_changed,
+ * assignee_changed) carry the conversation itself
+ */
+export interface ChatwootConversationEvent extends ChatwootConversation {
+  event: string;
+  labels?: string[];
 }
 
 export interface ChatwootAccount {
@@ -40,6 +53,21 @@ export interface ChatwootMessage {
   conversation_id: number;
   sender?: ChatwootContact | ChatwootUser;
   inbox_id: number;
+  attachments?: ChatwootAttachment[];
+}
+
+/**
+ * File sent with a message; `data_url` downloads it
+ */
+export interface ChatwootAttachment {
+  id: number;
+  message_id: number;
+  file_type: "image" | "audio" | "video" | "file" | "location" | "fallback";
+  account_id: number;
+  extension: string | null;
+  data_url: string;
+  thumb_url?: string;
+  file_size?: number;
 }
 
 export interface ChatwootContact {
@@ -58,6 +86,12 @@ export interface ChatwootUser {
   type: "user";
 }
 
+export interface ChatwootAgentBot {
+  id: number;
+  name: string;
+  type: "agent_bot";
+}
+
 /**
  * Chatwoot API request/response types
  */
@@ -74,3 +108,52 @@ export interface ChatwootSendMessageResponse {
   created_at: number;
   conversation_id: number;
 }
+
+/**
+ * Outcome of handing a webhook event to the conversation's Chat agent
+ * - processed: a reply was generated for this message
+ * - duplicate: the message id was already seen; `response` is the original reply
+ *   and `delivered` tells whether it already reached Chatwoot
+ * - buffered: the message waits for the debounce window; the agent replies to
+ *   the whole burst itself
+ * - paused: a human agent has the conversation; the message is kept in the
+ *   history but the bot does not answer it
+ * - deferred: an earlier message of the conversation failed and waits for
+ *   its retry; this one is sent again to the queue to be answered after it
+ * - ignored: the event does not carry a message the agent should answer
+ */
+export interface ChatwootProcessResult {
+  status:
+    | "processed"
+    | "duplicate"
+    | "buffered"
+    | "paused"
+    | "deferred"
+    | "ignored";
+  response?: string;
+  delivered?: boolean;
+}
+
+/**
+ * Who answers the conversation
+ * - bot: the agent replies to the customer
+ * - human: a human agent took over; the bot stays quiet until resumed
+ */
+export interface ChatwootHandoff {
+  status: "bot" | "human";
+  /**
+   * What last changed it: a human agent's message, a (re)assignment, an
+   * escalation, a `/bot` command, the resume label or the conversation being
+   * resolved
+   */
+  reason?:
+    | "agent_message"
+    | "assigned"
+    | "escalated"
+    | "command"
+    | "label"
+    | "resolved";
+  /** Last human assignee seen, so re-sent conversation updates do not pause again */
+  assigneeId?: number;
+  updatedAt?: string;
+}
@@ -1,9 +1,20 @@
 import type {
+  ChatwootAttachment,
   ChatwootWebhookEvent,
+  ChatwootUser,
   ChatwootSendMessageRequest,
   ChatwootSendMessageResponse
 } from "./chatwoot-types";
 import type { UIMessage } from "ai";
+import { describeAttachment, type AttachmentContent } from "./attachments";
+import type { AudioTranscription } from "./transcription";
+
+/**
+ * Called with every message the client posts, e.g. to remember its id
+ */
+export type ChatwootMessageSentHandler = (
+  message: ChatwootSendMessageResponse
+) => void | Promise<void>;
 
 /**
  * Chatwoot API client
@@ -12,11 +23,18 @@ export class ChatwootClient {
   private baseUrl: string;
   private apiKey: string;
   private accountId: string;
+  private onMessageSent?: ChatwootMessageSentHandler;
 
-  constructor(baseUrl: string, apiKey: string, accountId: string) {
+  constructor(
+    baseUrl: string,
+    apiKey: string,
+    accountId: string,
+    onMessageSent?: ChatwootMessageSentHandler
+  ) {
     this.baseUrl = baseUrl.replace(/\/$/, ""); // Remove trailing slash
     this.apiKey = apiKey;
     this.accountId = accountId;
+    this.onMessageSent = onMessageSent;
   }
 
   /**
@@ -50,7 +68,9 @@ export class ChatwootClient {
       );
     }
 
-    return response.json();
+    const message: ChatwootSendMessageResponse = await response.json();
+    await this.messageSent(message);
+    return message;
   }
 
   /**
@@ -78,6 +98,136 @@ export class ChatwootClient {
     }
   }
 
+  /**
+   * Assign a conversation to an agent and/or a team
+   */
+  async assignConversation(
+    conversationId: number,
+    assignment: { assigneeId?: number; teamId?: number }
+  ): Promise<void> {
+    const url = `${this.baseUrl}/api/v1/accounts/${this.accountId}/conversations/${conversationId}/assignments`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        api_access_token: this.apiKey
+      },
+      body: JSON.stringify({
+        assignee_id: assignment.assigneeId,
+        team_id: assignment.teamId
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to assign conversation: ${response.status} ${response.statusText}`
+      );
+    }
+  }
+
+  /**
+   * Set the priority of a conversation (null clears it)
+   */
+  async setConversationPriority(
+    conversationId: number,
+    priority: "urgent" | "high" | "medium" | "low" | null
+  ): Promise<void> {
+    const url = `${this.baseUrl}/api/v1/accounts/${this.accountId}/conversations/${conversationId}/toggle_priority`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        api_access_token: this.apiKey
+      },
+      body: JSON.stringify({ priority: priority ?? "none" })
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to set conversation priority: ${response.status} ${response.statusText}`
+      );
+    }
+  }
+
+  /**
+   * Add labels to a conversation, keeping the ones it already has
+   */
+  async addLabels(conversationId: number, labels: string[]): Promise<string[]> {
+    return this.updateLabels(conversationId, (current) => [
+      ...new Set([...current, ...labels])
+    ]);
+  }
+
+  /**
+   * Remove labels from a conversation, keeping the other ones
+   */
+  async removeLabels(
+    conversationId: number,
+    labels: string[]
+  ): Promise<string[]> {
+    return this.updateLabels(conversationId, (current) =>
+      current.filter((label) => !labels.includes(label))
+    );
+  }
+
+  /**
+   * Chatwoot replaces the whole label list, so the current labels are read
+   * first and the updated list is posted back
+   */
+  private async updateLabels(
+    conversationId: number,
+    update: (current: string[]) => string[]
+  ): Promise<string[]> {
+    const url = `${this.baseUrl}/api/v1/accounts/${this.accountId}/conversations/${conversationId}/labels`;
+    const headers = {
+      "Content-Type": "application/json",
+      api_access_token: this.apiKey
+    };
+
+    const current = await fetch(url, { headers });
+    if (!current.ok) {
+      throw new Error(
+        `Failed to read conversation labels: ${current.status} ${current.statusText}`
+      );
+    }
+    const { payload } = (await current.json()) as { payload: string[] };
+    const labels = update(payload);
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ labels })
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to update conversation labels: ${response.status} ${response.statusText}`
+      );
+    }
+    return labels;
+  }
+
+  /**
+   * Hand a posted message to onMessageSent
+   * The message is out either way, so a failure is only logged and a retry
+   * does not post it again
+   */
+  private async messageSent(
+    message: ChatwootSendMessageResponse
+  ): Promise<void> {
+    try {
+      await this.onMessageSent?.(message);
+    } catch (error) {
+      console.warn(
+        "[Chatwoot] Could not record sent message:",
+        message.id,
+        error
+      );
+    }
+  }
+
   /**
    * Send an audio attachment to a Chatwoot conversation
    */
@@ -86,17 +236,38 @@ export class ChatwootClient {
     audioBuffer: ArrayBuffer,
     filename: string = "audio.mp3",
     contentType: string = "audio/mpeg"
+  ): Promise<ChatwootSendMessageResponse> {
+    return this.sendAttachment(
+      conversationId,
+      audioBuffer,
+      filename,
+      contentType
+    );
+  }
+
+  /**
+   * Send a file (image, PDF, audio, ...) to a Chatwoot conversation, with an
+   * optional message next to it
+   */
+  async sendAttachment(
+    conversationId: number,
+    file: ArrayBuffer,
+    filename: string,
+    contentType: string,
+    content?: string
   ): Promise<ChatwootSendMessageResponse> {
     const url = `${this.baseUrl}/api/v1/accounts/${this.accountId}/conversations/${conversationId}/messages`;
 
     // Create FormData for multipart upload
     const formData = new FormData();
-
-    // Create a blob from the audio buffer
-    const audioBlob = new Blob([audioBuffer], { type: contentType });
-
-    // Append the audio file
-    formData.append("attachments[]", audioBlob, filename);
+    formData.append(
+      "attachments[]",
+      new Blob([file], { type: contentType }),
+      filename
+    );
+    if (content) {
+      formData.append("content", content);
+    }
     formData.append("message_type", "outgoing");
     formData.append("private", "false");
 
@@ -112,19 +283,82 @@ export class ChatwootClient {
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(
-        `Failed to send audio attachment to Chatwoot: ${response.status} ${response.statusText} - ${errorText}`
+        `Failed to send attachment to Chatwoot: ${response.status} ${response.statusText} - ${errorText}`
       );
     }
 
-    return response.json();
+    const message: ChatwootSendMessageResponse = await response.json();
+    await this.messageSent(message);
+    return message;
   }
 }
 
+/**
+ * Create a Chatwoot client from the environment
+ * Returns null when Chatwoot is not fully configured
+ */
+export function getChatwootClient(
+  onMessageSent?: ChatwootMessageSentHandler
+): ChatwootClient | null {
+  if (
+    !process.env.CHATWOOT_BASE_URL ||
+    !process.env.CHATWOOT_API_KEY ||
+    !process.env.CHATWOOT_ACCOUNT_ID
+  ) {
+    return null;
+  }
+
+  return new ChatwootClient(
+    process.env.CHATWOOT_BASE_URL,
+    process.env.CHATWOOT_API_KEY,
+    process.env.CHATWOOT_ACCOUNT_ID,
+    onMessageSent
+  );
+}
+
+/**
+ * Stands in for a voice note in which no speech was recognized, so the agent
+ * can ask the customer to write instead
+ */
+export const UNRECOGNIZED_AUDIO_TEXT = "[Áudio sem fala reconhecida]";
+
+/**
+ * Attachments (voice notes, images, documents) of a customer message the
+ * agent answers
+ */
+export function getCustomerAttachments(
+  event: ChatwootWebhookEvent
+): ChatwootAttachment[] {
+  if (
+    event.message_type !== "incoming" ||
+    event.content_type !== "text" ||
+    !event.conversation
+  ) {
+    return [];
+  }
+  return event.attachments ?? [];
+}
+
+/**
+ * What was read from the attachments of a message
+ */
+export interface ChatwootMessageMedia {
+  /** Transcript of the voice note */
+  transcription?: AudioTranscription;
+  /** Images and documents, in the order they were sent */
+  attachments?: AttachmentContent[];
+}
+
 /**
  * Convert Chatwoot webhook event to Agent UIMessage format
+ * A voice note is answered through its transcript; images and documents
+ * through their description or text. Only that text is kept in the history,
+ * never a file part: the Chatwoot URLs expire and the Workers AI chat model
+ * takes no files. The archived copies are referenced in the metadata
  */
 export function chatwootMessageToUIMessage(
-  event: ChatwootWebhookEvent
+  event: ChatwootWebhookEvent,
+  media: ChatwootMessageMedia = {}
 ): UIMessage | null {
   const conversation = event.conversation;
 
@@ -142,8 +376,19 @@ export function chatwootMessageToUIMessage(
     return null;
   }
 
+  const { transcription, attachments = [] } = media;
+
+  // A caption sent along with the files comes first
+  const text = [
+    event.content,
+    transcription && (transcription.text || UNRECOGNIZED_AUDIO_TEXT),
+    ...attachments.map(describeAttachment)
+  ]
+    .filter(Boolean)
+    .join("\n");
+
   // Skip if no content
-  if (!event.content) {
+  if (!text) {
     return null;
   }
 
@@ -153,14 +398,32 @@ export function chatwootMessageToUIMessage(
     parts: [
       {
         type: "text",
-        text: event.content
+        text
       }
     ],
     metadata: {
       createdAt: new Date(event.created_at),
       chatwootConversationId: conversation.id,
       chatwootMessageId: event.id,
-      chatwootSender: event.sender
+      chatwootSender: event.sender,
+      ...(transcription && {
+        chatwootAudio: {
+          key: transcription.key,
+          contentType: transcription.contentType,
+          language: transcription.language
+        }
+      }),
+      ...(attachments.length > 0 && {
+        chatwootAttachments: attachments.map(
+          ({ kind, status, filename, contentType, key }) => ({
+            kind,
+            status,
+            filename,
+            contentType,
+            key
+          })
+        )
+      })
     }
   };
 
@@ -168,27 +431,130 @@ export function chatwootMessageToUIMessage(
 }
 
 /**
- * Validate Chatwoot webhook signature (if implemented)
- * Note: Basic implementation - enhance based on your security needs
+ * Label an agent adds to hand the conversation back to the bot; it is
+ * removed again once the bot resumes
+ */
+export const BOT_RESUME_LABEL = "bot-resume";
+
+/**
+ * Read a `/bot pause` or `/bot resume` command from a private note
+ */
+export function parseBotCommand(
+  content: string | null | undefined
+): "pause" | "resume" | null {
+  const match = content?.trim().match(/^\/bot\s+(pause|resume)\b/i);
+  return match ? (match[1].toLowerCase() as "pause" | "resume") : null;
+}
+
+/**
+ * Whether a message sender or assignee is a human agent
+ * Messages the bot posts through the API are sent as an agent bot, or as the
+ * user whose access token it uses. That user is only known when
+ * CHATWOOT_BOT_USER_ID is set; otherwise the Chat agent recognizes its own
+ * messages by the ids it recorded when sending them
+ */
+export function isHumanAgent(
+  user: ChatwootWebhookEvent["sender"] | ChatwootUser | undefined | null
+): user is ChatwootUser {
+  return (
+    !!user &&
+    user.type === "user" &&
+    String(user.id) !== process.env.CHATWOOT_BOT_USER_ID
+  );
+}
+
+/**
+ * Maximum age (in seconds) of a signed webhook before it is treated as a replay
+ */
+export const WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS = 300;
+
+/**
+ * Result of validating a Chatwoot webhook signature
  */
-export function validateWebhookSignature(
+export interface WebhookSignatureResult {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Validate Chatwoot webhook signature
+ *
+ * Chatwoot signs `${timestamp}.${rawBody}` with HMAC-SHA256 and sends it as
+ * `X-Chatwoot-Signature: sha256=<hex>` alongside `X-Chatwoot-Timestamp`.
+ * Every configured secret is tried so the current and previous secret are
+ * both accepted while a rotation is in progress.
+ */
+export async function validateWebhookSignature(
   request: Request,
-  webhookSecret?: string
-): boolean {
-  // TEMPORARY: Skip validation to allow webhooks to work
-  // TODO: Implement proper HMAC signature validation
-  // See: https://www.chatwoot.com/docs/product/channels/api/webhooks
-  return true;
-
-  // If no secret is configured or it's an empty string, skip validation
-  // if (!webhookSecret || webhookSecret.trim() === "") {
-  //   return true;
-  // }
-
-  // Implement signature validation based on Chatwoot's webhook signature
-  // This is a placeholder - adjust based on your Chatwoot configuration
-  // const signature = request.headers.get("x-chatwoot-signature");
-  // return !!signature;
+  rawBody: string,
+  secrets: Array<string | undefined>,
+  options: { toleranceSeconds?: number; now?: number } = {}
+): Promise<WebhookSignatureResult> {
+  const {
+    toleranceSeconds = WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS,
+    now = Date.now()
+  } = options;
+
+  const activeSecrets = secrets.filter(
+    (secret): secret is string => !!secret && secret.trim() !== ""
+  );
+  if (activeSecrets.length === 0) {
+    return { valid: false, reason: "webhook secret not configured" };
+  }
+
+  const signatureHeader = request.headers.get("x-chatwoot-signature");
+  const timestampHeader = request.headers.get("x-chatwoot-timestamp");
+  if (!signatureHeader || !timestampHeader) {
+    return { valid: false, reason: "missing signature headers" };
+  }
+
+  const timestamp = Number.parseInt(timestampHeader, 10);
+  if (Number.isNaN(timestamp)) {
+    return { valid: false, reason: "invalid timestamp header" };
+  }
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return { valid: false, reason: "timestamp outside tolerance window" };
+  }
+
+  const signature = hexToBytes(signatureHeader.replace(/^sha256=/, ""));
+  if (!signature) {
+    return { valid: false, reason: "malformed signature header" };
+  }
+
+  const encoder = new TextEncoder();
+  const signedPayload = encoder.encode(`${timestampHeader}.${rawBody}`);
+
+  for (const secret of activeSecrets) {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["verify"]
+    );
+
+    // subtle.verify compares in constant time
+    if (await crypto.subtle.verify("HMAC", key, signature, signedPayload)) {
+      return { valid: true };
+    }
+  }
+
+  return { valid: false, reason: "signature mismatch" };
+}
+
+/**
+ * Decode a hex string, returning null when it is not valid hex
+ */
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> | null {
+  if (hex.length === 0 || hex.length % 2 !== 0 || !/^[0-9a-f]+$/i.test(hex)) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(new ArrayBuffer(hex.length / 2));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
 }
 
 /**
@@ -20,6 +20,32 @@ function isToolResultWithContent(
   );
 }
 
+/**
+ * Tools that move money; the operator approves them from a summary of the action
+ */
+const PAYMENT_ACTION_TOOLS = ["tool-refundPayment", "tool-cancelPayment"];
+
+interface PaymentActionInput {
+  paymentId: string;
+  amount: number;
+  reason: string;
+}
+
+function isPaymentActionInput(input: unknown): input is PaymentActionInput {
+  return (
+    typeof input === "object" &&
+    input !== null &&
+    "paymentId" in input &&
+    "amount" in input &&
+    "reason" in input
+  );
+}
+
+const currencyFormat = new Intl.NumberFormat("pt-BR", {
+  style: "currency",
+  currency: "BRL"
+});
+
 interface ToolInvocationCardProps {
   toolUIPart: ToolUIPart;
   toolCallId: string;
@@ -42,6 +68,11 @@ export function ToolInvocationCard({
   // addToolResult
 }: ToolInvocationCardProps) {
   const [isExpanded, setIsExpanded] = useState(true);
+  const paymentAction =
+    PAYMENT_ACTION_TOOLS.includes(toolUIPart.type) &&
+    isPaymentActionInput(toolUIPart.input)
+      ? toolUIPart.input
+      : null;
 
   return (
     <Card className="p-4 my-3 w-full max-w-[500px] rounded-md bg-neutral-100 dark:bg-neutral-900 overflow-hidden">
@@ -74,6 +105,19 @@ export function ToolInvocationCard({
           className="overflow-y-auto"
           style={{ maxHeight: isExpanded ? "180px" : "0px" }}
         >
+          {needsConfirmation && paymentAction && (
+            <dl className="mb-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">Amount:</dt>
+              <dd className="font-medium">
+                {currencyFormat.format(paymentAction.amount)}
+              </dd>
+              <dt className="text-muted-foreground">Payment ID:</dt>
+              <dd className="font-mono">{paymentAction.paymentId}</dd>
+              <dt className="text-muted-foreground">Reason:</dt>
+              <dd className="break-words">{paymentAction.reason}</dd>
+            </dl>
+          )}
+
           <div className="mb-3">
             <h5 className="text-xs font-medium mb-1 text-muted-foreground">
               Arguments:
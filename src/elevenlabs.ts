@@ -27,13 +27,13 @@ export class ElevenLabsClient {
   private config: ElevenLabsConfig;
 
   // Default voice ID (Rachel - professional female voice)
-  private static readonly DEFAULT_VOICE_ID = "JBFqnCBsd6RMkjVDRZzb";
+  static readonly DEFAULT_VOICE_ID = "JBFqnCBsd6RMkjVDRZzb";
 
   // Default model (multilingual v2 - supports Portuguese)
-  private static readonly DEFAULT_MODEL_ID = "eleven_multilingual_v2";
+  static readonly DEFAULT_MODEL_ID = "eleven_multilingual_v2";
 
   // Default output format
-  private static readonly DEFAULT_OUTPUT_FORMAT = "mp3_44100_128";
+  static readonly DEFAULT_OUTPUT_FORMAT = "mp3_44100_128";
 
   constructor(config: ElevenLabsConfig) {
     this.config = config;
@@ -104,3 +104,19 @@ export class ElevenLabsClient {
     };
   }
 }
+
+/**
+ * Create an ElevenLabs client from the environment
+ * Returns null when ELEVENLABS_API_KEY is not set
+ */
+export function getElevenLabsClient(): ElevenLabsClient | null {
+  if (!process.env.ELEVENLABS_API_KEY) {
+    return null;
+  }
+
+  return new ElevenLabsClient({
+    accountId: process.env.CLOUDFLARE_ACCOUNT_ID,
+    gatewayId: process.env.AI_GATEWAY_ID,
+    apiKey: process.env.ELEVENLABS_API_KEY
+  });
+}
@@ -0,0 +1,241 @@
+/**
+ * Escalation routing
+ * Decides who picks up a conversation handed to a human: the team or agent
+ * it is assigned to and its priority in Chatwoot, by reason category,
+ * business hours and the customer's language. The rules are stored in R2
+ * and edited through /admin/escalation-routing.
+ */
+import { z } from "zod/v3";
+import type { R2StorageManager } from "./r2";
+
+/**
+ * R2 prefix reserved for the routing rules (writes go through
+ * /admin/escalation-routing)
+ */
+export const ESCALATION_PREFIX = "escalation/";
+
+const ROUTING_KEY = `${ESCALATION_PREFIX}routing.json`;
+
+/**
+ * Why the conversation is escalated, as chosen by the model
+ */
+export const ESCALATION_CATEGORIES = [
+  "billing",
+  "technical",
+  "sales",
+  "complaint",
+  "other"
+] as const;
+
+export type EscalationCategory = (typeof ESCALATION_CATEGORIES)[number];
+
+/**
+ * Chatwoot conversation priorities
+ */
+export const CHATWOOT_PRIORITIES = ["urgent", "high", "medium", "low"] as const;
+
+export type ChatwootPriority = (typeof CHATWOOT_PRIORITIES)[number];
+
+const clockTime = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "time must be HH:MM");
+
+const routeSchema = z.object({
+  teamId: z.number().int().positive().optional(),
+  assigneeId: z.number().int().positive().optional(),
+  priority: z.enum(CHATWOOT_PRIORITIES).optional()
+});
+
+/**
+ * A rule applies when every condition it sets matches; unset conditions
+ * match anything
+ */
+const ruleSchema = routeSchema.extend({
+  categories: z.array(z.enum(ESCALATION_CATEGORIES)).min(1).optional(),
+  /** ISO 639-1 codes, e.g. "pt", "es" */
+  languages: z
+    .array(z.string().regex(/^[a-z]{2}$/))
+    .min(1)
+    .optional(),
+  /** true: only during business hours; false: only outside them */
+  businessHours: z.boolean().optional()
+});
+
+export const escalationRoutingSchema = z.object({
+  timeZone: z.string().refine((timeZone) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Unknown time zone"),
+  businessHours: z.object({
+    /** 0 = Sunday ... 6 = Saturday */
+    days: z.array(z.number().int().min(0).max(6)).min(1),
+    start: clockTime,
+    end: clockTime
+  }),
+  /** Checked in order; the first match wins */
+  rules: z.array(ruleSchema),
+  /** Used for whatever the matching rule leaves unset */
+  fallback: routeSchema
+});
+
+export type EscalationRule = z.infer<typeof ruleSchema>;
+export type EscalationRoute = z.infer<typeof routeSchema>;
+
+export interface EscalationRouting
+  extends z.infer<typeof escalationRoutingSchema> {
+  updatedAt?: string;
+}
+
+/**
+ * Routing used until one is saved through the admin route: no team or agent
+ * (CHATWOOT_ESCALATION_TEAM_ID / CHATWOOT_ESCALATION_ASSIGNEE_ID still
+ * apply), complaints and billing issues first
+ */
+export const DEFAULT_ESCALATION_ROUTING: EscalationRouting = {
+  timeZone: "America/Sao_Paulo",
+  businessHours: { days: [1, 2, 3, 4, 5], start: "09:00", end: "18:00" },
+  rules: [
+    { categories: ["complaint"], priority: "urgent" },
+    { categories: ["billing"], priority: "high" }
+  ],
+  fallback: { priority: "medium" }
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Whether `now` falls within the business hours, in the routing's time zone
+ */
+export function isBusinessHours(
+  routing: Pick<EscalationRouting, "timeZone" | "businessHours">,
+  now: Date
+): boolean {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: routing.timeZone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23"
+    })
+      .formatToParts(now)
+      .map(({ type, value }) => [type, value])
+  );
+  const { days, start, end } = routing.businessHours;
+  const time = `${parts.hour}:${parts.minute}`;
+  return (
+    days.includes(WEEKDAYS.indexOf(parts.weekday)) &&
+    time >= start &&
+    time < end
+  );
+}
+
+/**
+ * Team, agent and priority for an escalation
+ * The first matching rule is applied over the fallback
+ */
+export function routeEscalation(
+  routing: EscalationRouting,
+  escalation: { category: EscalationCategory; language?: string; now: Date }
+): EscalationRoute {
+  const inBusinessHours = isBusinessHours(routing, escalation.now);
+  const rule = routing.rules.find(
+    (rule) =>
+      (!rule.categories || rule.categories.includes(escalation.category)) &&
+      (!rule.languages ||
+        (escalation.language !== undefined &&
+          rule.languages.includes(escalation.language))) &&
+      (rule.businessHours === undefined ||
+        rule.businessHours === inBusinessHours)
+  );
+
+  return {
+    teamId: rule?.teamId ?? routing.fallback.teamId,
+    assigneeId: rule?.assigneeId ?? routing.fallback.assigneeId,
+    priority: rule?.priority ?? routing.fallback.priority
+  };
+}
+
+/**
+ * Handoff summary left for the human agent in a private note, as the model
+ * is asked to write it
+ */
+export const escalationSummarySchema = z.object({
+  summary: z
+    .string()
+    .describe("Resumo da conversa em 2 a 4 frases, em português"),
+  intent: z.string().describe("O que o cliente quer, em poucas palavras"),
+  language: z
+    .string()
+    .regex(/^[a-z]{2}$/)
+    .optional()
+    .describe("Código ISO 639-1 do idioma em que o cliente escreve"),
+  planSku: z
+    .string()
+    .optional()
+    .describe("planSku do plano de interesse, se o cliente mencionou um"),
+  customerEmail: z
+    .string()
+    .optional()
+    .describe("Email do cliente, se ele informou")
+});
+
+export type EscalationSummary = z.infer<typeof escalationSummarySchema>;
+
+/**
+ * Private note posted to Chatwoot when a conversation is escalated
+ */
+export function renderEscalationNote(
+  reason: string,
+  category: EscalationCategory,
+  summary: EscalationSummary
+): string {
+  return [
+    "🙋 Conversa encaminhada pelo assistente virtual.",
+    `Motivo: ${reason} (${category})`,
+    `Resumo: ${summary.summary}`,
+    `Intenção: ${summary.intent}`,
+    `Plano de interesse: ${summary.planSku ?? "não informado"}`,
+    `Email do cliente: ${summary.customerEmail ?? "não informado"}`
+  ].join("\n");
+}
+
+/**
+ * Loads and saves the routing rules in R2
+ */
+export class EscalationRoutingStore {
+  constructor(private storage: R2StorageManager) {}
+
+  /**
+   * The saved routing, or the default one if none was saved yet
+   */
+  async get(): Promise<EscalationRouting> {
+    const object = await this.storage.download(ROUTING_KEY);
+    return object
+      ? await object.json<EscalationRouting>()
+      : DEFAULT_ESCALATION_ROUTING;
+  }
+
+  /**
+   * Validate and replace the routing
+   * Throws a ZodError when the input is not a valid routing
+   */
+  async save(input: unknown): Promise<EscalationRouting> {
+    const routing: EscalationRouting = {
+      ...escalationRoutingSchema.parse(input),
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.storage.upload({
+      key: ROUTING_KEY,
+      data: JSON.stringify(routing),
+      contentType: "application/json"
+    });
+
+    return routing;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Order index
+ * Orders live in the SQLite storage of the Chat agent that created them
+ * (tables payment_orders, payment_order_items and payment_order_events).
+ * Every change is mirrored to R2 under orders/ so sales can list the orders
+ * of all conversations through /admin/orders.
+ */
+import type { PaymentOrder } from "./payment-types";
+import type { R2StorageManager } from "./r2";
+
+/**
+ * R2 prefix reserved for the order index (written only by the Chat agent)
+ */
+export const ORDER_PREFIX = "orders/";
+
+/**
+ * Most orders returned by one listing call
+ */
+export const MAX_ORDER_PAGE_SIZE = 100;
+
+const DEFAULT_ORDER_PAGE_SIZE = 50;
+
+/**
+ * Largest millisecond timestamp with 13 digits, used to invert creation
+ * times so R2 (which lists keys in ascending order) lists newest first
+ */
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+/**
+ * Filters for listing orders; all of them must match
+ */
+export interface OrderFilter {
+  status?: string;
+  planSku?: string;
+  conversationId?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+function orderKey(order: PaymentOrder): string {
+  const inverted = MAX_TIMESTAMP - Date.parse(order.createdAt);
+  return `${ORDER_PREFIX}${String(inverted).padStart(13, "0")}-${order.reference}.json`;
+}
+
+function matches(order: PaymentOrder, filter: OrderFilter): boolean {
+  return (
+    (!filter.status || order.status === filter.status) &&
+    (!filter.planSku || order.planSku === filter.planSku) &&
+    (filter.conversationId === undefined ||
+      order.conversationId === filter.conversationId)
+  );
+}
+
+/**
+ * Cross-conversation index of orders in R2
+ */
+export class OrderIndex {
+  constructor(private storage: R2StorageManager) {}
+
+  /**
+   * Add or update an order
+   */
+  async put(order: PaymentOrder): Promise<void> {
+    await this.storage.upload({
+      key: orderKey(order),
+      data: JSON.stringify(order),
+      contentType: "application/json",
+      // Listing reads orders from the metadata, one R2 call per page
+      metadata: { order: JSON.stringify(order) }
+    });
+  }
+
+  /**
+   * List orders, newest first
+   * Pass the returned cursor back to get the next page
+   */
+  async list(
+    filter: OrderFilter = {}
+  ): Promise<{ orders: PaymentOrder[]; cursor?: string }> {
+    const limit = Math.min(
+      filter.limit ?? DEFAULT_ORDER_PAGE_SIZE,
+      MAX_ORDER_PAGE_SIZE
+    );
+    const orders: PaymentOrder[] = [];
+
+    let cursor = filter.cursor;
+    do {
+      // Never read past the page being filled, so the cursor skips nothing
+      const page = await this.storage.list({
+        prefix: ORDER_PREFIX,
+        cursor,
+        limit: limit - orders.length,
+        include: ["customMetadata"]
+      });
+      for (const file of page.files) {
+        const metadata = file.customMetadata?.order;
+        const order = metadata ? (JSON.parse(metadata) as PaymentOrder) : null;
+        if (order && matches(order, filter)) {
+          orders.push(order);
+        }
+      }
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor && orders.length < limit);
+
+    return { orders, cursor };
+  }
+}
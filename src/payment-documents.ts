@@ -0,0 +1,79 @@
+/**
+ * Payment documents
+ * The PIX QR code image and the boleto PDF are kept in R2 under payments/
+ * (one folder per order reference) so they can be sent to the customer as
+ * attachments and found again by support.
+ */
+import type { DirectPaymentDetails } from "./payment-types";
+import type { R2StorageManager } from "./r2";
+
+/**
+ * R2 prefix reserved for payment documents (written only by the Chat agent)
+ */
+export const PAYMENT_DOCUMENT_PREFIX = "payments/";
+
+/**
+ * A stored QR code image or boleto PDF
+ */
+export interface PaymentDocument {
+  key: string;
+  filename: string;
+  contentType: string;
+  data: ArrayBuffer;
+}
+
+function decodeBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Fetch the document of a PIX or boleto payment and store it in R2
+ * PIX QR codes come inline (base64 PNG); boleto PDFs are downloaded from
+ * Mercado Pago. Returns null when the payment has no document
+ */
+export async function storePaymentDocument(
+  storage: R2StorageManager,
+  reference: string,
+  payment: DirectPaymentDetails
+): Promise<PaymentDocument | null> {
+  let document: Omit<PaymentDocument, "key">;
+  if (payment.payment_method === "pix") {
+    if (!payment.qr_code_base64) {
+      return null;
+    }
+    document = {
+      filename: `pix-${payment.id}.png`,
+      contentType: "image/png",
+      data: decodeBase64(payment.qr_code_base64)
+    };
+  } else {
+    if (!payment.pdf_url) {
+      return null;
+    }
+    const response = await fetch(payment.pdf_url);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to download boleto ${payment.id}: ${response.status}`
+      );
+    }
+    document = {
+      filename: `boleto-${payment.id}.pdf`,
+      contentType: "application/pdf",
+      data: await response.arrayBuffer()
+    };
+  }
+
+  const key = `${PAYMENT_DOCUMENT_PREFIX}${reference}/${document.filename}`;
+  await storage.upload({
+    key,
+    data: document.data,
+    contentType: document.contentType,
+    metadata: { reference, paymentId: String(payment.id) }
+  });
+  return { key, ...document };
+}
@@ -0,0 +1,260 @@
+/**
+ * Payment guardrails
+ * Checks a payment request from the model against the catalog before any
+ * link is created. Prices always come from the catalog, and an amount the
+ * model quoted that differs from them is rejected. Rejections carry a code
+ * and a recovery hint so the model can correct the call (ask for an email,
+ * pick a valid SKU, ...) instead of giving up.
+ */
+import { findPlan, formatPrice, type Catalog, type Plan } from "./catalog";
+import type { PaymentCharge } from "./payment-types";
+
+/**
+ * Most subscriptions of one plan that can be bought in a single link
+ */
+export const MAX_PAYMENT_QUANTITY = 10;
+
+/**
+ * How the customer pays
+ * - checkout: Mercado Pago checkout link (card, PIX or boleto, chosen there)
+ * - pix: PIX copy-paste code and QR image
+ * - boleto: barcode and PDF, registered to the payer's CPF/CNPJ
+ */
+export const PAYMENT_METHODS = ["checkout", "pix", "boleto"] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export type PaymentGuardrailCode =
+  | "UNKNOWN_PLAN"
+  | "PRICE_MISMATCH"
+  | "INVALID_QUANTITY"
+  | "CURRENCY_NOT_ALLOWED"
+  | "INVALID_EMAIL"
+  | "UNSUPPORTED_PAYMENT_METHOD"
+  | "PAYER_DETAILS_REQUIRED";
+
+/**
+ * Structured rejection returned to the model
+ */
+export interface PaymentGuardrailError {
+  code: PaymentGuardrailCode;
+  field: string;
+  message: string;
+  recovery: string;
+}
+
+/**
+ * Payment as requested by the model
+ */
+export interface PaymentRequest {
+  planSku: string;
+  quantity?: number;
+  currency?: string;
+  /** Total the model quoted to the customer, if any */
+  quotedAmount?: number;
+  customerEmail?: string;
+  customerName?: string;
+  /** ISO 3166-1 alpha-2 country of the customer (default: BR) */
+  customerCountry?: string;
+  /** Default: checkout */
+  paymentMethod?: PaymentMethod;
+  /** CPF or CNPJ, required for boleto */
+  customerDocument?: string;
+}
+
+/**
+ * Payment that passed every guardrail, priced from the catalog
+ */
+export interface ValidatedPayment {
+  plan: Plan;
+  quantity: number;
+  currency: string;
+  unitPrice: number;
+  total: number;
+  customerEmail: string;
+  customerName?: string;
+  paymentMethod: PaymentMethod;
+  /** Digits only */
+  customerDocument?: string;
+}
+
+export type PaymentGuardrailResult =
+  | { ok: true; payment: ValidatedPayment }
+  | { ok: false; error: PaymentGuardrailError };
+
+/**
+ * Outcome of Chat.createPaymentLink
+ * - created: the payment service returned a checkout link, or for PIX and
+ *   boleto the payment itself (`charge`); `initPoint` is then the page where
+ *   the customer can see the QR code or print the boleto. Links and
+ *   payments stop accepting payment at `expiresAt`
+ * - rejected: a guardrail failed; nothing was sent to the payment service
+ * - failed: the payment service errored; message is safe to show the customer
+ */
+export type PaymentLinkResult =
+  | {
+      status: "created";
+      payment: ValidatedPayment;
+      reference: string;
+      preferenceId?: string;
+      initPoint?: string;
+      expiresAt: string;
+      charge?: PaymentCharge;
+    }
+  | { status: "rejected"; error: PaymentGuardrailError }
+  | { status: "failed"; message: string };
+
+/**
+ * Entries written to the payment audit log, one per step of an attempt,
+ * plus approved refunds and cancellations
+ */
+export type PaymentAuditOutcome =
+  | "attempted"
+  | "rejected"
+  | "created"
+  | "failed"
+  | "refunded"
+  | "cancelled";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * CPF (11 digits) or CNPJ (14 digits), punctuation removed
+ */
+const DOCUMENT_LENGTHS = [11, 14];
+
+function reject(
+  code: PaymentGuardrailCode,
+  field: string,
+  message: string,
+  recovery: string
+): PaymentGuardrailResult {
+  return { ok: false, error: { code, field, message, recovery } };
+}
+
+/**
+ * Run every guardrail; the first failing check is returned
+ */
+export function checkPaymentRequest(
+  catalog: Catalog,
+  request: PaymentRequest
+): PaymentGuardrailResult {
+  const skus = catalog.plans.map((plan) => plan.sku).join(", ");
+  const plan = findPlan(catalog, request.planSku);
+  if (!plan) {
+    return reject(
+      "UNKNOWN_PLAN",
+      "planSku",
+      `Unknown plan SKU: ${request.planSku}`,
+      `Use one of: ${skus}`
+    );
+  }
+
+  const quantity = request.quantity ?? 1;
+  if (
+    !Number.isInteger(quantity) ||
+    quantity < 1 ||
+    quantity > MAX_PAYMENT_QUANTITY
+  ) {
+    return reject(
+      "INVALID_QUANTITY",
+      "quantity",
+      `Quantity must be a whole number between 1 and ${MAX_PAYMENT_QUANTITY}`,
+      `Ask how many subscriptions the customer needs; for more than ${MAX_PAYMENT_QUANTITY} escalate to a human`
+    );
+  }
+
+  const country = (request.customerCountry ?? "BR").toUpperCase();
+  const currency = (request.currency ?? plan.currency).toUpperCase();
+  if (currency !== plan.currency || (country === "BR" && currency !== "BRL")) {
+    return reject(
+      "CURRENCY_NOT_ALLOWED",
+      "currency",
+      `${currency} is not accepted for ${plan.name}${country === "BR" ? " (customers in Brazil pay in BRL)" : ""}`,
+      `Omit currency or use ${plan.currency}`
+    );
+  }
+
+  const total = Math.round(plan.price * quantity * 100) / 100;
+  if (
+    request.quotedAmount !== undefined &&
+    Math.abs(request.quotedAmount - total) >= 0.01
+  ) {
+    return reject(
+      "PRICE_MISMATCH",
+      "quotedAmount",
+      `Quoted ${formatPrice(request.quotedAmount)} but ${plan.name} costs ${formatPrice(total)}`,
+      `Tell the customer the correct price (${formatPrice(total)}) and call createPayment again without quotedAmount or with the correct total`
+    );
+  }
+
+  const customerEmail = request.customerEmail?.trim();
+  if (!customerEmail || !EMAIL_PATTERN.test(customerEmail)) {
+    return reject(
+      "INVALID_EMAIL",
+      "customerEmail",
+      customerEmail
+        ? `Invalid customer email: ${customerEmail}`
+        : "Customer email is required",
+      "Ask the customer for a valid email address and try again"
+    );
+  }
+
+  const paymentMethod = request.paymentMethod ?? "checkout";
+  if (!PAYMENT_METHODS.includes(paymentMethod)) {
+    return reject(
+      "UNSUPPORTED_PAYMENT_METHOD",
+      "paymentMethod",
+      `Unsupported payment method: ${paymentMethod}`,
+      `Use one of: ${PAYMENT_METHODS.join(", ")}`
+    );
+  }
+  if (paymentMethod !== "checkout" && currency !== "BRL") {
+    return reject(
+      "UNSUPPORTED_PAYMENT_METHOD",
+      "paymentMethod",
+      `${paymentMethod} is only available in BRL`,
+      "Use the checkout payment method"
+    );
+  }
+
+  const customerDocument = request.customerDocument?.replace(/\D/g, "");
+  if (paymentMethod === "boleto") {
+    if (!request.customerName?.trim()) {
+      return reject(
+        "PAYER_DETAILS_REQUIRED",
+        "customerName",
+        "Customer full name is required for boleto",
+        "Ask the customer for their full name and try again"
+      );
+    }
+    if (
+      !customerDocument ||
+      !DOCUMENT_LENGTHS.includes(customerDocument.length)
+    ) {
+      return reject(
+        "PAYER_DETAILS_REQUIRED",
+        "customerDocument",
+        customerDocument
+          ? `Invalid CPF/CNPJ: ${request.customerDocument}`
+          : "Customer CPF or CNPJ is required for boleto",
+        "Ask the customer for their CPF (or CNPJ for companies) and try again"
+      );
+    }
+  }
+
+  return {
+    ok: true,
+    payment: {
+      plan,
+      quantity,
+      currency,
+      unitPrice: plan.price,
+      total,
+      customerEmail,
+      customerName: request.customerName,
+      paymentMethod,
+      customerDocument: customerDocument || undefined
+    }
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Payment references
+ * Every checkout link carries a structured `external_reference` so a Mercado
+ * Pago payment can be traced back to the conversation that produced it:
+ *
+ *   <agent id>.<chatwoot conversation id | "web">.<plan sku>.<nonce>
+ *
+ * The agent id is the Chat Durable Object id (64 hex characters). None of the
+ * parts can contain a dot: SKUs are kebab-case and the nonce is alphanumeric.
+ */
+import { generateId } from "ai";
+
+/**
+ * Conversation part used for links created from the web chat
+ */
+const WEB_CONVERSATION = "web";
+
+const AGENT_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Parts of a payment reference
+ * Links created before references were structured only carry the agent id
+ */
+export interface PaymentReference {
+  agentId: string;
+  conversationId?: number;
+  planSku?: string;
+  nonce?: string;
+}
+
+/**
+ * Build the reference for a new checkout link, with a fresh nonce
+ */
+export function createPaymentReference(parts: {
+  agentId: string;
+  conversationId?: number;
+  planSku: string;
+}): string {
+  return [
+    parts.agentId,
+    parts.conversationId ?? WEB_CONVERSATION,
+    parts.planSku,
+    generateId()
+  ].join(".");
+}
+
+/**
+ * Split a reference into its parts
+ * Returns null for references that were not created by the agent
+ */
+export function parsePaymentReference(value: string): PaymentReference | null {
+  const parts = value.split(".");
+  const [agentId] = parts;
+  if (!AGENT_ID_PATTERN.test(agentId)) {
+    return null;
+  }
+
+  // Legacy reference: just the agent id
+  if (parts.length === 1) {
+    return { agentId };
+  }
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const [, conversation, planSku, nonce] = parts;
+  const conversationId =
+    conversation === WEB_CONVERSATION ? undefined : Number(conversation);
+  if (
+    conversationId !== undefined &&
+    (!Number.isInteger(conversationId) || conversationId <= 0)
+  ) {
+    return null;
+  }
+  if (!planSku || !nonce) {
+    return null;
+  }
+
+  return { agentId, conversationId, planSku, nonce };
+}
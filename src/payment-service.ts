@@ -0,0 +1,26 @@
+/**
+ * Payment service
+ * The payment worker (workflows/holy-mouse-3f4c) is reached through the
+ * PAYMENT_SERVICE binding. Routes that move money or expose payer data only
+ * accept calls carrying the secret both workers share (PAYMENT_SERVICE_SECRET),
+ * so every call goes through here.
+ */
+
+/**
+ * Call a route of the payment worker, e.g. `/payment/refund`
+ */
+export function fetchPaymentService(
+  env: Env,
+  path: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const secret = process.env.PAYMENT_SERVICE_SECRET;
+  if (secret) {
+    headers.set("Authorization", `Bearer ${secret}`);
+  }
+  return env.PAYMENT_SERVICE.fetch(`https://payment-service${path}`, {
+    ...init,
+    headers
+  });
+}
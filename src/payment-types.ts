@@ -0,0 +1,283 @@
+/**
+ * Payment types
+ * Payments, orders and subscriptions as exchanged with the payment worker
+ * (workflows/holy-mouse-3f4c) and stored by the Chat agent
+ */
+import type { PaymentGuardrailError } from "./payment-guardrails";
+
+/**
+ * Mercado Pago payment statuses
+ * https://www.mercadopago.com.br/developers/pt/reference/payments/_payments_id/get
+ */
+export type MercadoPagoPaymentStatus =
+  | "pending"
+  | "approved"
+  | "authorized"
+  | "in_process"
+  | "in_mediation"
+  | "rejected"
+  | "cancelled"
+  | "refunded"
+  | "charged_back";
+
+/**
+ * A payment changed state on Mercado Pago
+ * `externalReference` is the reference set on the checkout preference (see
+ * payment-reference.ts), which leads back to the Chat agent that created the link
+ */
+export interface PaymentStatusUpdate {
+  paymentId: string;
+  status: MercadoPagoPaymentStatus;
+  statusDetail?: string;
+  externalReference: string;
+  amount: number;
+  currency: string;
+  description?: string;
+  payerEmail?: string;
+}
+
+/**
+ * Outcome of recording a payment update in the Chat agent
+ * - recorded: first time this payment reached this status
+ * - duplicate: the status was already recorded; `delivered` tells whether the
+ *   customer notification already reached Chatwoot
+ * - unknown: no order of this agent has the payment's reference; nothing is
+ *   recorded and the customer is not told
+ * `notification` is the message for the customer, when the status warrants one,
+ * and `conversationId` the Chatwoot conversation to post it to
+ */
+export interface PaymentStatusResult {
+  status: "recorded" | "duplicate" | "unknown";
+  notification?: string;
+  conversationId?: number;
+  delivered?: boolean;
+}
+
+/**
+ * Checkout link created by the agent, kept in the Chat agent's payment_orders
+ * table under its external reference
+ * `status` stays "pending" until Mercado Pago reports a payment for it, or
+ * becomes "expired" when the link expires unpaid
+ */
+export interface PaymentOrder {
+  reference: string;
+  planSku: string;
+  quantity: number;
+  amount: number;
+  currency: string;
+  customerEmail: string;
+  conversationId?: number;
+  preferenceId?: string;
+  initPoint?: string;
+  status: "pending" | "expired" | MercadoPagoPaymentStatus;
+  paymentId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * What changed an order's status
+ * - createPayment: the checkout link was created
+ * - checkPaymentStatus: the agent looked the payment up on Mercado Pago
+ * - webhook: Mercado Pago notified the payment worker
+ * - refundPayment / cancelPayment: an operator approved a refund or cancellation
+ * - paymentRecovery: the abandoned checkout workflow found the payment or
+ *   expired the order
+ */
+export type PaymentOrderSource =
+  | "createPayment"
+  | "checkPaymentStatus"
+  | "webhook"
+  | "refundPayment"
+  | "cancelPayment"
+  | "paymentRecovery";
+
+/**
+ * Line item of an order, priced from the catalog when the link was created
+ */
+export interface PaymentOrderItem {
+  sku: string;
+  title: string;
+  quantity: number;
+  unitPrice: number;
+  currency: string;
+  billingPeriod?: string;
+}
+
+/**
+ * Entry of an order's status history
+ */
+export interface PaymentOrderEvent {
+  status: PaymentOrder["status"];
+  paymentId?: string;
+  statusDetail?: string;
+  source: PaymentOrderSource;
+  recordedAt: string;
+}
+
+/**
+ * PIX or boleto payment created for an order, paid outside the checkout
+ * `code` is the PIX copy-paste code or the boleto barcode; `documentKey` is
+ * the R2 key of the QR code image or boleto PDF, and `delivered` tells
+ * whether it was sent to the Chatwoot conversation
+ */
+export interface PaymentCharge {
+  method: "pix" | "boleto";
+  paymentId: string;
+  code: string;
+  documentUrl?: string;
+  documentKey?: string;
+  expiresAt?: string;
+  delivered: boolean;
+}
+
+/**
+ * Follow-up of an unpaid order from a Chatwoot conversation (see
+ * workflows/payment-recovery.ts)
+ * - active: the workflow is waiting to remind the customer
+ * - paid: the order was paid
+ * - expired: the link expired unpaid
+ * - stopped: the order was closed otherwise (rejected, cancelled, ...)
+ */
+export interface PaymentRecovery {
+  workflowId: string;
+  status: "active" | "paid" | "expired" | "stopped";
+  remindersSent: number;
+  expiresAt: string;
+}
+
+/**
+ * An order with its line items and status history, oldest first, the PIX or
+ * boleto payment when it was not paid through the checkout, and its recovery
+ * follow-up
+ */
+export interface PaymentOrderDetails extends PaymentOrder {
+  items: PaymentOrderItem[];
+  history: PaymentOrderEvent[];
+  charge?: PaymentCharge;
+  recovery?: PaymentRecovery;
+}
+
+/**
+ * Payment as returned by the payment worker's /payment/status and /payment/search
+ */
+export interface PaymentDetails {
+  id: number;
+  status: MercadoPagoPaymentStatus;
+  status_detail?: string;
+  amount: number;
+  currency: string;
+  description?: string;
+  external_reference?: string;
+  payer_email?: string;
+}
+
+/**
+ * PIX or boleto payment as returned by the payment worker's /payment/pix and
+ * /payment/boleto
+ */
+export interface DirectPaymentDetails extends PaymentDetails {
+  payment_method: "pix" | "boleto";
+  expires_at?: string;
+  qr_code?: string;
+  qr_code_base64?: string;
+  ticket_url?: string;
+  barcode?: string;
+  pdf_url?: string;
+}
+
+/**
+ * Outcome of Chat.checkPaymentStatus
+ * - found: the order and, once the customer has paid, the payment
+ * - not_found: no order in this conversation or no payment with that id
+ * - failed: the payment service errored
+ */
+export type PaymentLookupResult =
+  | { status: "found"; order?: PaymentOrder; payment?: PaymentDetails }
+  | { status: "not_found"; message: string }
+  | { status: "failed"; message: string };
+
+/**
+ * Mercado Pago subscription (preapproval) statuses
+ * "pending" until the customer authorizes the first charge at the checkout link
+ */
+export type MercadoPagoSubscriptionStatus =
+  | "pending"
+  | "authorized"
+  | "paused"
+  | "cancelled";
+
+/**
+ * Recurring subscription started by the agent, kept in the Chat agent's
+ * subscriptions table
+ */
+export interface Subscription {
+  subscriptionId: string;
+  reference: string;
+  planSku: string;
+  amount: number;
+  currency: string;
+  customerEmail: string;
+  conversationId?: number;
+  initPoint?: string;
+  status: MercadoPagoSubscriptionStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Subscription as returned by the payment worker's /subscription routes
+ */
+export interface SubscriptionDetails {
+  id: string;
+  status: MercadoPagoSubscriptionStatus;
+  reason: string;
+  amount: number;
+  currency: string;
+  frequency: number;
+  frequency_type: "days" | "months";
+  external_reference?: string;
+  payer_email?: string;
+  next_payment_date?: string;
+}
+
+/**
+ * Outcome of the Chat subscription methods
+ * - created: the customer can authorize the subscription at initPoint
+ * - found / cancelled: current state of the subscription
+ * - rejected: a payment guardrail failed; nothing was sent to Mercado Pago
+ * - not_found: no subscription in this conversation (or with that id)
+ * - failed: the payment service errored; message is safe to show the customer
+ */
+export type SubscriptionResult =
+  | { status: "created"; subscription: Subscription }
+  | { status: "found"; subscription: Subscription; nextPaymentDate?: string }
+  | { status: "cancelled"; subscription: Subscription }
+  | { status: "rejected"; error: PaymentGuardrailError }
+  | { status: "not_found"; message: string }
+  | { status: "failed"; message: string };
+
+/**
+ * Refund or cancellation proposed by the model, shown to an operator for approval
+ * `amount` is what the operator sees: the refund amount, or the amount of the
+ * payment being cancelled
+ */
+export interface PaymentActionRequest {
+  paymentId: string;
+  amount: number;
+  reason: string;
+}
+
+/**
+ * Outcome of Chat.refundPayment and Chat.cancelPayment
+ * - refunded: `full` is false for partial refunds
+ * - rejected: the payment cannot take this action (status, amount)
+ * - not_found: no payment with that id in this conversation
+ * - failed: the payment service errored
+ */
+export type PaymentActionResult =
+  | { status: "refunded"; paymentId: string; amount: number; full: boolean }
+  | { status: "cancelled"; paymentId: string; amount: number }
+  | { status: "rejected"; message: string }
+  | { status: "not_found"; message: string }
+  | { status: "failed"; message: string };
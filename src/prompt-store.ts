@@ -0,0 +1,354 @@
+/**
+ * Versioned prompt storage
+ * Persona prompts are published to R2 as immutable, numbered versions under
+ * prompts/<persona>/versions/, and prompts/<persona>/active.json points at
+ * the version the agent uses. Rolling back only moves the pointer.
+ */
+import { getPersona, type Persona } from "./prompts";
+import type { R2StorageManager } from "./r2";
+
+/**
+ * R2 prefix reserved for prompt versions (writes go through /admin/prompts)
+ */
+export const PROMPT_PREFIX = "prompts/";
+
+/**
+ * Version label used when nothing has been published for a persona yet
+ */
+export const BUILTIN_PROMPT_VERSION = "builtin";
+
+/**
+ * A published prompt version as stored in R2
+ */
+export interface PromptVersion {
+  version: number;
+  personaId: string;
+  name: string;
+  basePrompt: string;
+  overlays: Persona["overlays"];
+  note?: string;
+  publishedAt: string;
+}
+
+/**
+ * Listing entry for a prompt version (without the prompt text)
+ */
+export interface PromptVersionSummary {
+  version: number;
+  note?: string;
+  publishedAt: string;
+  active: boolean;
+}
+
+/**
+ * The persona the agent should answer with and the version it came from
+ */
+export interface ActivePrompt {
+  version: string;
+  persona: Persona;
+}
+
+interface ActivePointer {
+  version: number;
+  updatedAt: string;
+}
+
+/**
+ * Line diff of one prompt section between two versions
+ */
+export interface PromptSectionDiff {
+  section: string;
+  diff: string;
+}
+
+/**
+ * Label recorded in message metadata, e.g. "v3"
+ */
+export function formatPromptVersion(version: number): string {
+  return `v${version}`;
+}
+
+/**
+ * Stores, activates and compares prompt versions in R2
+ */
+export class PromptStore {
+  constructor(private storage: R2StorageManager) {}
+
+  /**
+   * Publish a new version and make it the active one
+   */
+  async publish(
+    personaId: string,
+    input: {
+      basePrompt: string;
+      overlays?: Persona["overlays"];
+      name?: string;
+      note?: string;
+    }
+  ): Promise<PromptVersion> {
+    const versions = await this.listVersionNumbers(personaId);
+    const latest = versions.length > 0 ? versions[versions.length - 1] : 0;
+
+    const prompt: PromptVersion = {
+      version: latest + 1,
+      personaId,
+      name: input.name ?? getPersona(personaId).name,
+      basePrompt: input.basePrompt,
+      overlays: input.overlays ?? {},
+      note: input.note,
+      publishedAt: new Date().toISOString()
+    };
+
+    await this.storage.upload({
+      key: this.versionKey(personaId, prompt.version),
+      data: JSON.stringify(prompt),
+      contentType: "application/json",
+      metadata: {
+        publishedAt: prompt.publishedAt,
+        ...(prompt.note ? { note: prompt.note } : {})
+      }
+    });
+    await this.setActive(personaId, prompt.version);
+
+    return prompt;
+  }
+
+  /**
+   * Point the persona back at a previously published version
+   */
+  async rollback(personaId: string, version: number): Promise<PromptVersion> {
+    const prompt = await this.get(personaId, version);
+    if (!prompt) {
+      throw new Error(`Prompt version not found: ${personaId} v${version}`);
+    }
+
+    await this.setActive(personaId, version);
+    return prompt;
+  }
+
+  /**
+   * Load a published version
+   */
+  async get(personaId: string, version: number): Promise<PromptVersion | null> {
+    const object = await this.storage.download(
+      this.versionKey(personaId, version)
+    );
+    return object ? await object.json<PromptVersion>() : null;
+  }
+
+  /**
+   * Number of the active version, or null while the built-in prompt is used
+   */
+  async getActiveVersion(personaId: string): Promise<number | null> {
+    const object = await this.storage.download(this.activeKey(personaId));
+    if (!object) {
+      return null;
+    }
+    const pointer = await object.json<ActivePointer>();
+    return pointer.version;
+  }
+
+  /**
+   * Resolve the prompt the agent should use, falling back to the built-in persona
+   */
+  async getActive(personaId: string): Promise<ActivePrompt> {
+    const version = await this.getActiveVersion(personaId);
+    const prompt = version === null ? null : await this.get(personaId, version);
+
+    if (!prompt) {
+      return {
+        version: BUILTIN_PROMPT_VERSION,
+        persona: getPersona(personaId)
+      };
+    }
+
+    return {
+      version: formatPromptVersion(prompt.version),
+      persona: {
+        id: prompt.personaId,
+        name: prompt.name,
+        basePrompt: prompt.basePrompt,
+        overlays: prompt.overlays
+      }
+    };
+  }
+
+  /**
+   * List published versions, oldest first
+   */
+  async list(personaId: string): Promise<PromptVersionSummary[]> {
+    const active = await this.getActiveVersion(personaId);
+    const files = await this.listVersionFiles(personaId);
+
+    return files.map(({ version, customMetadata }) => ({
+      version,
+      note: customMetadata?.note,
+      publishedAt: customMetadata?.publishedAt ?? "",
+      active: version === active
+    }));
+  }
+
+  /**
+   * Compare two versions section by section
+   * Only sections that changed are returned
+   */
+  async diff(
+    personaId: string,
+    from: number,
+    to: number
+  ): Promise<PromptSectionDiff[]> {
+    const [before, after] = await Promise.all([
+      this.get(personaId, from),
+      this.get(personaId, to)
+    ]);
+    if (!before || !after) {
+      throw new Error(
+        `Prompt version not found: ${personaId} v${before ? to : from}`
+      );
+    }
+
+    const sections: Array<[string, string | undefined, string | undefined]> = [
+      ["basePrompt", before.basePrompt, after.basePrompt]
+    ];
+    const channels = new Set([
+      ...Object.keys(before.overlays),
+      ...Object.keys(after.overlays)
+    ]) as Set<keyof Persona["overlays"]>;
+    for (const channel of channels) {
+      sections.push([
+        `overlays.${channel}`,
+        before.overlays[channel],
+        after.overlays[channel]
+      ]);
+    }
+
+    return sections
+      .filter(([, a, b]) => (a ?? "") !== (b ?? ""))
+      .map(([section, a, b]) => ({
+        section,
+        diff: diffLines(a ?? "", b ?? "")
+      }));
+  }
+
+  private async setActive(personaId: string, version: number): Promise<void> {
+    const pointer: ActivePointer = {
+      version,
+      updatedAt: new Date().toISOString()
+    };
+    await this.storage.upload({
+      key: this.activeKey(personaId),
+      data: JSON.stringify(pointer),
+      contentType: "application/json"
+    });
+  }
+
+  private async listVersionNumbers(personaId: string): Promise<number[]> {
+    const files = await this.listVersionFiles(personaId);
+    return files.map(({ version }) => version);
+  }
+
+  private async listVersionFiles(personaId: string) {
+    const prefix = `${PROMPT_PREFIX}${personaId}/versions/`;
+    const files: Array<{
+      version: number;
+      customMetadata?: Record<string, string>;
+    }> = [];
+
+    let cursor: string | undefined;
+    do {
+      const page = await this.storage.list({
+        prefix,
+        cursor,
+        include: ["customMetadata"]
+      });
+      for (const file of page.files) {
+        const version = Number.parseInt(
+          file.key.slice(prefix.length).replace(/\.json$/, ""),
+          10
+        );
+        if (Number.isInteger(version)) {
+          files.push({ version, customMetadata: file.customMetadata });
+        }
+      }
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+
+    return files.sort((a, b) => a.version - b.version);
+  }
+
+  private versionKey(personaId: string, version: number): string {
+    // Zero-padded so R2 lists versions in publish order
+    return `${PROMPT_PREFIX}${personaId}/versions/${String(version).padStart(6, "0")}.json`;
+  }
+
+  private activeKey(personaId: string): string {
+    return `${PROMPT_PREFIX}${personaId}/active.json`;
+  }
+}
+
+/**
+ * Line-based diff in unified style ("-" removed, "+" added, " " context)
+ * Unchanged runs longer than the context are collapsed into "@@" markers
+ */
+export function diffLines(before: string, after: string, context = 2): string {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(` ${a[i]}`);
+      i++;
+      j++;
+    } else if (
+      i < a.length &&
+      (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      lines.push(`-${a[i]}`);
+      i++;
+    } else {
+      lines.push(`+${b[j]}`);
+      j++;
+    }
+  }
+
+  // Keep only the context around changed lines
+  const keep = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (!line.startsWith(" ")) {
+      for (
+        let k = Math.max(0, index - context);
+        k <= Math.min(lines.length - 1, index + context);
+        k++
+      ) {
+        keep[k] = true;
+      }
+    }
+  });
+
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      output.push(line);
+    } else if (index === 0 || keep[index - 1]) {
+      output.push("@@");
+    }
+  });
+
+  return output.join("\n");
+}
@@ -2,6 +2,16 @@
  * Queue Manager for Cloudflare Queues
  * Handles message queuing and processing
  */
+import type { ChatwootWebhookEvent } from "./chatwoot-types";
+import type { PaymentStatusUpdate } from "./payment-types";
+import { getChatwootAgentId, getChatwootClient } from "./chatwoot";
+import { parsePaymentReference } from "./payment-reference";
+
+/**
+ * Delay before a failed message is retried, and before a Chatwoot message
+ * deferred behind it is sent back to the queue
+ */
+export const QUEUE_RETRY_DELAY_SECONDS = 30;
 
 /**
  * Message types that can be sent to the queue
@@ -12,6 +22,8 @@ export enum QueueMessageType {
   NOTIFICATION = "notification",
   TASK = "task",
   ANALYTICS = "analytics",
+  CHATWOOT_INBOUND = "chatwoot_inbound",
+  PAYMENT_STATUS = "payment_status",
   CUSTOM = "custom"
 }
 
@@ -89,6 +101,25 @@ export interface AnalyticsMessage extends QueueMessage {
   };
 }
 
+/**
+ * Chatwoot inbound message payload (a verified webhook awaiting a reply)
+ */
+export interface ChatwootInboundMessage extends QueueMessage {
+  type: QueueMessageType.CHATWOOT_INBOUND;
+  data: {
+    conversationId: number;
+    event: ChatwootWebhookEvent;
+  };
+}
+
+/**
+ * Payment status payload (sent by the payment worker from Mercado Pago webhooks)
+ */
+export interface PaymentStatusMessage extends QueueMessage {
+  type: QueueMessageType.PAYMENT_STATUS;
+  data: PaymentStatusUpdate;
+}
+
 /**
  * Queue Manager class for sending and managing queue messages
  */
@@ -216,6 +247,23 @@ export class QueueManager {
     await this.send(message);
   }
 
+  /**
+   * Send a Chatwoot webhook event to be answered asynchronously
+   */
+  async sendChatwootInbound(
+    event: ChatwootWebhookEvent,
+    metadata?: Record<string, string>
+  ): Promise<void> {
+    const message: ChatwootInboundMessage = {
+      type: QueueMessageType.CHATWOOT_INBOUND,
+      timestamp: new Date().toISOString(),
+      data: { conversationId: event.conversation!.id, event },
+      metadata
+    };
+
+    await this.send(message);
+  }
+
   /**
    * Send a custom message
    */
@@ -364,6 +412,152 @@ export class AnalyticsProcessor implements MessageProcessor {
   }
 }
 
+/**
+ * Chatwoot inbound message processor
+ * Generates the reply in the conversation's Chat agent and posts it to Chatwoot.
+ * Errors are rethrown so the message is retried and ends up in the dead-letter queue.
+ */
+export class ChatwootInboundProcessor implements MessageProcessor {
+  constructor(private env: Env) {}
+
+  async process(message: QueueMessage): Promise<void> {
+    if (message.type !== QueueMessageType.CHATWOOT_INBOUND) {
+      throw new Error(`Invalid message type: ${message.type}`);
+    }
+
+    const inboundMsg = message as ChatwootInboundMessage;
+    const { conversationId, event } = inboundMsg.data;
+
+    console.log(
+      `[Queue] Processing Chatwoot message ${event.id} for conversation ${conversationId}`
+    );
+
+    const agentStub = this.env.Chat.get(
+      this.env.Chat.idFromName(getChatwootAgentId(conversationId))
+    );
+    const result = await agentStub.processChatwootMessage(event);
+
+    // Sent again rather than retried, so waiting does not use up its attempts
+    if (result.status === "deferred") {
+      await new QueueManager(this.env.MY_QUEUE).send(message, {
+        delaySeconds: QUEUE_RETRY_DELAY_SECONDS
+      });
+      console.log(
+        `[Queue] Chatwoot message ${event.id} deferred behind an earlier one`
+      );
+      return;
+    }
+
+    // Buffered messages are answered by the agent itself once the burst settles.
+    // A retry after a failed send finds the reply already generated but undelivered
+    const needsDelivery =
+      result.status === "processed" ||
+      (result.status === "duplicate" && result.delivered === false);
+
+    if (!needsDelivery || !result.response) {
+      console.log(
+        `[Queue] Chatwoot message ${event.id} ${result.status}, nothing to send`
+      );
+      return;
+    }
+
+    if (!getChatwootClient()) {
+      console.log("[Queue] Skipping Chatwoot reply - Chatwoot not configured");
+      return;
+    }
+
+    // Sent by the agent, which knows whether to answer by voice
+    try {
+      await agentStub.sendChatwootReply(conversationId, result.response);
+    } catch (error) {
+      await agentStub.markChatwootReplyUndelivered(event.id);
+      throw error;
+    }
+    await agentStub.markChatwootReplyDelivered(event.id);
+
+    console.log(
+      `[Queue] Chatwoot reply sent to conversation ${conversationId}`
+    );
+  }
+}
+
+/**
+ * Payment status processor
+ * Records the update in the Chat agent that created the payment link and posts
+ * the resulting confirmation into its Chatwoot conversation.
+ * Errors are rethrown so the message is retried and ends up in the dead-letter queue.
+ */
+export class PaymentStatusProcessor implements MessageProcessor {
+  constructor(private env: Env) {}
+
+  async process(message: QueueMessage): Promise<void> {
+    if (message.type !== QueueMessageType.PAYMENT_STATUS) {
+      throw new Error(`Invalid message type: ${message.type}`);
+    }
+
+    const update = (message as PaymentStatusMessage).data;
+
+    console.log(
+      `[Queue] Payment ${update.paymentId} is ${update.status} (${update.externalReference})`
+    );
+
+    // The external reference leads back to the agent that created the link
+    const reference = parsePaymentReference(update.externalReference);
+    let agentId: DurableObjectId | undefined;
+    try {
+      agentId = reference
+        ? this.env.Chat.idFromString(reference.agentId)
+        : undefined;
+    } catch {
+      agentId = undefined;
+    }
+    if (!agentId) {
+      // Not created by the agent; retrying cannot help
+      console.warn(
+        `[Queue] Payment ${update.paymentId} has an unknown external reference, ignoring`
+      );
+      return;
+    }
+
+    const agentStub = this.env.Chat.get(agentId);
+    const result = await agentStub.recordPaymentStatus(update);
+
+    const needsDelivery =
+      result.status === "recorded" ||
+      (result.status === "duplicate" && result.delivered === false);
+
+    if (!needsDelivery || !result.notification || !result.conversationId) {
+      console.log(
+        `[Queue] Payment ${update.paymentId} ${result.status}, nothing to send`
+      );
+      return;
+    }
+
+    const chatwootClient = getChatwootClient((message) =>
+      agentStub.recordChatwootSentMessage(message.id)
+    );
+    if (!chatwootClient) {
+      console.log(
+        "[Queue] Skipping payment notification - Chatwoot not configured"
+      );
+      return;
+    }
+
+    await chatwootClient.sendMessage(
+      result.conversationId,
+      result.notification
+    );
+    await agentStub.markPaymentNotificationDelivered(
+      update.paymentId,
+      update.status
+    );
+
+    console.log(
+      `[Queue] Payment notification sent to conversation ${result.conversationId}`
+    );
+  }
+}
+
 /**
  * Main message processor that routes messages to appropriate handlers
  */
@@ -83,6 +83,7 @@ export class R2StorageManager {
     prefix?: string;
     limit?: number;
     cursor?: string;
+    include?: ("httpMetadata" | "customMetadata")[];
   }): Promise<{
     files: R2FileInfo[];
     truncated: boolean;
@@ -91,7 +92,8 @@ export class R2StorageManager {
     const listed = await this.bucket.list({
       prefix: options?.prefix,
       limit: options?.limit,
-      cursor: options?.cursor
+      cursor: options?.cursor,
+      include: options?.include
     });
 
     const files = listed.objects.map((obj) =>
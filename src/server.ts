@@ -1,10 +1,9 @@
-import { routeAgentRequest, type Schedule } from "agents";
-
-import { getSchedulePrompt } from "agents/schedule";
+import { routeAgentRequest, type AgentContext, type Schedule } from "agents";
 
 import { AIChatAgent } from "agents/ai-chat-agent";
 import {
   generateId,
+  generateObject,
   streamText,
   type StreamTextOnFinishCallback,
   stepCountIs,
@@ -15,23 +14,134 @@ import {
 } from "ai";
 // OpenAI import (commented out - using Workers AI instead)
 // import { openai } from "@ai-sdk/openai";
-import { createWorkersAI } from "workers-ai-provider";
 import { processToolCalls, cleanupMessages } from "./utils";
 import { tools, executions } from "./tools";
-import type { ChatwootWebhookEvent } from "./chatwoot-types";
 import {
-  ChatwootClient,
+  DEFAULT_PERSONA_ID,
+  buildSystemPrompt,
+  createChatModel,
+  getPersona
+} from "./prompts";
+import {
+  BUILTIN_PROMPT_VERSION,
+  PROMPT_PREFIX,
+  PromptStore,
+  type ActivePrompt
+} from "./prompt-store";
+import type {
+  ChatwootAttachment,
+  ChatwootConversationEvent,
+  ChatwootHandoff,
+  ChatwootProcessResult,
+  ChatwootWebhookEvent
+} from "./chatwoot-types";
+import {
+  BOT_RESUME_LABEL,
   chatwootMessageToUIMessage,
+  getChatwootAgentId,
+  getChatwootClient,
+  getChatwootConversationId,
+  getCustomerAttachments,
+  isHumanAgent,
+  parseBotCommand,
   validateWebhookSignature,
-  getChatwootAgentId
+  type ChatwootClient,
+  type ChatwootMessageMedia
 } from "./chatwoot";
+import type {
+  DirectPaymentDetails,
+  PaymentCharge,
+  PaymentDetails,
+  PaymentLookupResult,
+  PaymentOrder,
+  PaymentOrderDetails,
+  PaymentOrderSource,
+  PaymentRecovery,
+  MercadoPagoSubscriptionStatus,
+  PaymentActionRequest,
+  PaymentActionResult,
+  Subscription,
+  SubscriptionDetails,
+  SubscriptionResult,
+  PaymentStatusResult,
+  PaymentStatusUpdate
+} from "./payment-types";
+import { ORDER_PREFIX, OrderIndex, MAX_ORDER_PAGE_SIZE } from "./orders";
+import {
+  PAYMENT_DOCUMENT_PREFIX,
+  storePaymentDocument
+} from "./payment-documents";
+import {
+  createPaymentReference,
+  parsePaymentReference
+} from "./payment-reference";
+import type { PaymentRecoveryParams } from "./workflows/payment-recovery";
+import {
+  CUSTOMER_REPLIED_EVENT,
+  type CustomerSupportParams,
+  type SupportWorkflow
+} from "./workflows/customer-support";
+import {
+  ESCALATION_PREFIX,
+  EscalationRoutingStore,
+  escalationSummarySchema,
+  type EscalationSummary
+} from "./escalation";
+import { fetchPaymentService } from "./payment-service";
 import { R2StorageManager, getContentType } from "./r2";
+import { transcribeAudio } from "./transcription";
+import { getElevenLabsClient } from "./elevenlabs";
+import {
+  sendVoiceReply,
+  type VoiceReplyMode,
+  type VoiceReplyResult
+} from "./voice-replies";
+import {
+  ElevenLabsSynthesizer,
+  SpeechSynthesizerChain,
+  WorkersAiSynthesizer,
+  type SpeechLanguage,
+  type SpeechSynthesizer,
+  type VoiceName,
+  type VoiceSettings
+} from "./speech";
+import {
+  CachedSpeechClient,
+  SPEECH_CACHE_PREFIX,
+  pruneSpeechCache
+} from "./speech-cache";
+import {
+  ATTACHMENT_PREFIX,
+  keepAttachment,
+  readAttachment,
+  type AttachmentContent
+} from "./attachments";
+import {
+  CATALOG_PREFIX,
+  CatalogStore,
+  DEFAULT_CATALOG,
+  formatPrice,
+  type Catalog,
+  type Plan
+} from "./catalog";
 import {
   QueueManager,
   QueueMessageType,
   MessageRouter,
+  ChatwootInboundProcessor,
+  PaymentStatusProcessor,
+  QUEUE_RETRY_DELAY_SECONDS,
   type QueueMessage
 } from "./queue";
+import {
+  checkPaymentRequest,
+  type PaymentAuditOutcome,
+  type PaymentGuardrailResult,
+  type PaymentLinkResult,
+  type PaymentRequest,
+  type ValidatedPayment
+} from "./payment-guardrails";
+import { ZodError } from "zod/v3";
 // import { env } from "cloudflare:workers";
 
 // OpenAI model (commented out - using Workers AI instead)
@@ -42,385 +152,2781 @@ import {
 //   baseURL: env.GATEWAY_BASE_URL,
 // });
 
+/**
+ * How long processed Chatwoot message ids are remembered for deduplication
+ */
+const CHATWOOT_DEDUP_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * How long a failed Chatwoot message holds back the later messages of its
+ * conversation after its last attempt; past that it is taken as given up
+ * (moved to the dead-letter queue) and the others are answered
+ */
+const CHATWOOT_ORDERING_HOLD_MS = 5 * 60 * 1000;
+
+/**
+ * Attempts at answering a buffered burst, and at posting the answer, before
+ * its messages are given up (kept as failed, so they are not answered again)
+ */
+const CHATWOOT_FLUSH_MAX_ATTEMPTS = 3;
+
+/**
+ * How long the agent reuses the prompt and catalog before checking R2 again
+ * Admin changes reach running conversations within this window
+ */
+const R2_CONFIG_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * How long payment links stay payable when PAYMENT_LINK_EXPIRATION_HOURS is not set
+ */
+const DEFAULT_PAYMENT_LINK_EXPIRATION_HOURS = 48;
+
+/**
+ * Minutes after an unpaid link was created at which the customer is reminded
+ * when PAYMENT_RECOVERY_REMINDER_MINUTES is not set
+ */
+const DEFAULT_PAYMENT_RECOVERY_REMINDER_MINUTES = [60, 24 * 60];
+
+/**
+ * Messages of the conversation (most recent) the handoff summary is written from
+ */
+const HANDOFF_TRANSCRIPT_MESSAGES = 30;
+
+/**
+ * Months between subscription charges for each catalog billing period
+ */
+const SUBSCRIPTION_FREQUENCY_MONTHS: Record<Plan["billingPeriod"], number> = {
+  monthly: 1,
+  yearly: 12
+};
+
+/**
+ * Queue message types that only trusted producers may send, with the error
+ * returned when someone tries to enqueue them through /queue
+ */
+const RESERVED_QUEUE_MESSAGE_TYPES: Partial<Record<QueueMessageType, string>> =
+  {
+    [QueueMessageType.CHATWOOT_INBOUND]:
+      "Chatwoot messages must go through /chatwoot/webhook",
+    [QueueMessageType.PAYMENT_STATUS]:
+      "Payment updates can only be sent by the payment worker"
+  };
+
+/**
+ * Customer message for a payment status, if the status warrants one
+ */
+function getPaymentNotification(
+  update: PaymentStatusUpdate
+): string | undefined {
+  const amount = formatPrice(update.amount);
+  const product = update.description
+    ? ` referente a *${update.description}*`
+    : "";
+
+  switch (update.status) {
+    case "approved":
+      return `✅ Pagamento confirmado! Recebemos ${amount}${product}. Em instantes você receberá por email as informações de acesso.`;
+    case "rejected":
+      return `❌ Seu pagamento de ${amount}${product} não foi aprovado. Você pode tentar com outro cartão ou meio de pagamento; se quiser, gero um novo link.`;
+    case "refunded":
+      return `↩️ O reembolso de ${amount}${product} foi processado. O valor volta para o seu meio de pagamento no prazo do banco ou operadora do cartão.`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Row of the payment_orders table
+ */
+interface PaymentOrderRow {
+  reference: string;
+  plan_sku: string;
+  quantity: number;
+  amount: number;
+  currency: string;
+  customer_email: string;
+  conversation_id: number | null;
+  preference_id: string | null;
+  init_point: string | null;
+  status: PaymentOrder["status"];
+  payment_id: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+function toPaymentOrder(row: PaymentOrderRow): PaymentOrder {
+  return {
+    reference: row.reference,
+    planSku: row.plan_sku,
+    quantity: row.quantity,
+    amount: row.amount,
+    currency: row.currency,
+    customerEmail: row.customer_email,
+    conversationId: row.conversation_id ?? undefined,
+    preferenceId: row.preference_id ?? undefined,
+    initPoint: row.init_point ?? undefined,
+    status: row.status,
+    paymentId: row.payment_id ?? undefined,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+/**
+ * Row of the payment_charges table
+ */
+interface PaymentChargeRow {
+  method: PaymentCharge["method"];
+  payment_id: string;
+  code: string;
+  document_url: string | null;
+  document_key: string | null;
+  expires_at: string | null;
+  delivered_at: number | null;
+}
+
+function toPaymentCharge(row: PaymentChargeRow): PaymentCharge {
+  return {
+    method: row.method,
+    paymentId: row.payment_id,
+    code: row.code,
+    documentUrl: row.document_url ?? undefined,
+    documentKey: row.document_key ?? undefined,
+    expiresAt: row.expires_at ?? undefined,
+    delivered: row.delivered_at !== null
+  };
+}
+
+/**
+ * Row of the subscriptions table
+ */
+interface SubscriptionRow {
+  subscription_id: string;
+  reference: string;
+  plan_sku: string;
+  amount: number;
+  currency: string;
+  customer_email: string;
+  conversation_id: number | null;
+  init_point: string | null;
+  status: MercadoPagoSubscriptionStatus;
+  created_at: number;
+  updated_at: number;
+}
+
+function toSubscription(row: SubscriptionRow): Subscription {
+  return {
+    subscriptionId: row.subscription_id,
+    reference: row.reference,
+    planSku: row.plan_sku,
+    amount: row.amount,
+    currency: row.currency,
+    customerEmail: row.customer_email,
+    conversationId: row.conversation_id ?? undefined,
+    initPoint: row.init_point ?? undefined,
+    status: row.status,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+/**
+ * Row of the support_workflows table
+ */
+interface SupportWorkflowRow {
+  instance_id: string;
+  action: SupportWorkflow["action"];
+  status: SupportWorkflow["status"];
+  due_at: number;
+  created_at: number;
+  updated_at: number;
+}
+
+function toSupportWorkflow(row: SupportWorkflowRow): SupportWorkflow {
+  return {
+    instanceId: row.instance_id,
+    action: row.action,
+    status: row.status,
+    dueAt: new Date(row.due_at).toISOString(),
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+/**
+ * Row of the chatwoot_handoff table
+ */
+interface ChatwootHandoffRow {
+  conversation_id: number;
+  status: ChatwootHandoff["status"];
+  reason: NonNullable<ChatwootHandoff["reason"]>;
+  assignee_id: number | null;
+  updated_at: number;
+}
+
+function toChatwootHandoff(row: ChatwootHandoffRow): ChatwootHandoff {
+  return {
+    status: row.status,
+    reason: row.reason,
+    assigneeId: row.assignee_id ?? undefined,
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+/**
+ * Row of the chatwoot_reply_mode table
+ */
+interface ChatwootReplyModeRow {
+  conversation_id: number;
+  mode: VoiceReplyMode;
+  updated_at: number;
+}
+
+/**
+ * Row of the chatwoot_voice_settings table
+ */
+interface ChatwootVoiceSettingsRow {
+  conversation_id: number;
+  voice: VoiceName | null;
+  language: SpeechLanguage | null;
+  updated_at: number;
+}
+
 /**
  * Chat Agent implementation that handles real-time AI chat interactions
  */
 export class Chat extends AIChatAgent<Env> {
+  constructor(ctx: AgentContext, env: Env) {
+    super(ctx, env);
+    this.sql`create table if not exists chatwoot_processed_messages (
+      message_id integer primary key,
+      conversation_id integer not null,
+      status text not null,
+      response text,
+      processed_at integer not null
+    )`;
+    this.sql`create table if not exists chatwoot_sent_messages (
+      message_id integer primary key,
+      sent_at integer not null
+    )`;
+    this.sql`create table if not exists chatwoot_pending_events (
+      message_id integer primary key,
+      conversation_id integer not null,
+      event text not null,
+      received_at integer not null
+    )`;
+    this.sql`create table if not exists payment_audit (
+      id integer primary key autoincrement,
+      attempt_id text not null,
+      outcome text not null,
+      plan_sku text,
+      amount real,
+      quantity integer,
+      currency text,
+      customer_email text,
+      reason text,
+      preference_id text,
+      created_at integer not null
+    )`;
+    this.sql`create table if not exists payment_status_updates (
+      payment_id text not null,
+      status text not null,
+      status_detail text,
+      amount real,
+      currency text,
+      notification text,
+      notified_at integer,
+      received_at integer not null,
+      primary key (payment_id, status)
+    )`;
+    this.sql`create table if not exists payment_orders (
+      reference text primary key,
+      attempt_id text not null,
+      plan_sku text not null,
+      quantity integer not null,
+      amount real not null,
+      currency text not null,
+      customer_email text not null,
+      conversation_id integer,
+      preference_id text,
+      init_point text,
+      status text not null,
+      payment_id text,
+      created_at integer not null,
+      updated_at integer not null
+    )`;
+    this.sql`create table if not exists payment_order_items (
+      reference text not null,
+      sku text not null,
+      title text not null,
+      quantity integer not null,
+      unit_price real not null,
+      currency text not null,
+      billing_period text,
+      primary key (reference, sku)
+    )`;
+    this.sql`create table if not exists payment_order_events (
+      id integer primary key autoincrement,
+      reference text not null,
+      status text not null,
+      payment_id text,
+      status_detail text,
+      source text not null,
+      recorded_at integer not null
+    )`;
+    this.sql`create table if not exists payment_charges (
+      reference text primary key,
+      method text not null,
+      payment_id text not null,
+      code text not null,
+      document_url text,
+      document_key text,
+      expires_at text,
+      delivered_at integer,
+      created_at integer not null
+    )`;
+    this.sql`create table if not exists payment_recoveries (
+      reference text primary key,
+      workflow_id text not null,
+      status text not null,
+      reminders_sent integer not null,
+      expires_at integer not null,
+      updated_at integer not null
+    )`;
+    this.sql`create table if not exists support_workflows (
+      instance_id text primary key,
+      action text not null,
+      status text not null,
+      due_at integer not null,
+      created_at integer not null,
+      updated_at integer not null
+    )`;
+    this.sql`create table if not exists chatwoot_handoff (
+      conversation_id integer primary key,
+      status text not null,
+      reason text not null,
+      assignee_id integer,
+      updated_at integer not null
+    )`;
+    this.sql`create table if not exists chatwoot_reply_mode (
+      conversation_id integer primary key,
+      mode text not null,
+      updated_at integer not null
+    )`;
+    this.sql`create table if not exists chatwoot_voice_settings (
+      conversation_id integer primary key,
+      voice text,
+      language text,
+      updated_at integer not null
+    )`;
+    this.sql`create table if not exists subscriptions (
+      subscription_id text primary key,
+      reference text not null,
+      plan_sku text not null,
+      amount real not null,
+      currency text not null,
+      customer_email text not null,
+      conversation_id integer,
+      init_point text,
+      status text not null,
+      created_at integer not null,
+      updated_at integer not null
+    )`;
+  }
+
   /**
-   * Handles incoming chat messages and manages the response stream
+   * Aborts the in-flight reply to a buffered burst when a newer message arrives
    */
-  async onChatMessage(
-    onFinish: StreamTextOnFinishCallback<ToolSet>,
-    _options?: { abortSignal?: AbortSignal }
-  ) {
-    // const mcpConnection = await this.mcp.connect(
-    //   "https://path-to-mcp-server/sse"
-    // );
-
-    // Initialize Workers AI with the binding from env
-    const workersai = createWorkersAI({ binding: this.env.AI });
-    // Using Llama 3.1 8B Instruct model from Cloudflare Workers AI
-    const model = workersai("@cf/meta/llama-3.1-8b-instruct" as any);
+  chatwootReplyAbort?: AbortController;
 
-    // Collect all tools, including MCP tools
-    const allTools = {
-      ...tools,
-      ...this.mcp.getAITools()
-    };
+  /**
+   * Active prompt loaded from R2 and when it was fetched
+   */
+  private promptCache?: { prompt: ActivePrompt; loadedAt: number };
 
-    const stream = createUIMessageStream({
-      execute: async ({ writer }) => {
-        // Clean up incomplete tool calls to prevent API errors
-        const cleanedMessages = cleanupMessages(this.messages);
+  /**
+   * Resolve the prompt version to answer with, cached for R2_CONFIG_CACHE_TTL_MS
+   * Falls back to the last loaded (or built-in) prompt if R2 is unavailable
+   */
+  async getActivePrompt(): Promise<ActivePrompt> {
+    if (
+      this.promptCache &&
+      Date.now() - this.promptCache.loadedAt < R2_CONFIG_CACHE_TTL_MS
+    ) {
+      return this.promptCache.prompt;
+    }
 
-        // Process any pending tool calls from previous messages
-        // This handles human-in-the-loop confirmations for tools
-        const processedMessages = await processToolCalls({
-          messages: cleanedMessages,
-          dataStream: writer,
-          tools: allTools,
-          executions
-        });
+    try {
+      const store = new PromptStore(new R2StorageManager(this.env.R2_BUCKET));
+      const prompt = await store.getActive(DEFAULT_PERSONA_ID);
+      this.promptCache = { prompt, loadedAt: Date.now() };
+      return prompt;
+    } catch (error) {
+      console.error("[Prompts] Failed to load active prompt:", error);
+      return (
+        this.promptCache?.prompt ?? {
+          version: BUILTIN_PROMPT_VERSION,
+          persona: getPersona(DEFAULT_PERSONA_ID)
+        }
+      );
+    }
+  }
 
-        const result = streamText({
-          system: `<system_prompt>
-YOU ARE "INGRAVE SDR AI" — THE WORLD’S MOST POLITE, KNOWLEDGEABLE, AND PERSUASIVE SALES DEVELOPMENT REPRESENTATIVE (SDR), TRAINED TO REPRESENT **INGRAVE**, AN OFFICIAL META PARTNER SPECIALIZED IN THE IMPLEMENTATION OF THE **OFFICIAL WHATSAPP API** AND MULTICHANNEL COMMUNICATION SOLUTIONS.  
+  /**
+   * Catalog loaded from R2 and when it was fetched
+   */
+  private catalogCache?: { catalog: Catalog; loadedAt: number };
 
-YOUR PURPOSE IS TO ENGAGE PROSPECTS ACROSS MULTIPLE CHANNELS (WHATSAPP, MESSENGER, INSTAGRAM DIRECT, OFFICE 365, GOOGLE WORKSPACE, AND MORE), PROVIDING INFORMATION ABOUT **INGRAVE’S PLANS AND SERVICES**, WHICH CAN BE FOUND ON **https://ingrave.com.br/planos/**.  
+  /**
+   * Current product catalog, cached for R2_CONFIG_CACHE_TTL_MS
+   * Falls back to the last loaded (or default) catalog if R2 is unavailable
+   */
+  async getCatalog(): Promise<Catalog> {
+    if (
+      this.catalogCache &&
+      Date.now() - this.catalogCache.loadedAt < R2_CONFIG_CACHE_TTL_MS
+    ) {
+      return this.catalogCache.catalog;
+    }
 
-YOU MUST ALWAYS MAINTAIN A PROFESSIONAL, FRIENDLY, AND HELPFUL TONE, AIMING TO UNDERSTAND THE CUSTOMER'S NEEDS, OFFER THE MOST SUITABLE PLAN, AND GUIDE THEM TOWARD CONVERSION. IF THE CUSTOMER’S REQUEST REQUIRES HUMAN SUPPORT, YOU SHOULD SUGGEST TRANSFERRING THE CONVERSATION TO A HUMAN AGENT.
+    try {
+      const store = new CatalogStore(new R2StorageManager(this.env.R2_BUCKET));
+      const catalog = await store.get();
+      this.catalogCache = { catalog, loadedAt: Date.now() };
+      return catalog;
+    } catch (error) {
+      console.error("[Catalog] Failed to load catalog:", error);
+      return this.catalogCache?.catalog ?? DEFAULT_CATALOG;
+    }
+  }
 
----
+  /**
+   * Create a Mercado Pago link for a catalog plan
+   * The request must pass the payment guardrails first; every attempt,
+   * rejection and result is appended to payment_audit
+   */
+  async createPaymentLink(request: PaymentRequest): Promise<PaymentLinkResult> {
+    const attemptId = generateId();
+    const check = await this.guardPaymentRequest(attemptId, request);
+    if (!check.ok) {
+      return { status: "rejected", error: check.error };
+    }
 
-### CORE OBJECTIVES ###
+    const { payment } = check;
+    const audited = {
+      planSku: payment.plan.sku,
+      amount: payment.total,
+      quantity: payment.quantity,
+      currency: payment.currency,
+      customerEmail: payment.customerEmail
+    };
+    const fail = (reason: string, message: string): PaymentLinkResult => {
+      this.auditPayment(attemptId, "failed", { ...audited, reason });
+      return { status: "failed", message };
+    };
 
-- PROVIDE ACCURATE INFORMATION about the company’s services, pricing plans, and communication solutions.  
-- QUALIFY LEADS using SDR best practices (understand needs, identify fit, suggest next steps).  
-- MAINTAIN a positive, polite, and solution-oriented tone in every message.  
-- ENCOURAGE prospects to explore **Ingrave’s official plans** or speak with a specialist when appropriate.  
-- WHEN UNCERTAIN, POLITELY OFFER TO TRANSFER the conversation to a human representative.
+    if (!this.env.PAYMENT_SERVICE) {
+      return fail(
+        "payment service not configured",
+        "Payment service is not configured"
+      );
+    }
 
----
+    // Links the payment back to this agent, the conversation and the plan
+    const conversationId =
+      getChatwootConversationId(this.messages) ?? undefined;
+    const reference = createPaymentReference({
+      agentId: this.ctx.id.toString(),
+      conversationId,
+      planSku: payment.plan.sku
+    });
 
-### CHAIN OF THOUGHTS ###
+    const expiresAt = new Date(
+      Date.now() + this.getPaymentLinkExpirationHours() * 60 * 60 * 1000
+    ).toISOString();
 
-FOLLOW THESE STEPS TO DELIVER THE BEST POSSIBLE RESPONSE:
+    if (payment.paymentMethod !== "checkout") {
+      return this.createDirectPayment(attemptId, payment, {
+        reference,
+        conversationId,
+        expiresAt
+      });
+    }
 
-1. **UNDERSTAND:** READ and INTERPRET the user’s message carefully to determine whether it is a question, concern, or inquiry about services or pricing.  
-2. **BASICS:** IDENTIFY which aspect of the company or service the message refers to (plans, integration, setup, API, pricing, etc.).  
-3. **BREAK DOWN:** SEPARATE the user’s needs into key categories — information, qualification, sales opportunity, or support.  
-4. **ANALYZE:** EVALUATE which plan or service from Ingrave best fits the user’s needs.  
-5. **BUILD:** FORMULATE a personalized, polite, and persuasive response that provides useful information and motivates action (e.g., visiting the plans page, scheduling a demo, or connecting with an expert).  
-6. **EDGE CASES:** IF THE QUERY GOES BEYOND YOUR KNOWLEDGE OR IS OUTSIDE YOUR SCOPE, OFFER to connect the user with a **human consultant** for more specialized help.  
-7. **FINAL ANSWER:** PRESENT your final message in a clear, empathetic, and helpful tone, using natural and professional Portuguese.
+    try {
+      const preference = {
+        items: [
+          {
+            id: payment.plan.sku,
+            title: payment.plan.paymentTitle,
+            quantity: payment.quantity,
+            unit_price: payment.unitPrice,
+            currency_id: payment.currency
+          }
+        ],
+        payer: {
+          email: payment.customerEmail,
+          name: payment.customerName
+        },
+        external_reference: reference,
+        auto_return: "approved" as const,
+        expires: true,
+        expiration_date_to: expiresAt
+      };
+
+      const response = await fetchPaymentService(this.env, "/payment/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(preference)
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error("[Payment] Payment service error:", errorText);
+
+        // Try to parse error as JSON for better error handling
+        try {
+          const errorData = JSON.parse(errorText);
+          if (errorData.error) {
+            return fail(
+              errorData.error,
+              `Não foi possível criar o link de pagamento. Motivo: ${errorData.error}`
+            );
+          }
+        } catch {
+          // If not JSON, use the raw error text
+        }
 
----
+        return fail(
+          `payment service returned ${response.status}`,
+          "Não foi possível criar o link de pagamento no momento. Por favor, tente novamente em alguns instantes ou solicite ajuda de um atendente humano."
+        );
+      }
 
-### EXAMPLES ###
+      const result = (await response.json()) as {
+        success: boolean;
+        preference_id: string;
+        init_point: string;
+        sandbox_init_point: string;
+      };
+
+      // Check if we actually got a valid payment link
+      if (!result.init_point) {
+        console.error("[Payment] No payment link in response:", result);
+        return fail(
+          "no payment link in response",
+          "Ocorreu um erro ao gerar o link de pagamento. Por favor, entre em contato com nossa equipe de suporte."
+        );
+      }
 
-**Example 1 — Plan Inquiry**  
-User: “Quais são os planos disponíveis para a API oficial do WhatsApp?”  
-Agent: “A Ingrave é parceira oficial da Meta e oferece planos completos para a API oficial do WhatsApp. 😊 Você pode conferir todos os detalhes e valores em [https://ingrave.com.br/planos/](https://ingrave.com.br/planos/). Se quiser, posso te ajudar a escolher o plano ideal para o seu negócio — posso fazer algumas perguntas rápidas?”
+      this.auditPayment(attemptId, "created", {
+        ...audited,
+        preferenceId: result.preference_id
+      });
+      await this.insertPaymentOrder(attemptId, payment, {
+        reference,
+        conversationId,
+        preferenceId: result.preference_id,
+        initPoint: result.init_point,
+        expiresAt
+      });
+
+      return {
+        status: "created",
+        payment,
+        reference,
+        preferenceId: result.preference_id,
+        initPoint: result.init_point,
+        expiresAt
+      };
+    } catch (error) {
+      console.error("Error creating payment", error);
+      return fail(
+        String(error),
+        `Ocorreu um erro inesperado ao processar o pagamento. Por favor, tente novamente ou solicite ajuda de um atendente humano. Detalhes técnicos: ${error}`
+      );
+    }
+  }
 
----
+  /**
+   * Create a PIX or boleto payment for a validated request
+   * Unlike checkout links, the payment exists right away: the order starts
+   * with its payment id, and the QR code or boleto PDF is stored in R2 and
+   * sent to the Chatwoot conversation
+   */
+  private async createDirectPayment(
+    attemptId: string,
+    payment: ValidatedPayment,
+    order: { reference: string; conversationId?: number; expiresAt: string }
+  ): Promise<PaymentLinkResult> {
+    const { reference, conversationId } = order;
+    const method = payment.paymentMethod === "pix" ? "pix" : "boleto";
+    const label = method === "pix" ? "o PIX" : "o boleto";
+    const audited = {
+      planSku: payment.plan.sku,
+      amount: payment.total,
+      quantity: payment.quantity,
+      currency: payment.currency,
+      customerEmail: payment.customerEmail
+    };
+    const fail = (reason: string): PaymentLinkResult => {
+      this.auditPayment(attemptId, "failed", { ...audited, reason });
+      return {
+        status: "failed",
+        message: `Não foi possível gerar ${label} no momento. Ofereça o link de pagamento (checkout) ou solicite ajuda de um atendente humano.`
+      };
+    };
 
-**Example 2 — Technical Question Beyond Scope**  
-User: “Como faço para integrar a API com o meu CRM interno?”  
-Agent: “Posso te adiantar que a API oficial do WhatsApp da Ingrave é totalmente compatível com CRMs através de integrações seguras. Contudo, como essa é uma dúvida técnica específica, posso te encaminhar para um de nossos especialistas que poderá te ajudar com todos os detalhes. Deseja que eu faça isso agora?”
+    const [firstName, ...lastNames] = (payment.customerName ?? "")
+      .trim()
+      .split(/\s+/);
+    let details: DirectPaymentDetails;
+    try {
+      const response = await fetchPaymentService(
+        this.env,
+        `/payment/${method}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            amount: payment.total,
+            description:
+              payment.quantity > 1
+                ? `${payment.plan.paymentTitle} (x${payment.quantity})`
+                : payment.plan.paymentTitle,
+            external_reference: reference,
+            expires_at: order.expiresAt,
+            payer: {
+              email: payment.customerEmail,
+              first_name: firstName || undefined,
+              last_name: lastNames.join(" ") || undefined,
+              identification: payment.customerDocument
+                ? {
+                    type:
+                      payment.customerDocument.length === 11 ? "CPF" : "CNPJ",
+                    number: payment.customerDocument
+                  }
+                : undefined
+            }
+          })
+        }
+      );
+      if (!response.ok) {
+        throw new Error(
+          `payment service returned ${response.status}: ${await response.text()}`
+        );
+      }
+      details = (await response.json()) as DirectPaymentDetails;
+    } catch (error) {
+      console.error(`[Payment] Failed to create ${method} payment:`, error);
+      return fail(String(error));
+    }
 
----
+    const code = method === "pix" ? details.qr_code : details.barcode;
+    if (!code) {
+      console.error("[Payment] No payment code in response:", details);
+      return fail(`no ${method} code in response`);
+    }
 
-### WHAT NOT TO DO ###
+    const paymentId = String(details.id);
+    const documentUrl = method === "pix" ? details.ticket_url : details.pdf_url;
+    const expiresAt = details.expires_at ?? order.expiresAt;
+    this.auditPayment(attemptId, "created", {
+      ...audited,
+      preferenceId: paymentId
+    });
+    this.sql`insert into payment_charges
+      (reference, method, payment_id, code, document_url, expires_at, created_at)
+      values (${reference}, ${method}, ${paymentId}, ${code}, ${documentUrl ?? null}, ${expiresAt}, ${Date.now()})`;
+    await this.insertPaymentOrder(attemptId, payment, {
+      reference,
+      conversationId,
+      initPoint: documentUrl,
+      paymentId,
+      expiresAt
+    });
+    await this.deliverPaymentDocument(reference, details, conversationId);
+
+    return {
+      status: "created",
+      payment,
+      reference,
+      initPoint: documentUrl,
+      expiresAt,
+      charge: this.getPaymentCharge(reference) ?? undefined
+    };
+  }
 
-- ❌ **NUNCA** FORNECER INFORMAÇÕES INCORRETAS SOBRE PLANOS, PREÇOS OU FUNCIONALIDADES  
-- ❌ **NUNCA** ADOTAR UM TOM IMPACIENTE, IMPOLIDO OU VAGO  
-- ❌ **NUNCA** INVENTAR DETALHES TÉCNICOS OU COMERCIAIS  
-- ❌ **NUNCA** DEIXAR DE SUGERIR O CONTATO COM UM ATENDENTE HUMANO QUANDO NÃO SOUBER RESPONDER  
-- ❌ **NUNCA** RESPONDER COM FRASES CURTAS, SECAS OU SEM CONTEXTO COMERCIAL  
-- ❌ **NUNCA** OMITIR O LINK OFICIAL DOS PLANOS OU O PAPEL DA INGRAVE COMO PARCEIRA META  
+  /**
+   * Record a new order with its line item and first history entry, and start
+   * following it up if it is not paid
+   */
+  private async insertPaymentOrder(
+    attemptId: string,
+    payment: ValidatedPayment,
+    order: {
+      reference: string;
+      conversationId?: number;
+      preferenceId?: string;
+      initPoint?: string;
+      paymentId?: string;
+      expiresAt: string;
+    }
+  ): Promise<void> {
+    const { reference } = order;
+    const now = Date.now();
+    this.sql`insert into payment_orders
+      (reference, attempt_id, plan_sku, quantity, amount, currency, customer_email, conversation_id, preference_id, init_point, status, payment_id, created_at, updated_at)
+      values (${reference}, ${attemptId}, ${payment.plan.sku}, ${payment.quantity}, ${payment.total}, ${payment.currency}, ${payment.customerEmail}, ${order.conversationId ?? null}, ${order.preferenceId ?? null}, ${order.initPoint ?? null}, ${"pending"}, ${order.paymentId ?? null}, ${now}, ${now})`;
+    this.sql`insert into payment_order_items
+      (reference, sku, title, quantity, unit_price, currency, billing_period)
+      values (${reference}, ${payment.plan.sku}, ${payment.plan.paymentTitle}, ${payment.quantity}, ${payment.unitPrice}, ${payment.currency}, ${payment.plan.billingPeriod})`;
+    this.sql`insert into payment_order_events
+      (reference, status, payment_id, source, recorded_at)
+      values (${reference}, ${"pending"}, ${order.paymentId ?? null}, ${"createPayment"}, ${now})`;
+    await this.indexPaymentOrder(reference);
+
+    if (order.conversationId) {
+      await this.startPaymentRecovery(
+        reference,
+        order.conversationId,
+        order.expiresAt
+      );
+    }
+  }
 
----
+  /**
+   * Start the abandoned checkout workflow for a new order
+   * Reminders are posted to Chatwoot, so web chat orders are not followed up.
+   * The order stands without it, so a failure to start is only logged
+   */
+  private async startPaymentRecovery(
+    reference: string,
+    conversationId: number,
+    expiresAt: string
+  ): Promise<void> {
+    if (!this.env.PAYMENT_RECOVERY_WORKFLOW) {
+      return;
+    }
 
-### OPTIMIZATION STRATEGY ###
+    const expiresInMinutes = (Date.parse(expiresAt) - Date.now()) / 60000;
+    const params: PaymentRecoveryParams = {
+      agentId: this.ctx.id.toString(),
+      reference,
+      conversationId,
+      reminderMinutes: this.getPaymentRecoveryReminderMinutes().filter(
+        (minutes) => minutes < expiresInMinutes
+      ),
+      expiresAt,
+      escalate: process.env.PAYMENT_RECOVERY_ESCALATE?.toLowerCase() !== "false"
+    };
 
-- FOR SHORT QUERIES → RESPOND WITH CONCISE, POLITE, AND ACTION-ORIENTED MESSAGES.  
-- FOR DETAILED QUESTIONS → OFFER ADDITIONAL EXPLANATION AND SUGGEST THE MOST RELEVANT PLAN.  
-- FOR COMPLEX OR OUT-OF-SCOPE REQUESTS → ESCALATE POLITELY TO A HUMAN AGENT.  
-- ALWAYS MAINTAIN BRAND CONSISTENCY → PROFESSIONAL, EMPATHETIC, AND EXPERT TONE.
+    try {
+      const instance = await this.env.PAYMENT_RECOVERY_WORKFLOW.create({
+        params
+      });
+      const now = Date.now();
+      this.sql`insert into payment_recoveries
+        (reference, workflow_id, status, reminders_sent, expires_at, updated_at)
+        values (${reference}, ${instance.id}, ${"active"}, ${0}, ${Date.parse(expiresAt)}, ${now})`;
+    } catch (error) {
+      console.error(
+        "[Payment] Failed to start payment recovery:",
+        reference,
+        error
+      );
+    }
+  }
 
-</system_prompt>',
-        system_prompt
-      },
-      {
-        <system_prompt>YOUR RESPONSE MUST ALWAYS BE IN PORTUGUESE FROM BRAZIL.</system_prompt>  
-      } `, 
-          messages: convertToModelMessages(processedMessages),
-          model,
-          tools: allTools,
-          // Type boundary: streamText expects specific tool types, but base class uses ToolSet
-          // This is safe because our tools satisfy ToolSet interface (verified by 'satisfies' in tools.ts)
-          onFinish: onFinish as unknown as StreamTextOnFinishCallback<
-            typeof allTools
-          >,
-          stopWhen: stepCountIs(10)
-        });
+  /**
+   * Remind the customer of an order that is still unpaid
+   * Called by the payment recovery workflow; a retried step does not send
+   * the same reminder twice. Returns whether a reminder was sent
+   */
+  async sendPaymentReminder(
+    reference: string,
+    attempt: number
+  ): Promise<boolean> {
+    const order = await this.getPaymentOrder(reference);
+    const recovery = this.getPaymentRecovery(reference);
+    if (
+      !order?.conversationId ||
+      order.status !== "pending" ||
+      !recovery ||
+      recovery.status !== "active" ||
+      recovery.remindersSent >= attempt
+    ) {
+      return false;
+    }
 
-        writer.merge(result.toUIMessageStream());
-      }
+    const [item] = this.sql<{
+      title: string;
+    }>`select title from payment_order_items where reference = ${reference}`;
+    const deadline = new Date(recovery.expiresAt).toLocaleString("pt-BR", {
+      timeZone: "America/Sao_Paulo",
+      dateStyle: "short",
+      timeStyle: "short"
     });
+    const link = order.initPoint
+      ? ` Ele continua disponível até ${deadline}: ${order.initPoint}`
+      : ` Ele continua disponível até ${deadline}.`;
+    const reminder = `Olá! Vi que o pagamento${item ? ` do *${item.title}*` : ""} (${formatPrice(order.amount)}) ainda não foi concluído.${link}\n\nSe ficou alguma dúvida ou prefere outra forma de pagamento, é só me falar! 😊`;
+
+    const chatwootClient = this.getTrackedChatwootClient();
+    if (chatwootClient) {
+      await chatwootClient.sendMessage(order.conversationId, reminder);
+    } else {
+      console.log(
+        "[Payment] Skipping payment reminder - Chatwoot not configured"
+      );
+    }
 
-    return createUIMessageStreamResponse({ stream });
-  }
-  async executeTask(description: string, _task: Schedule<string>) {
-    await this.saveMessages([
+    this.sql`update payment_recoveries
+      set reminders_sent = ${attempt}, updated_at = ${Date.now()}
+      where reference = ${reference}`;
+    await this.persistMessages([
       ...this.messages,
       {
         id: generateId(),
-        role: "user",
-        parts: [
-          {
-            type: "text",
-            text: `Running scheduled task: ${description}`
-          }
-        ],
+        role: "assistant",
+        parts: [{ type: "text", text: reminder }],
         metadata: {
-          createdAt: new Date()
+          createdAt: new Date(),
+          paymentReference: reference,
+          paymentReminder: attempt
         }
       }
     ]);
+    return true;
   }
 
   /**
-   * Process incoming message from Chatwoot and generate AI response
+   * Mark an order whose link expired unpaid
+   * Called by the payment recovery workflow at the expiration date
+   */
+  async expirePaymentOrder(reference: string): Promise<PaymentOrder | null> {
+    const order = await this.getPaymentOrder(reference);
+    if (order?.status !== "pending") {
+      return order;
+    }
+    return this.recordOrderStatus(
+      reference,
+      { status: "expired" },
+      "paymentRecovery"
+    );
+  }
+
+  /**
+   * Recovery follow-up of an order, if one was started
+   */
+  private getPaymentRecovery(reference: string): PaymentRecovery | null {
+    const [row] = this.sql<{
+      workflow_id: string;
+      status: PaymentRecovery["status"];
+      reminders_sent: number;
+      expires_at: number;
+    }>`select * from payment_recoveries where reference = ${reference}`;
+    return row
+      ? {
+          workflowId: row.workflow_id,
+          status: row.status,
+          remindersSent: row.reminders_sent,
+          expiresAt: new Date(row.expires_at).toISOString()
+        }
+      : null;
+  }
+
+  /**
+   * Close the recovery follow-up of an order that is no longer pending
+   * Changes found by the workflow itself end it on their own; anything else
+   * (the webhook reporting the payment, a cancellation) terminates it
    */
-  async processChatwootMessage(event: ChatwootWebhookEvent) {
-    const uiMessage = chatwootMessageToUIMessage(event);
-    if (!uiMessage) {
+  private async closePaymentRecovery(
+    reference: string,
+    status: PaymentOrder["status"],
+    source: PaymentOrderSource
+  ): Promise<void> {
+    const recovery = this.getPaymentRecovery(reference);
+    if (!recovery || recovery.status !== "active") {
       return;
     }
 
-    // Add the user message to conversation history
-    await this.saveMessages([...this.messages, uiMessage]);
+    let closed: PaymentRecovery["status"] = "stopped";
+    if (status === "approved") {
+      closed = "paid";
+    } else if (status === "expired") {
+      closed = "expired";
+    }
+    this.sql`update payment_recoveries
+      set status = ${closed}, updated_at = ${Date.now()}
+      where reference = ${reference}`;
 
-    // Initialize Workers AI with the binding from env
-    const workersai = createWorkersAI({ binding: this.env.AI });
-    // Using Llama 3.1 8B Instruct model from Cloudflare Workers AI
-    const model = workersai("@cf/meta/llama-3.1-8b-instruct" as any);
+    if (source === "paymentRecovery" || !this.env.PAYMENT_RECOVERY_WORKFLOW) {
+      return;
+    }
+    try {
+      const instance = await this.env.PAYMENT_RECOVERY_WORKFLOW.get(
+        recovery.workflowId
+      );
+      await instance.terminate();
+    } catch (error) {
+      // Already finished; its next check would have stopped it anyway
+      console.warn(
+        "[Payment] Could not terminate payment recovery:",
+        recovery.workflowId,
+        error
+      );
+    }
+  }
 
-    // Collect all tools
-    const allTools = {
-      ...tools,
-      ...this.mcp.getAITools()
-    };
+  /**
+   * Store the PIX QR code or boleto PDF of an order in R2 and send it to the
+   * Chatwoot conversation
+   * The customer already has the code in the agent's reply, so failures are
+   * only logged and the charge stays undelivered
+   */
+  private async deliverPaymentDocument(
+    reference: string,
+    details: DirectPaymentDetails,
+    conversationId?: number
+  ): Promise<void> {
+    try {
+      const document = await storePaymentDocument(
+        new R2StorageManager(this.env.R2_BUCKET),
+        reference,
+        details
+      );
+      if (!document) {
+        return;
+      }
+      this.sql`update payment_charges set document_key = ${document.key}
+        where reference = ${reference}`;
 
-    // Clean up incomplete tool calls
-    const cleanedMessages = cleanupMessages(this.messages);
+      const chatwootClient = this.getTrackedChatwootClient();
+      if (!conversationId || !chatwootClient) {
+        return;
+      }
+      await chatwootClient.sendAttachment(
+        conversationId,
+        document.data,
+        document.filename,
+        document.contentType,
+        details.payment_method === "pix"
+          ? "QR Code PIX para pagamento"
+          : "Boleto para pagamento"
+      );
+      this.sql`update payment_charges set delivered_at = ${Date.now()}
+        where reference = ${reference}`;
+    } catch (error) {
+      console.error(
+        "[Payment] Failed to deliver payment document:",
+        reference,
+        error
+      );
+    }
+  }
 
-    // Process pending tool calls
-    const processedMessages = await processToolCalls({
-      messages: cleanedMessages,
-      dataStream: null,
-      tools: allTools,
-      executions
-    });
+  /**
+   * PIX or boleto payment of an order, if it was not paid through the checkout
+   */
+  private getPaymentCharge(reference: string): PaymentCharge | null {
+    const [row] = this.sql<PaymentChargeRow>`select * from payment_charges
+      where reference = ${reference}`;
+    return row ? toPaymentCharge(row) : null;
+  }
 
-    // Generate AI response
-    const result = await streamText({
-      system: `# Especialista em Vendas - Ingrave Tecnologia
-
-Você é um assistente de vendas avançado especializado em consultoria de assinaturas para a Ingrave Tecnologia.
-
-${getSchedulePrompt({ date: new Date() })}
-
-## Contexto e Identidade
-
-**Empresa**: Ingrave Tecnologia
-**Website**: https://ingrave.com.br/planos
-**Seu Papel**: Consultora de vendas dedicada e experiente
-**Objetivo**: Ajudar clientes a escolherem o plano ideal para suas necessidades
-
-### Características do Atendimento
-- **Cordialidade**: Linguagem calorosa e acolhedora
-- **Empatia**: Genuíno interesse nas necessidades do cliente
-- **Abordagem Consultiva**: Focar em ajudar, não em forçar vendas
-- **Comunicação Clara**: Explicações simples e diretas, evitando jargões técnicos
-- **Atitude Positiva**: Sempre motivadora e encorajadora
-
-## Catálogo de Produtos
-
-### 1. Plano Básico - R$ 97,00/mês
-**Público-alvo**: Iniciantes e pequenos negócios
-**Recursos**:
-- Funcionalidades essenciais para começar
-- Suporte por email
-- Até 1.000 contatos
-- 1 usuário
-
-### 2. Plano Profissional - R$ 197,00/mês (MAIS POPULAR)
-**Público-alvo**: Empresas em crescimento
-**Recursos**: Todos do Básico, mais:
-- Suporte prioritário via chat
-- Até 10.000 contatos
-- 5 usuários
-- Integrações avançadas
-- Relatórios personalizados
-
-### 3. Plano Empresarial - R$ 497,00/mês
-**Público-alvo**: Grandes empresas
-**Recursos**: Todos do Profissional, mais:
-- Suporte VIP 24/7
-- Contatos ilimitados
-- Usuários ilimitados
-- API completa
-- Gerente de conta dedicado
-- Treinamento personalizado
-- SLA garantido
-
-## Processo de Atendimento
-
-### Etapa 1: Saudação e Descoberta
-1. Cumprimente o cliente de forma amigável
-2. Faça perguntas qualificadoras:
-   - Tamanho do negócio e setor de atuação
-   - Número de usuários que precisam acesso
-   - Funcionalidades prioritárias
-   - Volume de contatos/operações
-   - Orçamento disponível
-
-### Etapa 2: Análise e Recomendação
-1. Analise as respostas do cliente
-2. Identifique o plano mais adequado
-3. Apresente sua recomendação com justificativa clara
-4. Destaque benefícios específicos para o caso do cliente
-5. Compare com outras opções se relevante
-
-### Etapa 3: Esclarecimento de Dúvidas
-1. Responda perguntas com transparência
-2. Forneça exemplos práticos quando apropriado
-3. Seja honesta sobre limitações
-4. Ofereça alternativas quando necessário
-
-### Etapa 4: Fechamento (quando o cliente decidir)
-1. Confirme o plano escolhido
-2. Colete o email do cliente (obrigatório para pagamento)
-3. Use a ferramenta \`createPayment\` com os parâmetros corretos:
-   - Básico: \`title="Plano Básico Ingrave - Mensal"\`, \`amount=97.00\`
-   - Profissional: \`title="Plano Profissional Ingrave - Mensal"\`, \`amount=197.00\`
-   - Empresarial: \`title="Plano Empresarial Ingrave - Mensal"\`, \`amount=497.00\`
-4. Envie o link de pagamento de forma clara
-5. Ofereça-se para esclarecer dúvidas
-
-### Etapa 5: Pós-Venda
-1. Agradeça pela confiança
-2. Explique próximos passos:
-   - Receberá email de confirmação
-   - Acesso será liberado automaticamente
-   - Instruções de configuração inicial
-3. Ofereça suporte para dúvidas iniciais
-4. Considere usar \`scheduleFollowUp\` para acompanhamento
-
-## Diretrizes de Comunicação
-
-### ✅ FAÇA:
-- "Fico muito feliz em ajudá-lo! Para recomendar o melhor plano, poderia me contar sobre seu negócio?"
-- "Baseado no que você compartilhou, acredito que o Plano Profissional seria ideal porque..."
-- "Entendo sua situação. O Plano Básico é uma ótima forma de começar, com possibilidade de upgrade futuro!"
-
-### ❌ EVITE:
-- Pressão de vendas: "Compre agora", "Oferta por tempo limitado"
-- Generalizações: "Esse é o melhor plano" (sem contexto)
-- Linguagem técnica excessiva ou fria
-- Fazer promessas sobre recursos não disponíveis
-
-## Tratamento de Erros de Pagamento
-
-**IMPORTANTE:** Se a ferramenta \`createPayment\` falhar, siga EXATAMENTE este protocolo:
-
-1. **COLETE O EMAIL DO CLIENTE PRIMEIRO**
-   - "Para finalizar seu pedido, preciso do seu melhor email de contato."
-   - Se o cliente já forneceu o email durante a conversa, use esse email
-
-2. **USE A FERRAMENTA \`escalateToHuman\`**
-   - Passe o email do cliente no parâmetro \`customerEmail\`
-   - Passe a razão detalhada: "Erro ao gerar link de pagamento para [Plano X] - Valor: R$ [valor]"
-   - A ferramenta vai registrar a solicitação e retornar mensagem formatada
-
-3. **RESPONDA AO CLIENTE COM A MENSAGEM DA FERRAMENTA**
-   - Use a resposta retornada pela ferramenta \`escalateToHuman\`
-   - Adicione uma mensagem empática e de apoio
-
-4. **NÃO DIGA:**
-   - ❌ "O sistema de pagamento não está configurado"
-   - ❌ "Não posso ajudar com isso"
-   - ❌ Detalhes técnicos do erro
-
-**Exemplo de fluxo correto:**
-
-Cliente escolhe Plano Profissional (R$ 197) → createPayment falha → Você:
-
-1. "Para finalizar, preciso do seu email para enviar os detalhes do pagamento."
-2. Cliente fornece: cliente@email.com
-3. Usa: escalateToHuman(reason="Erro ao gerar link de pagamento para Plano Profissional - Valor: R$ 197", customerEmail="cliente@email.com")
-4. Responde: [mensagem retornada pela ferramenta] + "Enquanto isso, se tiver alguma dúvida sobre o plano escolhido, fico à disposição!"
-
-## Escalação para Humanos
-
-Use a ferramenta \`escalateToHuman\` quando o cliente:
-- Solicitar condições especiais de pagamento
-- Precisar de recursos customizados não listados
-- Tiver dúvidas técnicas complexas sobre infraestrutura
-- Explicitamente pedir para falar com gerente/supervisor
-- **Quando houver erro na criação do link de pagamento**
-
-## Ferramentas Disponíveis
-
-- \`createPayment\`: Gera link de pagamento Mercado Pago (se falhar, escale para humano)
-- \`escalateToHuman\`: Transfere para equipe humana
-- \`scheduleFollowUp\`: Agenda acompanhamento futuro
-- Ferramentas de agendamento: Para marcar demos ou reuniões
-
-## Princípios Fundamentais
-
-1. **Consultoria sobre Vendas**: Priorize o melhor interesse do cliente
-2. **Transparência Total**: Seja honesta sobre capacidades e limitações
-3. **Relacionamento de Longo Prazo**: Cada venda é o início de uma parceria
-4. **Empatia Sempre**: Coloque-se no lugar do cliente
-5. **Profissionalismo**: Mantenha sempre alta qualidade no atendimento
-
----
-
-Lembre-se: Seu sucesso é medido pela satisfação do cliente e pela adequação do plano às necessidades dele, não apenas pelo valor da venda.`,
-      messages: convertToModelMessages(processedMessages),
-      model,
-      tools: allTools,
-      stopWhen: stepCountIs(10)
+  /**
+   * Audit a payment attempt and run the payment guardrails on it
+   * Shared by one-off payment links and subscriptions
+   */
+  private async guardPaymentRequest(
+    attemptId: string,
+    request: PaymentRequest
+  ): Promise<PaymentGuardrailResult> {
+    this.auditPayment(attemptId, "attempted", {
+      planSku: request.planSku,
+      amount: request.quotedAmount,
+      quantity: request.quantity,
+      currency: request.currency,
+      customerEmail: request.customerEmail
     });
 
-    // Collect the full response text
-    let fullResponse = "";
-    for await (const chunk of result.textStream) {
-      fullResponse += chunk;
+    const check = checkPaymentRequest(await this.getCatalog(), request);
+    if (!check.ok) {
+      console.warn("[Payment] Rejected by guardrails:", check.error);
+      this.auditPayment(attemptId, "rejected", {
+        planSku: request.planSku,
+        amount: request.quotedAmount,
+        quantity: request.quantity,
+        currency: request.currency,
+        customerEmail: request.customerEmail,
+        reason: `${check.error.code}: ${check.error.message}`
+      });
     }
+    return check;
+  }
+
+  /**
+   * Start a recurring Mercado Pago subscription (preapproval) for a plan
+   * Goes through the same guardrails and audit log as createPaymentLink; the
+   * customer authorizes the first charge at the returned link
+   */
+  async createSubscription(
+    request: PaymentRequest
+  ): Promise<SubscriptionResult> {
+    const attemptId = generateId();
+    const check = await this.guardPaymentRequest(attemptId, request);
+    if (!check.ok) {
+      return { status: "rejected", error: check.error };
+    }
+
+    const { payment } = check;
+    const audited = {
+      planSku: payment.plan.sku,
+      amount: payment.total,
+      quantity: payment.quantity,
+      currency: payment.currency,
+      customerEmail: payment.customerEmail
+    };
+    const fail = (reason: string): SubscriptionResult => {
+      this.auditPayment(attemptId, "failed", { ...audited, reason });
+      return {
+        status: "failed",
+        message:
+          "Não foi possível criar a assinatura no momento. Por favor, tente novamente em alguns instantes ou solicite ajuda de um atendente humano."
+      };
+    };
+
+    if (!this.env.PAYMENT_SERVICE) {
+      return fail("payment service not configured");
+    }
+
+    const conversationId =
+      getChatwootConversationId(this.messages) ?? undefined;
+    const reference = createPaymentReference({
+      agentId: this.ctx.id.toString(),
+      conversationId,
+      planSku: payment.plan.sku
+    });
+
+    try {
+      const response = await fetchPaymentService(
+        this.env,
+        "/subscription/create",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            reason: payment.plan.paymentTitle,
+            external_reference: reference,
+            payer_email: payment.customerEmail,
+            auto_recurring: {
+              frequency:
+                SUBSCRIPTION_FREQUENCY_MONTHS[payment.plan.billingPeriod],
+              frequency_type: "months",
+              transaction_amount: payment.total,
+              currency_id: payment.currency
+            }
+          })
+        }
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error("[Subscription] Payment service error:", errorText);
+        return fail(`payment service returned ${response.status}`);
+      }
+
+      const result = (await response.json()) as {
+        subscription_id: string;
+        init_point?: string;
+        status: MercadoPagoSubscriptionStatus;
+      };
+      if (!result.init_point) {
+        console.error("[Subscription] No checkout link in response:", result);
+        return fail("no checkout link in response");
+      }
+
+      this.auditPayment(attemptId, "created", {
+        ...audited,
+        preferenceId: result.subscription_id
+      });
+      const now = Date.now();
+      this.sql`insert into subscriptions
+        (subscription_id, reference, plan_sku, amount, currency, customer_email, conversation_id, init_point, status, created_at, updated_at)
+        values (${result.subscription_id}, ${reference}, ${payment.plan.sku}, ${payment.total}, ${payment.currency}, ${payment.customerEmail}, ${conversationId ?? null}, ${result.init_point}, ${result.status}, ${now}, ${now})`;
+
+      return {
+        status: "created",
+        subscription: this.getSubscription(result.subscription_id)!
+      };
+    } catch (error) {
+      console.error("[Subscription] Error creating subscription", error);
+      return fail(String(error));
+    }
+  }
+
+  /**
+   * Current state of a subscription started in this conversation
+   * Defaults to the most recent one; the stored status is brought up to date
+   */
+  async getSubscriptionStatus(
+    subscriptionId?: string
+  ): Promise<SubscriptionResult> {
+    const subscription = this.findSubscription(subscriptionId);
+    if (!subscription) {
+      return {
+        status: "not_found",
+        message: "No subscription was started in this conversation"
+      };
+    }
+    if (!this.env.PAYMENT_SERVICE) {
+      return { status: "failed", message: "Payment service is not configured" };
+    }
+
+    try {
+      const response = await fetchPaymentService(
+        this.env,
+        `/subscription/status?id=${encodeURIComponent(subscription.subscriptionId)}`
+      );
+      if (!response.ok) {
+        console.error(
+          "[Subscription] Payment service error:",
+          response.status,
+          await response.text()
+        );
+        return {
+          status: "failed",
+          message: "Error checking subscription status"
+        };
+      }
+
+      const details = (await response.json()) as SubscriptionDetails;
+      return {
+        status: "found",
+        subscription: this.updateSubscriptionStatus(
+          subscription.subscriptionId,
+          details.status
+        ),
+        nextPaymentDate: details.next_payment_date
+      };
+    } catch (error) {
+      console.error("[Subscription] Error checking subscription", error);
+      return {
+        status: "failed",
+        message: `Error checking subscription status: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Cancel a subscription started in this conversation
+   * Defaults to the most recent one; cancelling twice is a no-op
+   */
+  async cancelSubscription(
+    subscriptionId?: string
+  ): Promise<SubscriptionResult> {
+    const subscription = this.findSubscription(subscriptionId);
+    if (!subscription) {
+      return {
+        status: "not_found",
+        message: "No subscription was started in this conversation"
+      };
+    }
+    if (subscription.status === "cancelled") {
+      return { status: "cancelled", subscription };
+    }
+    if (!this.env.PAYMENT_SERVICE) {
+      return { status: "failed", message: "Payment service is not configured" };
+    }
+
+    try {
+      const response = await fetchPaymentService(
+        this.env,
+        "/subscription/cancel",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id: subscription.subscriptionId })
+        }
+      );
+      if (!response.ok) {
+        console.error(
+          "[Subscription] Payment service error:",
+          response.status,
+          await response.text()
+        );
+        return {
+          status: "failed",
+          message:
+            "Não foi possível cancelar a assinatura no momento. Por favor, tente novamente ou solicite ajuda de um atendente humano."
+        };
+      }
+
+      console.log(
+        `[Subscription] Cancelled ${subscription.subscriptionId} (${subscription.reference})`
+      );
+      return {
+        status: "cancelled",
+        subscription: this.updateSubscriptionStatus(
+          subscription.subscriptionId,
+          "cancelled"
+        )
+      };
+    } catch (error) {
+      console.error("[Subscription] Error cancelling subscription", error);
+      return {
+        status: "failed",
+        message: `Error cancelling subscription: ${error}`
+      };
+    }
+  }
+
+  /**
+   * A subscription of this conversation by id, or the most recent one
+   */
+  private findSubscription(subscriptionId?: string): Subscription | null {
+    if (subscriptionId) {
+      return this.getSubscription(subscriptionId);
+    }
+    const [row] = this.sql<SubscriptionRow>`select * from subscriptions
+      order by created_at desc, rowid desc limit 1`;
+    return row ? toSubscription(row) : null;
+  }
+
+  private getSubscription(subscriptionId: string): Subscription | null {
+    const [row] = this.sql<SubscriptionRow>`select * from subscriptions
+      where subscription_id = ${subscriptionId}`;
+    return row ? toSubscription(row) : null;
+  }
+
+  private updateSubscriptionStatus(
+    subscriptionId: string,
+    status: MercadoPagoSubscriptionStatus
+  ): Subscription {
+    this.sql`update subscriptions
+      set status = ${status}, updated_at = ${Date.now()}
+      where subscription_id = ${subscriptionId}`;
+    return this.getSubscription(subscriptionId)!;
+  }
+
+  /**
+   * Record a Mercado Pago status change for a payment created by this agent
+   * Approved, rejected and refunded payments also get a message for the
+   * customer, saved to the conversation history and returned for delivery.
+   * Payments whose reference matches no order of this agent are ignored
+   */
+  async recordPaymentStatus(
+    update: PaymentStatusUpdate
+  ): Promise<PaymentStatusResult> {
+    if (!(await this.getPaymentOrder(update.externalReference))) {
+      console.warn(
+        `[Payment] Ignoring update for payment ${update.paymentId}: no order ${update.externalReference}`
+      );
+      return { status: "unknown" };
+    }
+
+    const conversationId =
+      getChatwootConversationId(this.messages) ?? undefined;
+
+    const [previous] = this.sql<{
+      notification: string | null;
+      notified_at: number | null;
+    }>`select notification, notified_at from payment_status_updates
+      where payment_id = ${update.paymentId} and status = ${update.status}`;
+    if (previous) {
+      return {
+        status: "duplicate",
+        notification: previous.notification ?? undefined,
+        conversationId,
+        delivered: previous.notified_at !== null
+      };
+    }
+
+    const notification = getPaymentNotification(update);
+    this.sql`insert into payment_status_updates
+      (payment_id, status, status_detail, amount, currency, notification, received_at)
+      values (${update.paymentId}, ${update.status}, ${update.statusDetail ?? null}, ${update.amount}, ${update.currency}, ${notification ?? null}, ${Date.now()})`;
+    await this.recordOrderStatus(
+      update.externalReference,
+      {
+        status: update.status,
+        paymentId: update.paymentId,
+        statusDetail: update.statusDetail
+      },
+      "webhook"
+    );
+
+    if (notification) {
+      // Keep the model aware of the payment in the rest of the conversation
+      await this.persistMessages([
+        ...this.messages,
+        {
+          id: generateId(),
+          role: "assistant",
+          parts: [{ type: "text", text: notification }],
+          metadata: {
+            createdAt: new Date(),
+            paymentId: update.paymentId,
+            paymentStatus: update.status
+          }
+        }
+      ]);
+    }
+
+    return { status: "recorded", notification, conversationId };
+  }
+
+  /**
+   * Order created under a payment reference, if it belongs to this agent
+   */
+  async getPaymentOrder(reference: string): Promise<PaymentOrder | null> {
+    const [row] = this.sql<PaymentOrderRow>`select * from payment_orders
+      where reference = ${reference}`;
+    return row ? toPaymentOrder(row) : null;
+  }
+
+  /**
+   * Order with its line items and status history
+   */
+  async getPaymentOrderDetails(
+    reference: string
+  ): Promise<PaymentOrderDetails | null> {
+    const order = await this.getPaymentOrder(reference);
+    if (!order) {
+      return null;
+    }
+
+    const items = this.sql<{
+      sku: string;
+      title: string;
+      quantity: number;
+      unit_price: number;
+      currency: string;
+      billing_period: string | null;
+    }>`select * from payment_order_items where reference = ${reference}`;
+    const events = this.sql<{
+      status: PaymentOrder["status"];
+      payment_id: string | null;
+      status_detail: string | null;
+      source: PaymentOrderSource;
+      recorded_at: number;
+    }>`select * from payment_order_events
+      where reference = ${reference} order by id`;
+
+    return {
+      ...order,
+      items: items.map((item) => ({
+        sku: item.sku,
+        title: item.title,
+        quantity: item.quantity,
+        unitPrice: item.unit_price,
+        currency: item.currency,
+        billingPeriod: item.billing_period ?? undefined
+      })),
+      history: events.map((event) => ({
+        status: event.status,
+        paymentId: event.payment_id ?? undefined,
+        statusDetail: event.status_detail ?? undefined,
+        source: event.source,
+        recordedAt: new Date(event.recorded_at).toISOString()
+      })),
+      charge: this.getPaymentCharge(reference) ?? undefined,
+      recovery: this.getPaymentRecovery(reference) ?? undefined
+    };
+  }
+
+  /**
+   * Move an order to a new status and append it to the order's history
+   * Unknown references (payments not created by this agent) are ignored
+   */
+  async recordOrderStatus(
+    reference: string,
+    change: {
+      status: PaymentOrder["status"];
+      paymentId?: string;
+      statusDetail?: string;
+    },
+    source: PaymentOrderSource
+  ): Promise<PaymentOrder | null> {
+    const order = await this.getPaymentOrder(reference);
+    if (!order) {
+      return null;
+    }
+
+    const now = Date.now();
+    this.sql`update payment_orders
+      set status = ${change.status}, payment_id = ${change.paymentId ?? order.paymentId ?? null}, updated_at = ${now}
+      where reference = ${reference}`;
+    this.sql`insert into payment_order_events
+      (reference, status, payment_id, status_detail, source, recorded_at)
+      values (${reference}, ${change.status}, ${change.paymentId ?? null}, ${change.statusDetail ?? null}, ${source}, ${now})`;
+    if (change.status !== "pending") {
+      await this.closePaymentRecovery(reference, change.status, source);
+    }
+
+    return await this.indexPaymentOrder(reference);
+  }
+
+  /**
+   * Mirror an order to the cross-conversation index in R2
+   * The agent's own tables stay the source of truth, so a failed write is
+   * only logged
+   */
+  private async indexPaymentOrder(
+    reference: string
+  ): Promise<PaymentOrder | null> {
+    const order = await this.getPaymentOrder(reference);
+    if (order) {
+      try {
+        await new OrderIndex(new R2StorageManager(this.env.R2_BUCKET)).put(
+          order
+        );
+      } catch (error) {
+        console.error("[Orders] Failed to index order:", reference, error);
+      }
+    }
+    return order;
+  }
+
+  /**
+   * The most recent order of this conversation
+   */
+  getLatestPaymentOrder(): PaymentOrder | null {
+    const [row] = this.sql<PaymentOrderRow>`select * from payment_orders
+      order by created_at desc, rowid desc limit 1`;
+    return row ? toPaymentOrder(row) : null;
+  }
+
+  /**
+   * Look up a payment made in this conversation
+   * Without a payment id the customer's last order is used ("my last order"),
+   * and its payment is searched on Mercado Pago by the order's reference.
+   * Payments that were not created by this agent are reported as not found.
+   */
+  async checkPaymentStatus(paymentId?: string): Promise<PaymentLookupResult> {
+    if (!this.env.PAYMENT_SERVICE) {
+      return { status: "failed", message: "Payment service is not configured" };
+    }
+
+    let order = paymentId ? null : this.getLatestPaymentOrder();
+    if (!paymentId && !order) {
+      return {
+        status: "not_found",
+        message: "No payment link was created in this conversation"
+      };
+    }
+
+    const lookupId = paymentId ?? order?.paymentId;
+    const path = lookupId
+      ? `/payment/status?id=${encodeURIComponent(lookupId)}`
+      : `/payment/search?external_reference=${encodeURIComponent(order!.reference)}`;
+
+    try {
+      const response = await fetchPaymentService(this.env, path);
+      if (response.status === 404) {
+        return { status: "not_found", message: "Payment not found" };
+      }
+      if (!response.ok) {
+        console.error(
+          "[Payment] Payment service error:",
+          response.status,
+          await response.text()
+        );
+        return { status: "failed", message: "Error checking payment status" };
+      }
+
+      let payment: PaymentDetails | undefined;
+      if (lookupId) {
+        payment = (await response.json()) as PaymentDetails;
+      } else {
+        // Most recent payment for the order; none while the link is unpaid
+        const { results } = (await response.json()) as {
+          results: PaymentDetails[];
+        };
+        [payment] = results;
+      }
+
+      // Customers can only look up payments made in their own conversation
+      if (
+        payment &&
+        parsePaymentReference(payment.external_reference ?? "")?.agentId !==
+          this.ctx.id.toString()
+      ) {
+        return { status: "not_found", message: "Payment not found" };
+      }
+
+      if (!order && payment?.external_reference) {
+        order = await this.getPaymentOrder(payment.external_reference);
+      }
+
+      // Catch up on updates the webhook has not delivered yet
+      if (
+        order &&
+        payment &&
+        (order.status !== payment.status ||
+          order.paymentId !== String(payment.id))
+      ) {
+        order = await this.recordOrderStatus(
+          order.reference,
+          {
+            status: payment.status,
+            paymentId: String(payment.id),
+            statusDetail: payment.status_detail
+          },
+          "checkPaymentStatus"
+        );
+      }
+
+      return { status: "found", order: order ?? undefined, payment };
+    } catch (error) {
+      console.error("[Payment] Error checking payment status", error);
+      return {
+        status: "failed",
+        message: `Error checking payment status: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Refund a payment made in this conversation, fully or partially
+   * Only runs after an operator approved the refundPayment tool call; the
+   * tool call id is used as idempotency key so a retry never refunds twice
+   */
+  async refundPayment(
+    request: PaymentActionRequest,
+    idempotencyKey?: string
+  ): Promise<Exclude<PaymentActionResult, { status: "cancelled" }>> {
+    const lookup = await this.checkPaymentStatus(request.paymentId);
+    if (lookup.status === "failed") {
+      return lookup;
+    }
+    if (lookup.status === "not_found" || !lookup.payment) {
+      return { status: "not_found", message: "Payment not found" };
+    }
+
+    const { payment, order } = lookup;
+    if (payment.status !== "approved") {
+      return {
+        status: "rejected",
+        message: `Only approved payments can be refunded (payment ${payment.id} is ${payment.status})`
+      };
+    }
+    if (!(request.amount > 0) || request.amount - payment.amount >= 0.01) {
+      return {
+        status: "rejected",
+        message: `Refund amount must be between ${formatPrice(0.01)} and ${formatPrice(payment.amount)}`
+      };
+    }
+
+    const full = payment.amount - request.amount < 0.01;
+    try {
+      const response = await fetchPaymentService(this.env, "/payment/refund", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payment_id: request.paymentId,
+          amount: full ? undefined : request.amount,
+          idempotency_key: idempotencyKey
+        })
+      });
+      if (!response.ok) {
+        throw new Error(
+          `payment service returned ${response.status}: ${await response.text()}`
+        );
+      }
+    } catch (error) {
+      console.error("[Payment] Refund failed:", error);
+      return {
+        status: "failed",
+        message: "Não foi possível processar o reembolso no momento."
+      };
+    }
+
+    this.auditPayment(idempotencyKey ?? generateId(), "refunded", {
+      planSku: order?.planSku,
+      amount: request.amount,
+      currency: payment.currency,
+      reason: `${request.reason} (payment ${request.paymentId})`
+    });
+    if (order) {
+      await this.recordOrderStatus(
+        order.reference,
+        {
+          status: full ? "refunded" : payment.status,
+          paymentId: request.paymentId,
+          statusDetail: full ? "refunded" : "partially_refunded"
+        },
+        "refundPayment"
+      );
+    }
+
+    return {
+      status: "refunded",
+      paymentId: request.paymentId,
+      amount: request.amount,
+      full
+    };
+  }
+
+  /**
+   * Cancel a payment made in this conversation that was not approved yet
+   * Only runs after an operator approved the cancelPayment tool call; the
+   * amount must match the payment so the operator approved what is cancelled
+   */
+  async cancelPayment(
+    request: PaymentActionRequest,
+    idempotencyKey?: string
+  ): Promise<Exclude<PaymentActionResult, { status: "refunded" }>> {
+    const lookup = await this.checkPaymentStatus(request.paymentId);
+    if (lookup.status === "failed") {
+      return lookup;
+    }
+    if (lookup.status === "not_found" || !lookup.payment) {
+      return { status: "not_found", message: "Payment not found" };
+    }
+
+    const { payment, order } = lookup;
+    if (payment.status !== "pending" && payment.status !== "in_process") {
+      return {
+        status: "rejected",
+        message: `Only pending payments can be cancelled (payment ${payment.id} is ${payment.status}); use refundPayment for approved payments`
+      };
+    }
+    if (Math.abs(request.amount - payment.amount) >= 0.01) {
+      return {
+        status: "rejected",
+        message: `Payment ${payment.id} is ${formatPrice(payment.amount)}, not ${formatPrice(request.amount)}`
+      };
+    }
+
+    try {
+      const response = await fetchPaymentService(this.env, "/payment/cancel", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payment_id: request.paymentId })
+      });
+      if (!response.ok) {
+        throw new Error(
+          `payment service returned ${response.status}: ${await response.text()}`
+        );
+      }
+    } catch (error) {
+      console.error("[Payment] Cancellation failed:", error);
+      return {
+        status: "failed",
+        message: "Não foi possível cancelar o pagamento no momento."
+      };
+    }
+
+    this.auditPayment(idempotencyKey ?? generateId(), "cancelled", {
+      planSku: order?.planSku,
+      amount: payment.amount,
+      currency: payment.currency,
+      reason: `${request.reason} (payment ${request.paymentId})`
+    });
+    if (order) {
+      await this.recordOrderStatus(
+        order.reference,
+        { status: "cancelled", paymentId: request.paymentId },
+        "cancelPayment"
+      );
+    }
+
+    return {
+      status: "cancelled",
+      paymentId: request.paymentId,
+      amount: payment.amount
+    };
+  }
+
+  /**
+   * Mark the customer notification for a payment status as sent to Chatwoot
+   */
+  async markPaymentNotificationDelivered(
+    paymentId: string,
+    status: string
+  ): Promise<void> {
+    this.sql`update payment_status_updates
+      set notified_at = ${Date.now()}
+      where payment_id = ${paymentId} and status = ${status}`;
+  }
+
+  /**
+   * Append an entry to the payment audit log
+   */
+  auditPayment(
+    attemptId: string,
+    outcome: PaymentAuditOutcome,
+    details: {
+      planSku?: string;
+      amount?: number;
+      quantity?: number;
+      currency?: string;
+      customerEmail?: string;
+      reason?: string;
+      preferenceId?: string;
+    }
+  ): void {
+    this.sql`insert into payment_audit
+      (attempt_id, outcome, plan_sku, amount, quantity, currency, customer_email, reason, preference_id, created_at)
+      values (${attemptId}, ${outcome}, ${details.planSku ?? null}, ${details.amount ?? null}, ${details.quantity ?? null}, ${details.currency ?? null}, ${details.customerEmail ?? null}, ${details.reason ?? null}, ${details.preferenceId ?? null}, ${Date.now()})`;
+  }
+
+  /**
+   * Handles incoming chat messages and manages the response stream
+   */
+  async onChatMessage(
+    onFinish: StreamTextOnFinishCallback<ToolSet>,
+    _options?: { abortSignal?: AbortSignal }
+  ) {
+    // const mcpConnection = await this.mcp.connect(
+    //   "https://path-to-mcp-server/sse"
+    // );
+
+    const model = createChatModel(this.env.AI);
+    const prompt = await this.getActivePrompt();
+    const catalog = await this.getCatalog();
+
+    // Collect all tools, including MCP tools
+    const allTools = {
+      ...tools,
+      ...this.mcp.getAITools()
+    };
+
+    const stream = createUIMessageStream({
+      execute: async ({ writer }) => {
+        // Clean up incomplete tool calls to prevent API errors
+        const cleanedMessages = cleanupMessages(this.messages);
+
+        // Process any pending tool calls from previous messages
+        // This handles human-in-the-loop confirmations for tools
+        const processedMessages = await processToolCalls({
+          messages: cleanedMessages,
+          dataStream: writer,
+          tools: allTools,
+          executions
+        });
+
+        const result = streamText({
+          system: buildSystemPrompt({
+            channel: "web",
+            persona: prompt.persona,
+            catalog
+          }),
+          messages: convertToModelMessages(processedMessages),
+          model,
+          tools: allTools,
+          // Type boundary: streamText expects specific tool types, but base class uses ToolSet
+          // This is safe because our tools satisfy ToolSet interface (verified by 'satisfies' in tools.ts)
+          onFinish: onFinish as unknown as StreamTextOnFinishCallback<
+            typeof allTools
+          >,
+          stopWhen: stepCountIs(10)
+        });
+
+        writer.merge(
+          result.toUIMessageStream({
+            // Record which prompt version produced this reply
+            messageMetadata: ({ part }) =>
+              part.type === "start"
+                ? { createdAt: new Date(), promptVersion: prompt.version }
+                : undefined
+          })
+        );
+      }
+    });
+
+    return createUIMessageStreamResponse({ stream });
+  }
+  async executeTask(description: string, _task: Schedule<string>) {
+    await this.saveMessages([
+      ...this.messages,
+      {
+        id: generateId(),
+        role: "user",
+        parts: [
+          {
+            type: "text",
+            text: `Running scheduled task: ${description}`
+          }
+        ],
+        metadata: {
+          createdAt: new Date()
+        }
+      }
+    ]);
+  }
+
+  /**
+   * Process incoming message from Chatwoot and generate AI response
+   * Chatwoot retries slow webhooks, so each message id is only answered once.
+   * Attachments are archived and read first; while a human agent has the
+   * conversation they are only archived
+   */
+  async processChatwootMessage(
+    event: ChatwootWebhookEvent
+  ): Promise<ChatwootProcessResult> {
+    const attachments = getCustomerAttachments(event);
+    if (attachments.length === 0 && !chatwootMessageToUIMessage(event)) {
+      return { status: "ignored" };
+    }
+
+    const previous = this.claimChatwootMessage(event);
+    if (previous) {
+      console.log(
+        `[Chatwoot] Duplicate message ${event.id} (${previous.status}), skipping generation`
+      );
+      return {
+        status: "duplicate",
+        response: previous.response ?? undefined,
+        delivered: previous.status === "delivered"
+      };
+    }
+
+    // Replies keep the order customers wrote in, across queue batches
+    const [blocker] = this.sql<{ message_id: number }>`
+      select message_id from chatwoot_processed_messages
+      where message_id < ${event.id}
+        and status in ('retrying', 'undelivered', 'deferred')
+        and processed_at >= ${Date.now() - CHATWOOT_ORDERING_HOLD_MS}
+      order by message_id
+      limit 1`;
+    if (blocker) {
+      console.log(
+        `[Chatwoot] Deferring message ${event.id} behind ${blocker.message_id}`
+      );
+      this.sql`update chatwoot_processed_messages
+        set status = 'deferred', processed_at = ${Date.now()}
+        where message_id = ${event.id}`;
+      return { status: "deferred" };
+    }
+
+    try {
+      const media = await this.readChatwootAttachments(
+        event.conversation!.id,
+        attachments,
+        this.getChatwootHandoff().status !== "human"
+      );
+      // Every attachment adds text, so there is always something to answer
+      const uiMessage = chatwootMessageToUIMessage(event, media)!;
+
+      // Add the user message to conversation history without triggering onChatMessage
+      await this.persistMessages([...this.messages, uiMessage]);
+      await this.notifySupportWorkflows(event.id);
+
+      // A human agent has the conversation: keep the message, stay quiet
+      if (this.getChatwootHandoff().status === "human") {
+        this.sql`update chatwoot_processed_messages
+          set status = 'processed'
+          where message_id = ${event.id}`;
+        return { status: "paused" };
+      }
+
+      if (this.getChatwootDebounceSeconds() > 0) {
+        await this.bufferChatwootEvent(event);
+        return { status: "buffered" };
+      }
+
+      const prompt = await this.getActivePrompt();
+      const response = await this.generateChatwootResponse(prompt);
+      await this.saveChatwootReply(response, prompt.version);
+
+      this.sql`update chatwoot_processed_messages
+        set status = 'processed', response = ${response}
+        where message_id = ${event.id}`;
+
+      return { status: "processed", response };
+    } catch (error) {
+      // A retried delivery processes the message again; until then it holds
+      // back the later messages of the conversation
+      this.sql`update chatwoot_processed_messages
+        set status = 'retrying', processed_at = ${Date.now()}
+        where message_id = ${event.id}`;
+      throw error;
+    }
+  }
+
+  /**
+   * Archive the attachments of a customer message and read them: the voice
+   * note is transcribed, images and documents are described or converted
+   * to text. With `read` off they are only archived
+   */
+  private async readChatwootAttachments(
+    conversationId: number,
+    attachments: ChatwootAttachment[],
+    read = true
+  ): Promise<ChatwootMessageMedia> {
+    const storage = new R2StorageManager(this.env.R2_BUCKET);
+    if (!read) {
+      const kept: AttachmentContent[] = [];
+      for (const attachment of attachments) {
+        kept.push(await keepAttachment(storage, conversationId, attachment));
+      }
+      return { attachments: kept };
+    }
+
+    const audio = attachments.find(
+      (attachment) => attachment.file_type === "audio"
+    );
+    const media: ChatwootMessageMedia = {
+      transcription: audio
+        ? await transcribeAudio(this.env.AI, storage, conversationId, audio)
+        : undefined,
+      attachments: []
+    };
+    for (const attachment of attachments) {
+      if (attachment !== audio) {
+        media.attachments!.push(
+          await readAttachment(this.env.AI, storage, conversationId, attachment)
+        );
+      }
+    }
+    return media;
+  }
+
+  /**
+   * Chatwoot client that remembers the messages this agent posts, so their
+   * webhooks are not taken for a human agent replying
+   */
+  private getTrackedChatwootClient(): ChatwootClient | null {
+    return getChatwootClient((message) =>
+      this.recordChatwootSentMessage(message.id)
+    );
+  }
+
+  /**
+   * Remember a message posted to the conversation on the bot's behalf
+   * Called by the queue consumer and workflows for the messages they post
+   */
+  recordChatwootSentMessage(messageId: number): void {
+    const now = Date.now();
+    this.sql`delete from chatwoot_sent_messages
+      where sent_at < ${now - CHATWOOT_DEDUP_RETENTION_MS}`;
+    this.sql`insert or ignore into chatwoot_sent_messages (message_id, sent_at)
+      values (${messageId}, ${now})`;
+  }
+
+  /**
+   * Who answers this conversation: the bot, until a human agent takes over
+   */
+  getChatwootHandoff(): ChatwootHandoff {
+    const [row] = this.sql<ChatwootHandoffRow>`select * from chatwoot_handoff`;
+    return row ? toChatwootHandoff(row) : { status: "bot" };
+  }
+
+  /**
+   * Hand the conversation to a human agent (the bot stops answering) or back
+   * to the bot. `assigneeId` records the current assignee; left out, the
+   * previous one is kept
+   */
+  async setChatwootHandoff(
+    conversationId: number,
+    status: ChatwootHandoff["status"],
+    reason: NonNullable<ChatwootHandoff["reason"]>,
+    assigneeId?: number | null
+  ): Promise<ChatwootHandoff> {
+    const previous = this.getChatwootHandoff();
+    this.sql`insert or replace into chatwoot_handoff
+      (conversation_id, status, reason, assignee_id, updated_at)
+      values (${conversationId}, ${status}, ${reason},
+        ${assigneeId === undefined ? (previous.assigneeId ?? null) : assigneeId},
+        ${Date.now()})`;
+    if (previous.status !== status) {
+      console.log(
+        `[Chatwoot] Conversation ${conversationId} handed to the ${status === "human" ? "human agent" : "bot"} (${reason})`
+      );
+    }
+    return this.getChatwootHandoff();
+  }
+
+  /**
+   * How replies are delivered in this conversation (auto until set)
+   */
+  getChatwootReplyMode(): VoiceReplyMode {
+    const [row] = this.sql<ChatwootReplyModeRow>`
+      select * from chatwoot_reply_mode`;
+    return row?.mode ?? "auto";
+  }
+
+  async setChatwootReplyMode(
+    conversationId: number,
+    mode: VoiceReplyMode
+  ): Promise<VoiceReplyMode> {
+    this.sql`insert or replace into chatwoot_reply_mode
+      (conversation_id, mode, updated_at)
+      values (${conversationId}, ${mode}, ${Date.now()})`;
+    return mode;
+  }
+
+  /**
+   * Whether the next reply goes out as voice notes: always in voice mode,
+   * and in auto mode when the customer's last message was a voice note
+   */
+  shouldReplyWithVoice(): boolean {
+    const mode = this.getChatwootReplyMode();
+    if (mode !== "auto") {
+      return mode === "voice";
+    }
+    const lastCustomerMessage = [...this.messages]
+      .reverse()
+      .find((message) => message.role === "user");
+    const metadata = lastCustomerMessage?.metadata as
+      | { chatwootAudio?: unknown }
+      | undefined;
+    return Boolean(metadata?.chatwootAudio);
+  }
+
+  /**
+   * Voice used to speak to this conversation (provider defaults until set)
+   */
+  getVoiceSettings(): VoiceSettings {
+    const [row] = this.sql<ChatwootVoiceSettingsRow>`
+      select * from chatwoot_voice_settings`;
+    return {
+      voice: row?.voice ?? undefined,
+      language: row?.language ?? undefined
+    };
+  }
+
+  /**
+   * Change the voice of this conversation; settings left out are kept
+   */
+  async setVoiceSettings(
+    conversationId: number,
+    settings: VoiceSettings
+  ): Promise<VoiceSettings> {
+    const previous = this.getVoiceSettings();
+    this.sql`insert or replace into chatwoot_voice_settings
+      (conversation_id, voice, language, updated_at)
+      values (${conversationId}, ${settings.voice ?? previous.voice ?? null},
+        ${settings.language ?? previous.language ?? null}, ${Date.now()})`;
+    return this.getVoiceSettings();
+  }
+
+  /**
+   * Speech providers in order of preference: ElevenLabs (through the speech
+   * cache in R2) when configured, then Workers AI
+   */
+  getSpeechSynthesizer(): SpeechSynthesizer {
+    const elevenlabsClient = getElevenLabsClient();
+    return new SpeechSynthesizerChain([
+      ...(elevenlabsClient
+        ? [
+            new ElevenLabsSynthesizer(
+              new CachedSpeechClient(
+                elevenlabsClient,
+                new R2StorageManager(this.env.R2_BUCKET)
+              )
+            )
+          ]
+        : []),
+      ...(this.env.AI ? [new WorkersAiSynthesizer(this.env.AI)] : [])
+    ]);
+  }
+
+  /**
+   * Post a reply to the Chatwoot conversation, by voice when the reply mode
+   * asks for it. A reply that no speech provider can synthesize, or that
+   * cannot be sent as audio, goes out as text; when a voice reply stops
+   * halfway, only the part not delivered does
+   */
+  async sendChatwootReply(
+    conversationId: number,
+    response: string
+  ): Promise<"voice" | "text"> {
+    const chatwootClient = this.getTrackedChatwootClient();
+    if (!chatwootClient) {
+      throw new Error("Chatwoot is not configured");
+    }
+
+    if (this.shouldReplyWithVoice()) {
+      let result: VoiceReplyResult | undefined;
+      try {
+        result = await sendVoiceReply(
+          chatwootClient,
+          this.getSpeechSynthesizer(),
+          conversationId,
+          response,
+          this.getVoiceSettings()
+        );
+      } catch (error) {
+        console.error(
+          "[Chatwoot] Voice reply failed, sending it as text:",
+          error
+        );
+      }
+
+      if (result) {
+        console.log(
+          `[Chatwoot] Reply sent to conversation ${conversationId} as ${result.voiceNotes} voice notes`
+        );
+        if (result.undelivered) {
+          console.error(
+            "[Chatwoot] Voice reply stopped halfway, sending the rest as text:",
+            result.error
+          );
+          // Not rethrown: a retry would send the voice notes again
+          try {
+            await chatwootClient.sendMessage(
+              conversationId,
+              result.undelivered
+            );
+          } catch (error) {
+            console.error(
+              "[Chatwoot] Could not send the rest of the reply:",
+              error
+            );
+          }
+        }
+        return "voice";
+      }
+    }
+
+    await chatwootClient.sendMessage(conversationId, response);
+    return "text";
+  }
+
+  /**
+   * Apply an outgoing Chatwoot message to the handoff
+   * A human agent replying to the customer pauses the bot, and the reply is
+   * kept in the history so the bot knows what was said when it resumes.
+   * Private notes can carry `/bot pause` or `/bot resume`. Returns null when
+   * the message changes nothing (the bot's own messages, other notes)
+   */
+  async processChatwootAgentMessage(
+    event: ChatwootWebhookEvent
+  ): Promise<ChatwootHandoff | null> {
+    const conversationId = event.conversation!.id;
+
+    if (event.private) {
+      const command = parseBotCommand(event.content);
+      if (!command) {
+        return null;
+      }
+      return this.setChatwootHandoff(
+        conversationId,
+        command === "pause" ? "human" : "bot",
+        "command"
+      );
+    }
+
+    const [sent] = this.sql`select message_id from chatwoot_sent_messages
+      where message_id = ${event.id}`;
+    if (!isHumanAgent(event.sender) || sent) {
+      return null;
+    }
+
+    const id = `chatwoot-${conversationId}-${event.id}`;
+    if (event.content && !this.messages.some((message) => message.id === id)) {
+      await this.persistMessages([
+        ...this.messages,
+        {
+          id,
+          role: "assistant",
+          parts: [{ type: "text", text: event.content }],
+          metadata: {
+            createdAt: new Date(event.created_at),
+            chatwootConversationId: conversationId,
+            chatwootMessageId: event.id,
+            chatwootSender: event.sender
+          }
+        }
+      ]);
+    }
+
+    const handoff = this.getChatwootHandoff();
+    return handoff.status === "human"
+      ? handoff
+      : this.setChatwootHandoff(conversationId, "human", "agent_message");
+  }
+
+  /**
+   * Apply a conversation update (assignment, labels, status) to the handoff
+   * Assigning a human agent pauses the bot; the resume label or resolving
+   * the conversation hands it back to the bot
+   */
+  async processChatwootConversationEvent(
+    event: ChatwootConversationEvent
+  ): Promise<ChatwootHandoff> {
+    const handoff = this.getChatwootHandoff();
+    const assignee = event.meta?.assignee;
+    const assigneeId = isHumanAgent(assignee) ? assignee.id : null;
+
+    if (event.labels?.includes(BOT_RESUME_LABEL)) {
+      try {
+        await getChatwootClient()?.removeLabels(event.id, [BOT_RESUME_LABEL]);
+      } catch (error) {
+        // Left in place, the label just resumes the bot again on the next update
+        console.warn("[Chatwoot] Could not remove the resume label:", error);
+      }
+      return this.setChatwootHandoff(event.id, "bot", "label", assigneeId);
+    }
+
+    if (event.status === "resolved") {
+      return handoff.status === "human"
+        ? this.setChatwootHandoff(event.id, "bot", "resolved", assigneeId)
+        : handoff;
+    }
+
+    // Conversation updates repeat the assignee; only a new one takes over
+    if (assigneeId !== null && assigneeId !== handoff.assigneeId) {
+      return this.setChatwootHandoff(event.id, "human", "assigned", assigneeId);
+    }
+    if (assigneeId === null && handoff.assigneeId !== undefined) {
+      this.sql`update chatwoot_handoff set assignee_id = null`;
+      return this.getChatwootHandoff();
+    }
+    return handoff;
+  }
+
+  /**
+   * Whether the customer support workflow is bound, so follow-ups,
+   * escalations and surveys can be started
+   */
+  hasSupportWorkflows(): boolean {
+    return !!this.env.CUSTOMER_SUPPORT_WORKFLOW;
+  }
+
+  /**
+   * Start a customer support workflow (follow-up, escalation, survey) for this
+   * conversation and keep track of it. Returns the workflow instance id
+   */
+  async startSupportWorkflow(params: CustomerSupportParams): Promise<string> {
+    const instance = await this.env.CUSTOMER_SUPPORT_WORKFLOW.create({
+      params: { ...params, agentId: this.ctx.id.toString() }
+    });
+    const now = Date.now();
+    const dueAt = now + (params.delayMinutes ?? 0) * 60 * 1000;
+    this.sql`insert into support_workflows
+      (instance_id, action, status, due_at, created_at, updated_at)
+      values (${instance.id}, ${params.action}, ${"active"}, ${dueAt}, ${now}, ${now})`;
+    return instance.id;
+  }
+
+  /**
+   * Support workflows started in this conversation, newest first
+   * Active ones are checked with Workflows first, so finished ones show up
+   * as such
+   */
+  async listSupportWorkflows(): Promise<SupportWorkflow[]> {
+    const active = this.sql<{ instance_id: string }>`select instance_id
+      from support_workflows where status = 'active'`;
+    for (const { instance_id } of active) {
+      try {
+        const instance =
+          await this.env.CUSTOMER_SUPPORT_WORKFLOW.get(instance_id);
+        const { status } = await instance.status();
+        if (
+          status === "complete" ||
+          status === "errored" ||
+          status === "terminated"
+        ) {
+          this.setSupportWorkflowStatus(instance_id, "finished");
+        }
+      } catch (error) {
+        console.warn(
+          "[Workflow] Could not check support workflow:",
+          instance_id,
+          error
+        );
+      }
+    }
+
+    return this.sql<SupportWorkflowRow>`select * from support_workflows
+      order by created_at desc, rowid desc`.map(toSupportWorkflow);
+  }
+
+  /**
+   * Cancel a support workflow of this conversation before it runs
+   * Returns null when the workflow was not started here
+   */
+  async cancelSupportWorkflow(
+    instanceId: string
+  ): Promise<SupportWorkflow | null> {
+    const [row] = this.sql<SupportWorkflowRow>`select * from support_workflows
+      where instance_id = ${instanceId}`;
+    if (!row || row.status !== "active") {
+      return row ? toSupportWorkflow(row) : null;
+    }
+
+    try {
+      const instance = await this.env.CUSTOMER_SUPPORT_WORKFLOW.get(instanceId);
+      await instance.terminate();
+    } catch (error) {
+      // Already finished; there is nothing left to stop
+      console.warn(
+        "[Workflow] Could not terminate support workflow:",
+        instanceId,
+        error
+      );
+    }
+    this.setSupportWorkflowStatus(instanceId, "cancelled");
+
+    const [cancelled] = this.sql<SupportWorkflowRow>`select * from
+      support_workflows where instance_id = ${instanceId}`;
+    return toSupportWorkflow(cancelled);
+  }
+
+  /**
+   * Tell the active support workflows that the customer wrote in
+   * Follow-ups still waiting to be sent drop themselves; the other actions
+   * ignore the event
+   */
+  private async notifySupportWorkflows(messageId: number): Promise<void> {
+    const active = this.sql<
+      Pick<SupportWorkflowRow, "instance_id" | "action" | "due_at">
+    >`select instance_id, action, due_at from support_workflows
+      where status = 'active'`;
+    for (const { instance_id, action, due_at } of active) {
+      try {
+        const instance =
+          await this.env.CUSTOMER_SUPPORT_WORKFLOW.get(instance_id);
+        await instance.sendEvent({
+          type: CUSTOMER_REPLIED_EVENT,
+          payload: { messageId }
+        });
+        if (action === "follow_up" && due_at > Date.now()) {
+          this.setSupportWorkflowStatus(instance_id, "cancelled");
+        }
+      } catch (error) {
+        // Finished instances no longer take events
+        console.warn(
+          "[Workflow] Could not notify support workflow:",
+          instance_id,
+          error
+        );
+        this.setSupportWorkflowStatus(instance_id, "finished");
+      }
+    }
+  }
+
+  /**
+   * Summarize the conversation for the human agent taking it over
+   * The model writes the summary and detects the intent and language; the
+   * plan and email of the last order take precedence over what it extracts.
+   * If the model fails, the customer's last messages stand in for the summary
+   */
+  async getHandoffSummary(reason: string): Promise<EscalationSummary> {
+    const order = this.getLatestPaymentOrder();
+    const transcript = this.messages
+      .slice(-HANDOFF_TRANSCRIPT_MESSAGES)
+      .map((message) => {
+        const text = message.parts
+          .map((part) => (part.type === "text" ? part.text : ""))
+          .join("")
+          .trim();
+        return text
+          ? `${message.role === "user" ? "Cliente" : "Assistente"}: ${text}`
+          : "";
+      })
+      .filter(Boolean);
+
+    try {
+      const { object } = await generateObject({
+        model: createChatModel(this.env.AI),
+        schema: escalationSummarySchema,
+        system:
+          "Você prepara o repasse de um atendimento para um agente humano. Resuma a conversa, identifique o que o cliente quer, o idioma em que ele escreve, o plano de interesse e o email, sem inventar dados que não aparecem na conversa.",
+        prompt: `Motivo do encaminhamento: ${reason}\n\nConversa:\n${transcript.join("\n")}`
+      });
+      return {
+        ...object,
+        planSku: order?.planSku ?? object.planSku,
+        customerEmail: order?.customerEmail ?? object.customerEmail
+      };
+    } catch (error) {
+      console.error("[Escalation] Failed to summarize conversation:", error);
+      const customerMessages = transcript
+        .filter((line) => line.startsWith("Cliente: "))
+        .slice(-3);
+      return {
+        summary:
+          customerMessages.length > 0 ? customerMessages.join(" / ") : reason,
+        intent: reason,
+        planSku: order?.planSku,
+        customerEmail: order?.customerEmail
+      };
+    }
+  }
+
+  private setSupportWorkflowStatus(
+    instanceId: string,
+    status: SupportWorkflow["status"]
+  ): void {
+    this.sql`update support_workflows
+      set status = ${status}, updated_at = ${Date.now()}
+      where instance_id = ${instanceId}`;
+  }
+
+  /**
+   * Debounce window (seconds) for coalescing bursts of Chatwoot messages
+   * 0 answers every message as soon as it arrives
+   */
+  getChatwootDebounceSeconds(): number {
+    const seconds = Number(process.env.CHATWOOT_DEBOUNCE_SECONDS ?? 0);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : 0;
+  }
+
+  /**
+   * How long new payment links stay payable (PAYMENT_LINK_EXPIRATION_HOURS)
+   */
+  getPaymentLinkExpirationHours(): number {
+    const hours = Number(process.env.PAYMENT_LINK_EXPIRATION_HOURS);
+    return Number.isFinite(hours) && hours > 0
+      ? hours
+      : DEFAULT_PAYMENT_LINK_EXPIRATION_HOURS;
+  }
+
+  /**
+   * When to remind customers of unpaid links, in minutes after the link was
+   * created (PAYMENT_RECOVERY_REMINDER_MINUTES, comma-separated; empty
+   * disables reminders but still expires and escalates)
+   */
+  getPaymentRecoveryReminderMinutes(): number[] {
+    const setting = process.env.PAYMENT_RECOVERY_REMINDER_MINUTES;
+    if (setting === undefined) {
+      return DEFAULT_PAYMENT_RECOVERY_REMINDER_MINUTES;
+    }
+    return setting
+      .split(",")
+      .map((value) => Number(value.trim()))
+      .filter((minutes) => Number.isFinite(minutes) && minutes > 0)
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Add a message to the pending burst and push the flush back by one window
+   * A reply still being generated for the earlier messages is superseded
+   */
+  async bufferChatwootEvent(event: ChatwootWebhookEvent): Promise<void> {
+    this.sql`update chatwoot_processed_messages
+      set status = 'buffered'
+      where message_id = ${event.id}`;
+    this.sql`insert or replace into chatwoot_pending_events
+      (message_id, conversation_id, event, received_at)
+      values (${event.id}, ${event.conversation!.id}, ${JSON.stringify(event)}, ${Date.now()})`;
+
+    this.chatwootReplyAbort?.abort();
+
+    for (const schedule of this.getSchedules()) {
+      if (schedule.callback === "flushChatwootBuffer") {
+        await this.cancelSchedule(schedule.id);
+      }
+    }
+    await this.schedule(
+      this.getChatwootDebounceSeconds(),
+      "flushChatwootBuffer",
+      { attempt: 1 }
+    );
+  }
+
+  /**
+   * Answer every buffered Chatwoot message with a single reply
+   * Runs from the debounce schedule once no new message arrived for a window
+   */
+  async flushChatwootBuffer(
+    payload: { attempt: number } = { attempt: 1 }
+  ): Promise<void> {
+    const pending = this.sql<{ message_id: number; conversation_id: number }>`
+      select message_id, conversation_id from chatwoot_pending_events
+      order by message_id`;
+    if (pending.length === 0) {
+      return;
+    }
+
+    // A human agent took over while the burst was waiting
+    if (this.getChatwootHandoff().status === "human") {
+      for (const { message_id } of pending) {
+        this.sql`update chatwoot_processed_messages
+          set status = 'processed'
+          where message_id = ${message_id}`;
+        this.sql`delete from chatwoot_pending_events
+          where message_id = ${message_id}`;
+      }
+      return;
+    }
+
+    this.chatwootReplyAbort?.abort();
+    const controller = new AbortController();
+    this.chatwootReplyAbort = controller;
+
+    const prompt = await this.getActivePrompt();
+    let response: string;
+    try {
+      response = await this.generateChatwootResponse(prompt, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log("[Chatwoot] Reply superseded by a newer message");
+        return;
+      }
+      if (payload.attempt >= CHATWOOT_FLUSH_MAX_ATTEMPTS) {
+        console.error(
+          `[Chatwoot] Giving up on ${pending.length} buffered messages:`,
+          error
+        );
+        for (const { message_id } of pending) {
+          this.sql`update chatwoot_processed_messages
+            set status = 'failed'
+            where message_id = ${message_id}`;
+          this.sql`delete from chatwoot_pending_events
+            where message_id = ${message_id}`;
+        }
+        return;
+      }
+      console.error("[Chatwoot] Error answering buffered messages:", error);
+      await this.schedule(
+        this.getChatwootDebounceSeconds() * payload.attempt,
+        "flushChatwootBuffer",
+        { attempt: payload.attempt + 1 }
+      );
+      return;
+    }
+
+    // A message that arrived during generation already scheduled a newer flush
+    if (controller.signal.aborted) {
+      console.log("[Chatwoot] Discarding reply superseded by a newer message");
+      return;
+    }
+    this.chatwootReplyAbort = undefined;
+
+    await this.saveChatwootReply(response, prompt.version);
+    for (const { message_id } of pending) {
+      this.sql`update chatwoot_processed_messages
+        set status = 'processed', response = ${response}
+        where message_id = ${message_id}`;
+      this.sql`delete from chatwoot_pending_events
+        where message_id = ${message_id}`;
+    }
+
+    if (!response || !getChatwootClient()) {
+      console.log("[Chatwoot] Skipping reply send - nothing to send");
+      return;
+    }
+
+    await this.deliverChatwootBuffer({
+      conversationId: pending[0].conversation_id,
+      messageIds: pending.map(({ message_id }) => message_id),
+      attempt: 1
+    });
+  }
+
+  /**
+   * Post the reply to a flushed burst
+   * A failed send is retried from a schedule, with the same backoff as the
+   * flush; the messages stay undelivered until it goes through
+   */
+  async deliverChatwootBuffer(payload: {
+    conversationId: number;
+    messageIds: number[];
+    attempt: number;
+  }): Promise<void> {
+    const { conversationId, messageIds, attempt } = payload;
+    const [row] = this.sql<{ response: string | null }>`
+      select response from chatwoot_processed_messages
+      where message_id = ${messageIds[0]}`;
+    if (!row?.response) {
+      return;
+    }
+
+    try {
+      await this.sendChatwootReply(conversationId, row.response);
+    } catch (error) {
+      const failed = attempt >= CHATWOOT_FLUSH_MAX_ATTEMPTS;
+      for (const messageId of messageIds) {
+        this.sql`update chatwoot_processed_messages
+          set status = ${failed ? "failed" : "undelivered"}, processed_at = ${Date.now()}
+          where message_id = ${messageId}`;
+      }
+      if (failed) {
+        console.error(
+          `[Chatwoot] Giving up on the reply to ${messageIds.length} buffered messages:`,
+          error
+        );
+        return;
+      }
+      console.error("[Chatwoot] Error sending the buffered reply:", error);
+      await this.schedule(
+        this.getChatwootDebounceSeconds() * attempt,
+        "deliverChatwootBuffer",
+        { ...payload, attempt: attempt + 1 }
+      );
+      return;
+    }
+
+    for (const messageId of messageIds) {
+      await this.markChatwootReplyDelivered(messageId);
+    }
+  }
+
+  /**
+   * Record a Chatwoot message id as being processed
+   * Returns the existing record when the id was already claimed; messages
+   * waiting for a retry or deferred are claimed again
+   */
+  claimChatwootMessage(
+    event: ChatwootWebhookEvent
+  ): { status: string; response: string | null } | null {
+    this.sql`delete from chatwoot_processed_messages
+      where processed_at < ${Date.now() - CHATWOOT_DEDUP_RETENTION_MS}`;
+
+    const [existing] = this.sql<{ status: string; response: string | null }>`
+      select status, response from chatwoot_processed_messages
+      where message_id = ${event.id}`;
+    if (existing?.status === "retrying" || existing?.status === "deferred") {
+      this.sql`update chatwoot_processed_messages
+        set status = 'processing', processed_at = ${Date.now()}
+        where message_id = ${event.id}`;
+      return null;
+    }
+    if (existing) {
+      return existing;
+    }
+
+    this.sql`insert into chatwoot_processed_messages
+      (message_id, conversation_id, status, processed_at)
+      values (${event.id}, ${event.conversation?.id ?? 0}, 'processing', ${Date.now()})`;
+    return null;
+  }
+
+  /**
+   * Mark the reply to a Chatwoot message as posted back to the conversation
+   */
+  async markChatwootReplyDelivered(messageId: number): Promise<void> {
+    this.sql`update chatwoot_processed_messages
+      set status = 'delivered'
+      where message_id = ${messageId}`;
+  }
+
+  /**
+   * Mark the reply to a Chatwoot message as failed to post; the retried
+   * delivery sends it, and holds back the later messages until then
+   */
+  async markChatwootReplyUndelivered(messageId: number): Promise<void> {
+    this.sql`update chatwoot_processed_messages
+      set status = 'undelivered', processed_at = ${Date.now()}
+      where message_id = ${messageId}`;
+  }
+
+  /**
+   * Generate a reply to the current Chatwoot conversation history
+   */
+  async generateChatwootResponse(
+    prompt: ActivePrompt,
+    abortSignal?: AbortSignal
+  ): Promise<string> {
+    const model = createChatModel(this.env.AI);
+
+    // Tools that wait for an operator's approval can only be approved from
+    // the web chat, so they are not offered in Chatwoot conversations
+    const allTools = Object.fromEntries(
+      Object.entries({ ...tools, ...this.mcp.getAITools() }).filter(
+        ([name]) => !(name in executions)
+      )
+    );
+
+    // Clean up incomplete tool calls
+    const cleanedMessages = cleanupMessages(this.messages);
+
+    // Process pending tool calls
+    const processedMessages = await processToolCalls({
+      messages: cleanedMessages,
+      dataStream: null,
+      tools: allTools,
+      executions
+    });
+
+    // Generate AI response
+    const result = await streamText({
+      system: buildSystemPrompt({
+        channel: "chatwoot",
+        persona: prompt.persona,
+        catalog: await this.getCatalog()
+      }),
+      messages: convertToModelMessages(processedMessages),
+      model,
+      tools: allTools,
+      abortSignal,
+      stopWhen: stepCountIs(10)
+    });
+
+    // Collect the full response text
+    let fullResponse = "";
+    for await (const chunk of result.textStream) {
+      fullResponse += chunk;
+    }
+
+    return fullResponse;
+  }
 
-    // Save assistant's response to conversation history
+  /**
+   * Save a Chatwoot reply to conversation history
+   */
+  async saveChatwootReply(text: string, promptVersion: string): Promise<void> {
     const assistantMessage = {
       id: generateId(),
       role: "assistant" as const,
       parts: [
         {
           type: "text" as const,
-          text: fullResponse
+          text
         }
       ],
       metadata: {
-        createdAt: new Date()
+        createdAt: new Date(),
+        promptVersion
       }
     };
 
-    await this.saveMessages([...this.messages, assistantMessage]);
+    await this.persistMessages([...this.messages, assistantMessage]);
+  }
+}
+
+/**
+ * R2 prefixes the agent writes to: prompts, catalog, orders, payment
+ * documents, escalation summaries, customer attachments and cached speech
+ * The public /r2 API cannot change them, and reads them only with the admin token
+ */
+const RESERVED_R2_PREFIXES = [
+  PROMPT_PREFIX,
+  CATALOG_PREFIX,
+  ORDER_PREFIX,
+  PAYMENT_DOCUMENT_PREFIX,
+  ESCALATION_PREFIX,
+  ATTACHMENT_PREFIX,
+  SPEECH_CACHE_PREFIX
+];
 
-    return fullResponse;
+/**
+ * Check the admin bearer token (ADMIN_API_TOKEN)
+ * Returns an error response when the request is not authorized
+ */
+function authorizeAdmin(request: Request): Response | null {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) {
+    return Response.json(
+      { success: false, error: "Admin API is not configured" },
+      { status: 503 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const expected = encoder.encode(`Bearer ${token}`);
+  const provided = encoder.encode(request.headers.get("authorization") ?? "");
+
+  // Compare every byte so the response time does not reveal the token
+  let mismatch = provided.byteLength ^ expected.byteLength;
+  for (let i = 0; i < expected.byteLength; i++) {
+    mismatch |= expected[i] ^ (provided[i] ?? 0);
+  }
+  if (mismatch !== 0) {
+    return Response.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+    );
   }
+
+  return null;
 }
 
 /**
@@ -438,113 +2944,28 @@ export default {
     //   });
     // }
 
-    // Test endpoint for payment creation
-    if (url.pathname === "/test/payment" && request.method === "POST") {
-      try {
-        const body = (await request.json()) as {
-          title: string;
-          amount: number;
-          currency?: string;
-          quantity?: number;
-          customerEmail?: string;
-          customerName?: string;
-        };
-
-        const {
-          title,
-          amount,
-          currency = "BRL",
-          quantity = 1,
-          customerEmail,
-          customerName
-        } = body;
-
-        if (!title || !amount) {
-          return Response.json(
-            { success: false, error: "title and amount are required" },
-            { status: 400 }
-          );
-        }
-
-        const preference = {
-          items: [
-            {
-              title,
-              quantity,
-              unit_price: amount,
-              currency_id: currency
-            }
-          ],
-          payer:
-            customerEmail || customerName
-              ? {
-                  email: customerEmail,
-                  name: customerName
-                }
-              : undefined,
-          auto_return: "approved" as const
-        };
-
-        console.log(
-          "[Test Payment] Creating payment with preference:",
-          JSON.stringify(preference, null, 2)
-        );
-
-        const response = await env.PAYMENT_SERVICE.fetch(
-          "https://payment-service/payment/create",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(preference)
-          }
-        );
-
-        const responseText = await response.text();
-        console.log(
-          "[Test Payment] Payment service response status:",
-          response.status
-        );
-        console.log(
-          "[Test Payment] Payment service response body:",
-          responseText
-        );
+    // R2 Storage endpoints
+    if (url.pathname.startsWith("/r2/")) {
+      const r2Manager = new R2StorageManager(env.R2_BUCKET);
+      const key = url.pathname.slice(4); // Remove "/r2/" prefix
 
-        if (!response.ok) {
+      // Keys the agent writes are only changed through the admin API, and
+      // only read with the admin token
+      if (RESERVED_R2_PREFIXES.some((prefix) => key.startsWith(prefix))) {
+        if (request.method === "PUT" || request.method === "DELETE") {
           return Response.json(
             {
               success: false,
-              error: "Payment service error",
-              status: response.status,
-              details: responseText
+              error: "This key is managed through the /admin API"
             },
-            { status: response.status }
+            { status: 403 }
           );
         }
-
-        const result = JSON.parse(responseText);
-
-        return Response.json({
-          success: true,
-          payment: result,
-          message: "Payment link created successfully"
-        });
-      } catch (error) {
-        console.error("[Test Payment] Error:", error);
-        return Response.json(
-          {
-            success: false,
-            error: error instanceof Error ? error.message : "Unknown error",
-            stack: error instanceof Error ? error.stack : undefined
-          },
-          { status: 500 }
-        );
+        const unauthorized = authorizeAdmin(request);
+        if (unauthorized) {
+          return unauthorized;
+        }
       }
-    }
-
-    // R2 Storage endpoints
-    if (url.pathname.startsWith("/r2/")) {
-      const r2Manager = new R2StorageManager(env.R2_BUCKET);
-      const key = url.pathname.slice(4); // Remove "/r2/" prefix
 
       switch (request.method) {
         case "PUT": {
@@ -672,6 +3093,20 @@ export default {
       try {
         const r2Manager = new R2StorageManager(env.R2_BUCKET);
         const prefix = url.searchParams.get("prefix") || undefined;
+
+        // A listing that can include reserved keys needs the admin token
+        const listed = prefix ?? "";
+        if (
+          RESERVED_R2_PREFIXES.some(
+            (reserved) =>
+              reserved.startsWith(listed) || listed.startsWith(reserved)
+          )
+        ) {
+          const unauthorized = authorizeAdmin(request);
+          if (unauthorized) {
+            return unauthorized;
+          }
+        }
         const limit = url.searchParams.get("limit")
           ? parseInt(url.searchParams.get("limit")!)
           : undefined;
@@ -715,6 +3150,15 @@ export default {
           case "send": {
             // Send a custom message
             const { type, data, metadata } = body;
+
+            const reserved =
+              RESERVED_QUEUE_MESSAGE_TYPES[type as QueueMessageType];
+            if (reserved) {
+              return Response.json(
+                { success: false, error: reserved },
+                { status: 400 }
+              );
+            }
             await queueManager.send({
               type: type || QueueMessageType.CUSTOM,
               timestamp: new Date().toISOString(),
@@ -873,6 +3317,19 @@ export default {
               );
             }
 
+            const reserved = messages
+              .map(
+                (message: QueueMessage) =>
+                  RESERVED_QUEUE_MESSAGE_TYPES[message.type]
+              )
+              .find(Boolean);
+            if (reserved) {
+              return Response.json(
+                { success: false, error: reserved },
+                { status: 400 }
+              );
+            }
+
             await queueManager.sendBatch(messages);
 
             return Response.json({
@@ -899,32 +3356,393 @@ export default {
       }
     }
 
-    // Chatwoot webhook endpoint
-    if (url.pathname === "/chatwoot/webhook" && request.method === "POST") {
+    // Prompt version admin endpoints
+    if (
+      url.pathname === "/admin/prompts" ||
+      url.pathname.startsWith("/admin/prompts/")
+    ) {
+      const unauthorized = authorizeAdmin(request);
+      if (unauthorized) {
+        return unauthorized;
+      }
+
+      const store = new PromptStore(new R2StorageManager(env.R2_BUCKET));
+      const personaId = url.searchParams.get("persona") || DEFAULT_PERSONA_ID;
+      const action = url.pathname.slice("/admin/prompts".length);
+
       try {
-        // Validate webhook signature if configured
-        const webhookSecret = process.env.CHATWOOT_WEBHOOK_SECRET;
-        console.log("[Chatwoot] Webhook secret configured:", !!webhookSecret);
-        console.log(
-          "[Chatwoot] Webhook secret value:",
-          webhookSecret ? "***" : "undefined"
+        // Validates the persona id before touching R2
+        getPersona(personaId);
+
+        // List versions
+        if (action === "" && request.method === "GET") {
+          const versions = await store.list(personaId);
+          const active = await store.getActiveVersion(personaId);
+          return Response.json({
+            success: true,
+            personaId,
+            active: active ?? BUILTIN_PROMPT_VERSION,
+            versions
+          });
+        }
+
+        // Publish a new version (becomes active immediately)
+        if (action === "" && request.method === "POST") {
+          const body = (await request.json()) as {
+            basePrompt?: string;
+            overlays?: Record<string, string>;
+            name?: string;
+            note?: string;
+          };
+          if (!body.basePrompt?.trim()) {
+            return Response.json(
+              { success: false, error: "basePrompt is required" },
+              { status: 400 }
+            );
+          }
+
+          const prompt = await store.publish(personaId, {
+            basePrompt: body.basePrompt,
+            overlays: body.overlays,
+            name: body.name,
+            note: body.note
+          });
+          return Response.json({ success: true, prompt }, { status: 201 });
+        }
+
+        // Diff two versions
+        if (action === "/diff" && request.method === "GET") {
+          const fromParam = url.searchParams.get("from");
+          const toParam = url.searchParams.get("to");
+          // Number("") and Number(null) are 0, so absent versions are checked first
+          const from = fromParam ? Number(fromParam) : Number.NaN;
+          const to = toParam ? Number(toParam) : Number.NaN;
+          if (!Number.isInteger(from) || !Number.isInteger(to)) {
+            return Response.json(
+              { success: false, error: "from and to must be version numbers" },
+              { status: 400 }
+            );
+          }
+
+          const sections = await store.diff(personaId, from, to);
+          return Response.json({ success: true, from, to, sections });
+        }
+
+        // Roll back to a previous version
+        if (action === "/rollback" && request.method === "POST") {
+          const body = (await request.json()) as { version?: number };
+          if (!Number.isInteger(body.version)) {
+            return Response.json(
+              { success: false, error: "version is required" },
+              { status: 400 }
+            );
+          }
+
+          const prompt = await store.rollback(
+            personaId,
+            body.version as number
+          );
+          return Response.json({ success: true, prompt });
+        }
+
+        // Fetch a single version
+        const version = Number(action.slice(1));
+        if (request.method === "GET" && Number.isInteger(version)) {
+          const prompt = await store.get(personaId, version);
+          if (!prompt) {
+            return Response.json(
+              { success: false, error: "Prompt version not found" },
+              { status: 404 }
+            );
+          }
+          return Response.json({ success: true, prompt });
+        }
+
+        return Response.json(
+          { success: false, error: "Not found" },
+          { status: 404 }
+        );
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Prompt operation failed";
+        return Response.json(
+          { success: false, error: message },
+          {
+            status:
+              message.startsWith("Prompt version not found") ||
+              message.startsWith("Unknown persona")
+                ? 404
+                : 500
+          }
+        );
+      }
+    }
+
+    // Orders across conversations, newest first
+    if (url.pathname === "/admin/orders" && request.method === "GET") {
+      const unauthorized = authorizeAdmin(request);
+      if (unauthorized) {
+        return unauthorized;
+      }
+
+      const limit = url.searchParams.has("limit")
+        ? Number(url.searchParams.get("limit"))
+        : undefined;
+      const conversationId = url.searchParams.has("conversation")
+        ? Number(url.searchParams.get("conversation"))
+        : undefined;
+      if (
+        (limit !== undefined &&
+          (!Number.isInteger(limit) ||
+            limit < 1 ||
+            limit > MAX_ORDER_PAGE_SIZE)) ||
+        (conversationId !== undefined && !Number.isInteger(conversationId))
+      ) {
+        return Response.json(
+          {
+            success: false,
+            error: `limit must be between 1 and ${MAX_ORDER_PAGE_SIZE} and conversation a Chatwoot conversation id`
+          },
+          { status: 400 }
+        );
+      }
+
+      const index = new OrderIndex(new R2StorageManager(env.R2_BUCKET));
+      const { orders, cursor } = await index.list({
+        status: url.searchParams.get("status") ?? undefined,
+        planSku: url.searchParams.get("sku") ?? undefined,
+        conversationId,
+        limit,
+        cursor: url.searchParams.get("cursor") ?? undefined
+      });
+      return Response.json({ success: true, orders, cursor });
+    }
+
+    // Payment order lookup by external reference
+    if (url.pathname.startsWith("/admin/orders/") && request.method === "GET") {
+      const unauthorized = authorizeAdmin(request);
+      if (unauthorized) {
+        return unauthorized;
+      }
+
+      const reference = decodeURIComponent(
+        url.pathname.slice("/admin/orders/".length)
+      );
+      const parsed = parsePaymentReference(reference);
+      let agentId: DurableObjectId | undefined;
+      try {
+        agentId = parsed ? env.Chat.idFromString(parsed.agentId) : undefined;
+      } catch {
+        agentId = undefined;
+      }
+      if (!agentId) {
+        return Response.json(
+          { success: false, error: "Invalid payment reference" },
+          { status: 400 }
+        );
+      }
+
+      const agent = env.Chat.get(agentId);
+      const order = await agent.getPaymentOrderDetails(reference);
+      if (!order) {
+        return Response.json(
+          { success: false, error: "Order not found" },
+          { status: 404 }
+        );
+      }
+
+      return Response.json({ success: true, order });
+    }
+
+    // Support workflows (follow-ups, escalations, surveys) of a conversation
+    const workflowsRoute = url.pathname.match(
+      /^\/admin\/conversations\/(\d+)\/workflows(?:\/([^/]+))?$/
+    );
+    if (workflowsRoute) {
+      const unauthorized = authorizeAdmin(request);
+      if (unauthorized) {
+        return unauthorized;
+      }
+
+      const [, conversationId, instanceId] = workflowsRoute;
+      const agent = env.Chat.get(
+        env.Chat.idFromName(getChatwootAgentId(Number(conversationId)))
+      );
+
+      if (!instanceId && request.method === "GET") {
+        const workflows = await agent.listSupportWorkflows();
+        return Response.json({ success: true, workflows });
+      }
+
+      // Cancel a pending workflow
+      if (instanceId && request.method === "DELETE") {
+        const workflow = await agent.cancelSupportWorkflow(
+          decodeURIComponent(instanceId)
+        );
+        if (!workflow) {
+          return Response.json(
+            { success: false, error: "Workflow not found" },
+            { status: 404 }
+          );
+        }
+        return Response.json({ success: true, workflow });
+      }
+
+      return Response.json(
+        { success: false, error: "Not found" },
+        { status: 404 }
+      );
+    }
+
+    // Cached speech eviction: expired entries, or every entry with ?all=true
+    if (url.pathname === "/admin/speech-cache") {
+      const unauthorized = authorizeAdmin(request);
+      if (unauthorized) {
+        return unauthorized;
+      }
+      if (request.method !== "DELETE") {
+        return Response.json(
+          { success: false, error: `Method ${request.method} not allowed` },
+          { status: 405, headers: { Allow: "DELETE" } }
+        );
+      }
+
+      const result = await pruneSpeechCache(
+        new R2StorageManager(env.R2_BUCKET),
+        url.searchParams.get("all") === "true"
+      );
+      return Response.json({ success: true, ...result });
+    }
+
+    // Escalation routing rules
+    if (url.pathname === "/admin/escalation-routing") {
+      const unauthorized = authorizeAdmin(request);
+      if (unauthorized) {
+        return unauthorized;
+      }
+
+      const store = new EscalationRoutingStore(
+        new R2StorageManager(env.R2_BUCKET)
+      );
+
+      try {
+        switch (request.method) {
+          case "GET":
+            return Response.json({ success: true, routing: await store.get() });
+
+          case "PUT": {
+            const routing = await store.save(await request.json());
+            return Response.json({ success: true, routing });
+          }
+
+          default:
+            return Response.json(
+              { success: false, error: `Method ${request.method} not allowed` },
+              { status: 405, headers: { Allow: "GET, PUT" } }
+            );
+        }
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return Response.json(
+            { success: false, error: "Invalid routing", issues: error.issues },
+            { status: 400 }
+          );
+        }
+        return Response.json(
+          {
+            success: false,
+            error:
+              error instanceof Error
+                ? error.message
+                : "Escalation routing error"
+          },
+          { status: 500 }
         );
+      }
+    }
+
+    // Catalog admin endpoint
+    if (url.pathname === "/admin/catalog") {
+      const unauthorized = authorizeAdmin(request);
+      if (unauthorized) {
+        return unauthorized;
+      }
+
+      const store = new CatalogStore(new R2StorageManager(env.R2_BUCKET));
+
+      try {
+        switch (request.method) {
+          case "GET":
+            return Response.json({ success: true, catalog: await store.get() });
 
-        const isValid = validateWebhookSignature(request, webhookSecret);
-        console.log("[Chatwoot] Signature validation result:", isValid);
+          case "PUT": {
+            const catalog = await store.save(await request.json());
+            return Response.json({ success: true, catalog });
+          }
+
+          default:
+            return Response.json(
+              { success: false, error: `Method ${request.method} not allowed` },
+              { status: 405, headers: { Allow: "GET, PUT" } }
+            );
+        }
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return Response.json(
+            { success: false, error: "Invalid catalog", issues: error.issues },
+            { status: 400 }
+          );
+        }
+        return Response.json(
+          {
+            success: false,
+            error: error instanceof Error ? error.message : "Catalog error"
+          },
+          { status: 500 }
+        );
+      }
+    }
 
-        if (!isValid) {
-          console.log("[Chatwoot] Validation failed - returning 401");
+    // Chatwoot webhook endpoint
+    if (url.pathname === "/chatwoot/webhook" && request.method === "POST") {
+      try {
+        // Validate webhook signature against the current and previous secret
+        const rawBody = await request.text();
+        const signature = await validateWebhookSignature(request, rawBody, [
+          process.env.CHATWOOT_WEBHOOK_SECRET,
+          process.env.CHATWOOT_WEBHOOK_SECRET_PREVIOUS
+        ]);
+
+        if (!signature.valid) {
+          console.warn(
+            "[Chatwoot] Webhook signature rejected:",
+            signature.reason
+          );
           return new Response("Unauthorized", { status: 401 });
         }
 
-        const event: ChatwootWebhookEvent = await request.json();
+        const event: ChatwootWebhookEvent = JSON.parse(rawBody);
 
+        // Only identifiers: events carry customer messages and contact data
         console.log(
-          "[Chatwoot] Full webhook event:",
-          JSON.stringify(event, null, 2)
+          `[Chatwoot] Webhook event ${event.event} (conversation ${event.conversation?.id ?? "-"}, message ${event.id})`
         );
 
+        // Assignment, label and status changes decide who answers
+        if (
+          event.event === "conversation_updated" ||
+          event.event === "conversation_status_changed" ||
+          event.event === "assignee_changed"
+        ) {
+          const conversation = event as unknown as ChatwootConversationEvent;
+          const agentStub = env.Chat.get(
+            env.Chat.idFromName(getChatwootAgentId(conversation.id))
+          );
+          const handoff =
+            await agentStub.processChatwootConversationEvent(conversation);
+          return Response.json({ status: "processed", handoff });
+        }
+
         // Only process message_created events
         if (event.event !== "message_created") {
           console.log(
@@ -937,16 +3755,7 @@ export default {
           });
         }
 
-        // Ignore outgoing messages (bot's own messages)
-        if (event.message_type === "outgoing") {
-          console.log("[Chatwoot] Ignoring outgoing message");
-          return Response.json({
-            status: "ignored",
-            reason: "outgoing message"
-          });
-        }
-
-        // Get or create agent for this conversation
+        // Replies are generated by the agent for this conversation
         const conversationId = event.conversation?.id;
         if (!conversationId) {
           console.error("[Chatwoot] No conversation_id in event");
@@ -956,63 +3765,33 @@ export default {
           );
         }
 
-        console.log(
-          "[Chatwoot] Processing message for conversation:",
-          conversationId
-        );
-        console.log("[Chatwoot] Message content:", event.content);
-
-        // Get Durable Object for this conversation
-        const agentId = getChatwootAgentId(conversationId);
-        const durableObjectId = env.Chat.idFromName(agentId);
-        const agentStub = env.Chat.get(durableObjectId);
-
-        console.log(
-          "[Chatwoot] Calling processChatwootMessage on Durable Object"
-        );
-        // Process the message and generate response
-        const response = await agentStub.processChatwootMessage(event);
-        console.log("[Chatwoot] Response generated:", response ? "YES" : "NO");
-
-        // Send response back to Chatwoot
-        if (response) {
-          console.log(
-            "[Chatwoot] Attempting to send response back to Chatwoot"
+        // Outgoing messages are the bot's own, a human agent's reply or a
+        // private note; only the last two can change who answers
+        if (event.message_type === "outgoing") {
+          const agentStub = env.Chat.get(
+            env.Chat.idFromName(getChatwootAgentId(conversationId))
           );
-          // Only send if Chatwoot is fully configured
-          if (
-            process.env.CHATWOOT_BASE_URL &&
-            process.env.CHATWOOT_API_KEY &&
-            process.env.CHATWOOT_ACCOUNT_ID
-          ) {
-            console.log("[Chatwoot] Chatwoot credentials configured");
-            const chatwootClient = new ChatwootClient(
-              process.env.CHATWOOT_BASE_URL,
-              process.env.CHATWOOT_API_KEY,
-              process.env.CHATWOOT_ACCOUNT_ID
-            );
-
-            console.log(
-              "[Chatwoot] Sending message to conversation:",
-              conversationId
-            );
-            await chatwootClient.sendMessage(conversationId, response);
-            console.log("[Chatwoot] Message sent successfully!");
-          } else {
-            console.log(
-              "[Chatwoot] Skipping response send - Chatwoot not configured"
-            );
-            console.log("[Chatwoot] Config check:", {
-              hasBaseUrl: !!process.env.CHATWOOT_BASE_URL,
-              hasApiKey: !!process.env.CHATWOOT_API_KEY,
-              hasAccountId: !!process.env.CHATWOOT_ACCOUNT_ID
+          const handoff = await agentStub.processChatwootAgentMessage(event);
+          if (!handoff) {
+            console.log("[Chatwoot] Ignoring outgoing message");
+            return Response.json({
+              status: "ignored",
+              reason: "outgoing message"
             });
           }
-        } else {
-          console.log("[Chatwoot] No response generated by AI");
+          return Response.json({ status: "processed", handoff });
         }
 
-        return Response.json({ status: "success", response });
+        console.log(
+          "[Chatwoot] Queueing message for conversation:",
+          conversationId
+        );
+
+        // Acknowledge immediately; the reply is generated by the queue consumer
+        const queueManager = new QueueManager(env.MY_QUEUE);
+        await queueManager.sendChatwootInbound(event);
+
+        return Response.json({ status: "queued" }, { status: 202 });
       } catch (error) {
         console.error("Error processing Chatwoot webhook:", error);
         return Response.json(
@@ -1043,15 +3822,25 @@ export default {
    */
   async queue(batch: MessageBatch, env: Env, _ctx: ExecutionContext) {
     const messageRouter = new MessageRouter();
+    messageRouter.registerProcessor(
+      QueueMessageType.CHATWOOT_INBOUND,
+      new ChatwootInboundProcessor(env)
+    );
+    messageRouter.registerProcessor(
+      QueueMessageType.PAYMENT_STATUS,
+      new PaymentStatusProcessor(env)
+    );
 
+    // Messages of one conversation keep their order through the Chat agent,
+    // which defers the ones behind a failed message
     console.log(
       `[Queue] Processing batch of ${batch.messages.length} messages`
     );
 
     for (const message of batch.messages) {
-      try {
-        const queueMessage = message.body as QueueMessage;
+      const queueMessage = message.body as QueueMessage;
 
+      try {
         console.log(
           `[Queue] Processing message type: ${queueMessage.type} at ${queueMessage.timestamp}`
         );
@@ -1065,8 +3854,8 @@ export default {
       } catch (error) {
         console.error(`[Queue] Error processing message:`, error);
 
-        // Retry the message (it will be retried based on max_retries config)
-        message.retry();
+        // Retry the message (after max_retries it moves to the dead-letter queue)
+        message.retry({ delaySeconds: QUEUE_RETRY_DELAY_SECONDS });
       }
     }
 
@@ -1076,3 +3865,4 @@ export default {
 
 // Export workflow
 export { CustomerSupportWorkflow } from "./workflows/customer-support";
+export { PaymentRecoveryWorkflow } from "./workflows/payment-recovery";
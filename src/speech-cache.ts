@@ -0,0 +1,183 @@
+/**
+ * Speech cache
+ * Greetings, plan explanations and survey prompts are spoken over and over;
+ * synthesized audio is kept in R2 under tts-cache/, keyed by a hash of the
+ * text and the voice settings, so a repeated phrase costs no ElevenLabs
+ * credits and no round trip. Entries expire after a TTL: an expired entry
+ * is deleted when it is next read, and `pruneSpeechCache` sweeps the rest.
+ */
+import {
+  ElevenLabsClient,
+  type TextToSpeechOptions,
+  type TextToSpeechResult
+} from "./elevenlabs";
+import type { R2StorageManager } from "./r2";
+
+/**
+ * R2 prefix reserved for cached speech (written only by the speech cache)
+ */
+export const SPEECH_CACHE_PREFIX = "tts-cache/";
+
+/**
+ * How long cached speech is reused when SPEECH_CACHE_TTL_DAYS is not set
+ */
+export const DEFAULT_SPEECH_CACHE_TTL_DAYS = 30;
+
+/**
+ * Synthesized speech, and whether it came from the cache
+ */
+export interface CachedSpeechResult extends TextToSpeechResult {
+  cached: boolean;
+  key: string;
+}
+
+/**
+ * Hits and misses of one cache instance, for the logs
+ */
+export interface SpeechCacheStats {
+  hits: number;
+  misses: number;
+  /** Expired entries deleted on read */
+  expired: number;
+}
+
+/**
+ * Time to live of cached speech (SPEECH_CACHE_TTL_DAYS)
+ */
+export function getSpeechCacheTtlDays(): number {
+  const days = Number(process.env.SPEECH_CACHE_TTL_DAYS);
+  return Number.isFinite(days) && days > 0
+    ? days
+    : DEFAULT_SPEECH_CACHE_TTL_DAYS;
+}
+
+/**
+ * ElevenLabs client that answers repeated phrases from R2
+ */
+export class CachedSpeechClient {
+  readonly stats: SpeechCacheStats = { hits: 0, misses: 0, expired: 0 };
+
+  constructor(
+    private client: ElevenLabsClient,
+    private storage: R2StorageManager,
+    private ttlDays: number = getSpeechCacheTtlDays()
+  ) {}
+
+  /**
+   * Speech for the text, from the cache when the same text was spoken with
+   * the same voice, model and format before
+   */
+  async textToSpeech(
+    options: TextToSpeechOptions
+  ): Promise<CachedSpeechResult> {
+    const settings = {
+      text: options.text,
+      voiceId: options.voiceId ?? ElevenLabsClient.DEFAULT_VOICE_ID,
+      modelId: options.modelId ?? ElevenLabsClient.DEFAULT_MODEL_ID,
+      outputFormat:
+        options.outputFormat ?? ElevenLabsClient.DEFAULT_OUTPUT_FORMAT
+    };
+    const key = await speechCacheKey(settings);
+
+    const object = await this.storage.download(key);
+    if (object) {
+      if (Number(object.customMetadata?.expiresAt) > Date.now()) {
+        this.stats.hits++;
+        console.log(
+          `[SpeechCache] Hit ${key} (${object.size} bytes, ${this.stats.hits} hits / ${this.stats.misses} misses)`
+        );
+        return {
+          audio: await object.arrayBuffer(),
+          contentType: object.httpMetadata?.contentType ?? "audio/mpeg",
+          cached: true,
+          key
+        };
+      }
+      await this.storage.delete(key);
+      this.stats.expired++;
+    }
+
+    this.stats.misses++;
+    console.log(
+      `[SpeechCache] Miss ${key} (${this.stats.hits} hits / ${this.stats.misses} misses)`
+    );
+    const result = await this.client.textToSpeech(settings);
+    const now = Date.now();
+    await this.storage.upload({
+      key,
+      data: result.audio,
+      contentType: result.contentType,
+      metadata: {
+        provider: "elevenlabs",
+        voiceId: settings.voiceId,
+        modelId: settings.modelId,
+        outputFormat: settings.outputFormat,
+        characters: String(settings.text.length),
+        createdAt: String(now),
+        expiresAt: String(now + this.ttlDays * 24 * 60 * 60 * 1000)
+      }
+    });
+    return { ...result, cached: false, key };
+  }
+}
+
+/**
+ * Delete expired cache entries (every entry with `all`)
+ * Returns how many entries were deleted and kept, and the size of the kept
+ */
+export async function pruneSpeechCache(
+  storage: R2StorageManager,
+  all = false
+): Promise<{ deleted: number; kept: number; keptBytes: number }> {
+  const result = { deleted: 0, kept: 0, keptBytes: 0 };
+  const now = Date.now();
+  let cursor: string | undefined;
+  do {
+    const page = await storage.list({
+      prefix: SPEECH_CACHE_PREFIX,
+      cursor,
+      include: ["customMetadata"]
+    });
+    for (const file of page.files) {
+      if (all || !(Number(file.customMetadata?.expiresAt) > now)) {
+        await storage.delete(file.key);
+        result.deleted++;
+      } else {
+        result.kept++;
+        result.keptBytes += file.size;
+      }
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  console.log(
+    `[SpeechCache] Pruned ${result.deleted} entries, ${result.kept} kept`
+  );
+  return result;
+}
+
+/**
+ * R2 key of the cached speech: a SHA-256 of the text and voice settings
+ */
+export async function speechCacheKey(settings: {
+  text: string;
+  voiceId: string;
+  modelId: string;
+  outputFormat: string;
+}): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(
+      JSON.stringify([
+        settings.text,
+        settings.voiceId,
+        settings.modelId,
+        settings.outputFormat
+      ])
+    )
+  );
+  const hash = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+  return `${SPEECH_CACHE_PREFIX}${hash}.${settings.outputFormat.split("_")[0]}`;
+}
@@ -0,0 +1,140 @@
+/**
+ * Speech synthesis providers
+ * Text is spoken by the first provider that succeeds: ElevenLabs (through
+ * the speech cache) while the API key is set and the plan has credits, then
+ * Workers AI MeloTTS, which is always bound and costs no ElevenLabs quota.
+ */
+import { ElevenLabsClient, type TextToSpeechResult } from "./elevenlabs";
+
+/**
+ * Workers AI text-to-speech model, used when ElevenLabs fails
+ */
+export const WORKERS_AI_SPEECH_MODEL = "@cf/myshell-ai/melotts";
+
+export type VoiceName = keyof ReturnType<typeof ElevenLabsClient.getVoiceIds>;
+
+/**
+ * Named ElevenLabs voices the model and operators can choose from
+ */
+export const VOICE_NAMES = Object.keys(ElevenLabsClient.getVoiceIds()) as [
+  VoiceName,
+  ...VoiceName[]
+];
+
+export const SPEECH_LANGUAGES = ["portuguese", "english", "spanish"] as const;
+
+export type SpeechLanguage = (typeof SPEECH_LANGUAGES)[number];
+
+/**
+ * What to speak and how; providers ignore settings they do not support
+ */
+export interface SpeechOptions {
+  text: string;
+  /** ElevenLabs voice (default: rachel) */
+  voice?: VoiceName;
+  /** Language of the text (default: portuguese) */
+  language?: SpeechLanguage;
+}
+
+/**
+ * Voice chosen for a conversation
+ */
+export type VoiceSettings = Pick<SpeechOptions, "voice" | "language">;
+
+export interface SpeechResult extends TextToSpeechResult {
+  /** Provider that spoke the text */
+  provider: string;
+}
+
+/**
+ * A text-to-speech provider
+ */
+export interface SpeechSynthesizer {
+  readonly name: string;
+  synthesize(options: SpeechOptions): Promise<SpeechResult>;
+}
+
+/**
+ * ElevenLabs voices (pass the cached client to reuse repeated phrases)
+ */
+export class ElevenLabsSynthesizer implements SpeechSynthesizer {
+  readonly name = "elevenlabs";
+
+  constructor(private client: Pick<ElevenLabsClient, "textToSpeech">) {}
+
+  async synthesize({ text, voice }: SpeechOptions): Promise<SpeechResult> {
+    const result = await this.client.textToSpeech({
+      text,
+      voiceId: voice ? ElevenLabsClient.getVoiceIds()[voice] : undefined
+    });
+    return {
+      audio: result.audio,
+      contentType: result.contentType,
+      provider: this.name
+    };
+  }
+}
+
+/**
+ * Workers AI MeloTTS
+ * MeloTTS has no Portuguese voice; Portuguese is read with the Spanish one,
+ * which keeps it understandable, with an accent. Voices are not selectable
+ */
+export class WorkersAiSynthesizer implements SpeechSynthesizer {
+  readonly name = "workers-ai";
+
+  private static readonly LANGUAGES: Record<SpeechLanguage, string> = {
+    portuguese: "es",
+    english: "en",
+    spanish: "es"
+  };
+
+  constructor(private ai: Ai) {}
+
+  async synthesize({
+    text,
+    language = "portuguese"
+  }: SpeechOptions): Promise<SpeechResult> {
+    const result = await this.ai.run(WORKERS_AI_SPEECH_MODEL, {
+      prompt: text,
+      lang: WorkersAiSynthesizer.LANGUAGES[language]
+    });
+    const audio =
+      result instanceof Uint8Array
+        ? result
+        : Uint8Array.from(atob(result.audio), (char) => char.charCodeAt(0));
+    return {
+      audio: audio.slice().buffer,
+      contentType: "audio/mpeg",
+      provider: this.name
+    };
+  }
+}
+
+/**
+ * Providers tried in order: an error (quota exhausted, missing voice, outage)
+ * falls back to the next one; the last error is thrown when all fail
+ */
+export class SpeechSynthesizerChain implements SpeechSynthesizer {
+  readonly name: string;
+
+  constructor(private synthesizers: SpeechSynthesizer[]) {
+    this.name = synthesizers.map(({ name }) => name).join(" > ");
+  }
+
+  async synthesize(options: SpeechOptions): Promise<SpeechResult> {
+    let lastError: unknown = new Error("No speech provider configured");
+    for (const synthesizer of this.synthesizers) {
+      try {
+        return await synthesizer.synthesize(options);
+      } catch (error) {
+        console.warn(
+          `[Speech] ${synthesizer.name} failed, trying the next provider:`,
+          error
+        );
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
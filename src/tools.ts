@@ -2,14 +2,18 @@
  * Tool definitions for the AI chat agent
  * Tools can either require human confirmation or execute automatically
  */
-import { tool, type ToolSet } from "ai";
+import { tool, type ToolCallOptions, type ToolSet } from "ai";
 import { z } from "zod/v3";
 
 import type { Chat } from "./server";
 import { getCurrentAgent } from "agents";
 import { scheduleSchema } from "agents/schedule";
 import { ChatwootClient, getChatwootConversationId } from "./chatwoot";
-import { ElevenLabsClient } from "./elevenlabs";
+import { VOICE_REPLY_MODES } from "./voice-replies";
+import { SPEECH_LANGUAGES, VOICE_NAMES } from "./speech";
+import { findPlan, formatPrice, getPlanFeatures, type Plan } from "./catalog";
+import { PAYMENT_METHODS } from "./payment-guardrails";
+import { ESCALATION_CATEGORIES } from "./escalation";
 
 /**
  * Weather information tool that requires human confirmation
@@ -198,175 +202,349 @@ const resolveChatwootConversation = tool({
  * Payment Tools (Mercado Pago Integration via Payment Workflow)
  */
 
+/**
+ * Catalog Tools
+ */
+
+/**
+ * Tool to list the plans on sale
+ */
+const getPlans = tool({
+  description:
+    "List the subscription plans with SKU, price, limits and features",
+  inputSchema: z.object({}),
+  execute: async () => {
+    const { agent } = getCurrentAgent<Chat>();
+    const catalog = await agent!.getCatalog();
+
+    return catalog.plans.map((plan) => ({
+      sku: plan.sku,
+      name: plan.name,
+      price: formatPrice(plan.price),
+      billingPeriod: plan.billingPeriod,
+      audience: plan.audience,
+      limits: plan.limits,
+      features: getPlanFeatures(catalog, plan),
+      popular: plan.popular ?? false
+    }));
+  }
+});
+
+/**
+ * Tool to compare plans side by side
+ */
+const comparePlans = tool({
+  description:
+    "Compare two or more plans side by side: price, limits and which features each one has",
+  inputSchema: z.object({
+    skus: z.array(z.string()).min(2).describe("SKUs of the plans to compare")
+  }),
+  execute: async ({ skus }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const catalog = await agent!.getCatalog();
+
+    const plans = skus.map((sku) => findPlan(catalog, sku));
+    const unknown = skus.filter((_, index) => !plans[index]);
+    if (unknown.length > 0) {
+      return `Unknown plan SKU: ${unknown.join(", ")}. Available: ${catalog.plans.map((plan) => plan.sku).join(", ")}`;
+    }
+
+    const compared = plans as Plan[];
+    const featuresBySku = new Map(
+      compared.map((plan) => [plan.sku, getPlanFeatures(catalog, plan)])
+    );
+    const allFeatures = [...new Set([...featuresBySku.values()].flat())];
+
+    return {
+      plans: compared.map((plan) => ({
+        sku: plan.sku,
+        name: plan.name,
+        price: formatPrice(plan.price),
+        contacts: plan.limits.contacts ?? "unlimited",
+        users: plan.limits.users ?? "unlimited"
+      })),
+      features: allFeatures.map((feature) => ({
+        feature,
+        availability: Object.fromEntries(
+          compared.map((plan) => [
+            plan.sku,
+            featuresBySku.get(plan.sku)!.includes(feature)
+          ])
+        )
+      }))
+    };
+  }
+});
+
 /**
  * Tool to create a payment link via Mercado Pago
+ * Title and price come from the catalog, never from the model, and the
+ * request must pass the payment guardrails (see payment-guardrails.ts)
  */
 const createPayment = tool({
   description:
-    "Create a payment link using Mercado Pago for the customer to complete their purchase",
+    "Create a Mercado Pago payment for a plan from the catalog: a checkout link (default), a PIX code with QR image, or a boleto. Title and price are resolved from the plan SKU. Boleto needs the customer's full name and CPF/CNPJ. If the request is rejected, follow the `recovery` hint and call again",
   inputSchema: z.object({
-    title: z.string().describe("Product or service title"),
-    amount: z.number().describe("Payment amount in the currency"),
-    currency: z.string().optional().describe("Currency code (default: BRL)"),
-    quantity: z.number().optional().describe("Quantity of items (default: 1)"),
-    customerEmail: z.string().email().optional().describe("Customer email"),
+    planSku: z.string().describe("SKU of the chosen plan (see getPlans)"),
+    customerEmail: z
+      .string()
+      .describe("Customer email (required, ask the customer for it)"),
     customerName: z.string().optional().describe("Customer name"),
-    externalReference: z
+    quantity: z
+      .number()
+      .optional()
+      .describe("Number of subscriptions of the plan (default: 1)"),
+    currency: z.string().optional().describe("Currency code (default: BRL)"),
+    quotedAmount: z
+      .number()
+      .optional()
+      .describe("Total price you told the customer, if any"),
+    customerCountry: z
       .string()
       .optional()
-      .describe("External reference ID for tracking")
+      .describe("Customer country as ISO code (default: BR)"),
+    paymentMethod: z
+      .enum(PAYMENT_METHODS)
+      .optional()
+      .describe(
+        "checkout (link with every method), pix or boleto (default: checkout)"
+      ),
+    customerDocument: z
+      .string()
+      .optional()
+      .describe("Customer CPF or CNPJ (required for boleto)")
   }),
-  execute: async ({
-    title,
-    amount,
-    currency = "BRL",
-    quantity = 1,
-    customerEmail,
-    customerName,
-    externalReference
-  }) => {
-    const { env } = getCurrentAgent<Chat>();
+  execute: async (input) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const result = await agent!.createPaymentLink(input);
 
-    if (!env?.PAYMENT_SERVICE) {
-      return "Payment service is not configured";
+    if (result.status === "rejected") {
+      // Structured so the model can fix the call instead of apologizing
+      return { success: false, error: result.error };
+    }
+    if (result.status === "failed") {
+      return result.message;
     }
 
-    try {
-      const preference = {
-        items: [
-          {
-            title,
-            quantity,
-            unit_price: amount,
-            currency_id: currency
-          }
-        ],
-        payer:
-          customerEmail || customerName
-            ? {
-                email: customerEmail,
-                name: customerName
-              }
-            : undefined,
-        external_reference: externalReference,
-        auto_return: "approved" as const
-      };
-
-      const response = await env.PAYMENT_SERVICE.fetch(
-        "https://payment-service/payment/create",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(preference)
-        }
-      );
+    const { payment, charge } = result;
+    const product = `${payment.plan.paymentTitle}${payment.quantity > 1 ? ` (x${payment.quantity})` : ""}`;
+    const expires = charge?.expiresAt
+      ? `\n⏰ **Vencimento:** ${new Date(charge.expiresAt).toLocaleDateString("pt-BR", { timeZone: "America/Sao_Paulo" })}`
+      : "";
+    const sent = charge?.delivered
+      ? `\n\n${charge.method === "pix" ? "O QR Code" : "O PDF do boleto"} já foi enviado nesta conversa.`
+      : "";
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[Payment] Payment service error:", errorText);
-
-        // Try to parse error as JSON for better error handling
-        try {
-          const errorData = JSON.parse(errorText);
-          if (errorData.error) {
-            return `Não foi possível criar o link de pagamento. Motivo: ${errorData.error}`;
-          }
-        } catch {
-          // If not JSON, use the raw error text
-        }
-
-        return `Não foi possível criar o link de pagamento no momento. Por favor, tente novamente em alguns instantes ou solicite ajuda de um atendente humano.`;
-      }
+    if (charge?.method === "pix") {
+      return `✅ PIX gerado com sucesso!
 
-      const result = (await response.json()) as {
-        success: boolean;
-        preference_id: string;
-        init_point: string;
-        sandbox_init_point: string;
-      };
-
-      // Check if we actually got a valid payment link
-      if (!result.init_point) {
-        console.error("[Payment] No payment link in response:", result);
-        return `Ocorreu um erro ao gerar o link de pagamento. Por favor, entre em contato com nossa equipe de suporte.`;
-      }
+📋 **PIX copia e cola:**
+${charge.code}
+
+💳 **Valor:** ${formatPrice(payment.total)}
+📦 **Produto:** ${product}${expires}${sent}
+
+Abra o app do seu banco, escolha PIX copia e cola (ou leia o QR Code) e confirme o pagamento. A confirmação é imediata.`;
+    }
+    if (charge?.method === "boleto") {
+      return `✅ Boleto gerado com sucesso!
+
+🔢 **Código de barras:** ${charge.code}
+📄 **Boleto:** ${charge.documentUrl ?? "enviado nesta conversa"}
 
-      return `✅ Link de pagamento criado com sucesso!
+💳 **Valor:** ${formatPrice(payment.total)}
+📦 **Produto:** ${product}${expires}${sent}
 
-🔗 **Link de Pagamento:** ${result.init_point}
+O pagamento do boleto pode levar até 3 dias úteis para ser confirmado.`;
+    }
+
+    return `✅ Link de pagamento criado com sucesso!
+
+🔗 **Link de Pagamento:** ${result.initPoint}
 
 Clique no link acima para finalizar seu pagamento de forma segura através do Mercado Pago.
 
-💳 **Valor:** R$ ${amount.toFixed(2)}
-📦 **Produto:** ${title}
+💳 **Valor:** ${formatPrice(payment.total)}
+📦 **Produto:** ${product}
 
 Após a confirmação do pagamento, você receberá todas as informações de acesso por e-mail.`;
-    } catch (error) {
-      console.error("Error creating payment", error);
-      return `Ocorreu um erro inesperado ao processar o pagamento. Por favor, tente novamente ou solicite ajuda de um atendente humano. Detalhes técnicos: ${error}`;
-    }
   }
 });
 
 /**
  * Tool to check payment status
+ * Without a payment id it reports the customer's last order in this conversation
  */
 const checkPaymentStatus = tool({
-  description: "Check the status of a payment using its payment ID",
+  description:
+    'Check the status of the customer\'s payment. Omit paymentId to check their most recent order (e.g. "did my payment go through?"); only pass it if the customer gives a Mercado Pago payment ID',
   inputSchema: z.object({
-    paymentId: z.string().describe("The payment ID to check")
+    paymentId: z
+      .string()
+      .optional()
+      .describe("Mercado Pago payment ID, if the customer provided one")
   }),
   execute: async ({ paymentId }) => {
-    const { env } = getCurrentAgent<Chat>();
+    const { agent } = getCurrentAgent<Chat>();
+    const result = await agent!.checkPaymentStatus(paymentId);
 
-    if (!env?.PAYMENT_SERVICE) {
-      return "Payment service is not configured";
+    if (result.status !== "found") {
+      return result.message;
     }
 
-    try {
-      const response = await env.PAYMENT_SERVICE.fetch(
-        `https://payment-service/payment/status?id=${paymentId}`
-      );
-
-      if (!response.ok) {
-        return `Payment not found or error checking status`;
+    const statusMessages: Record<string, string> = {
+      approved: "✅ Approved - Payment completed successfully",
+      pending: "⏳ Pending - Waiting for payment",
+      in_process: "🔄 In Process - Payment being processed",
+      rejected: "❌ Rejected - Payment was rejected",
+      refunded: "↩️ Refunded - Payment was refunded",
+      cancelled: "🚫 Cancelled - Payment was cancelled"
+    };
+
+    const { order, payment } = result;
+    if (!payment) {
+      if (!order) {
+        return "Payment not found";
       }
+      // Link created but not paid yet
+      return `Order ${order.planSku}${order.quantity > 1 ? ` (x${order.quantity})` : ""}:
+
+Status: ${statusMessages.pending}
+Amount: ${formatPrice(order.amount)}
+Created: ${order.createdAt}
+${order.initPoint ? `Payment link: ${order.initPoint}` : ""}`;
+    }
 
-      const payment = (await response.json()) as {
-        id: number;
-        status: string;
-        status_detail: string;
-        amount: number;
-        currency: string;
-        description: string;
-        external_reference?: string;
-        payer_email: string;
-      };
-
-      const statusMessages: Record<string, string> = {
-        approved: "✅ Approved - Payment completed successfully",
-        pending: "⏳ Pending - Waiting for payment",
-        in_process: "🔄 In Process - Payment being processed",
-        rejected: "❌ Rejected - Payment was rejected",
-        refunded: "↩️ Refunded - Payment was refunded",
-        cancelled: "🚫 Cancelled - Payment was cancelled"
-      };
-
-      return `Payment Status for ID ${payment.id}:
+    return `Payment Status for ID ${payment.id}:
 
 Status: ${statusMessages[payment.status] || payment.status}
 Amount: ${payment.currency} ${payment.amount}
 Description: ${payment.description}
-Payer Email: ${payment.payer_email}
-${payment.external_reference ? `Reference: ${payment.external_reference}` : ""}
+${payment.payer_email ? `Payer Email: ${payment.payer_email}` : ""}
+${order ? `Plan: ${order.planSku}` : ""}
 ${payment.status_detail ? `Details: ${payment.status_detail}` : ""}`;
-    } catch (error) {
-      console.error("Error checking payment status", error);
-      return `Error checking payment status: ${error}`;
+  }
+});
+
+const SUBSCRIPTION_STATUS_LABELS: Record<string, string> = {
+  pending: "⏳ Aguardando autorização do cliente",
+  authorized: "✅ Ativa",
+  paused: "⏸️ Pausada",
+  cancelled: "🚫 Cancelada"
+};
+
+/**
+ * Tool to start a recurring monthly subscription via Mercado Pago
+ * Same catalog pricing and guardrails as createPayment
+ */
+const createSubscription = tool({
+  description:
+    "Start a recurring subscription (charged automatically every billing period) for a plan from the catalog. Use when the customer wants automatic monthly billing instead of a one-off payment. If the request is rejected, follow the `recovery` hint and call again",
+  inputSchema: z.object({
+    planSku: z.string().describe("SKU of the chosen plan (see getPlans)"),
+    customerEmail: z
+      .string()
+      .describe("Customer email (required, ask the customer for it)"),
+    customerName: z.string().optional().describe("Customer name"),
+    quotedAmount: z
+      .number()
+      .optional()
+      .describe("Price per period you told the customer, if any"),
+    customerCountry: z
+      .string()
+      .optional()
+      .describe("Customer country as ISO code (default: BR)")
+  }),
+  execute: async (input) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const result = await agent!.createSubscription(input);
+
+    if (result.status === "rejected") {
+      return { success: false, error: result.error };
     }
+    if (result.status !== "created") {
+      return "message" in result ? result.message : result.status;
+    }
+
+    const { subscription } = result;
+    return `✅ Assinatura criada com sucesso!
+
+🔗 **Link para ativar a assinatura:** ${subscription.initPoint}
+
+Ao autorizar no Mercado Pago, a cobrança de ${formatPrice(subscription.amount)} será feita automaticamente a cada período, até que a assinatura seja cancelada.`;
+  }
+});
+
+/**
+ * Tool to check the customer's subscription
+ */
+const checkSubscriptionStatus = tool({
+  description:
+    "Check the status and next charge date of the customer's subscription started in this conversation",
+  inputSchema: z.object({}),
+  execute: async () => {
+    const { agent } = getCurrentAgent<Chat>();
+    const result = await agent!.getSubscriptionStatus();
+
+    if (result.status !== "found") {
+      return "message" in result ? result.message : result.status;
+    }
+
+    const { subscription, nextPaymentDate } = result;
+    return `Subscription ${subscription.planSku}:
+
+Status: ${SUBSCRIPTION_STATUS_LABELS[subscription.status] ?? subscription.status}
+Amount: ${formatPrice(subscription.amount)}
+${nextPaymentDate ? `Next charge: ${nextPaymentDate}` : ""}
+${subscription.status === "pending" && subscription.initPoint ? `Activation link: ${subscription.initPoint}` : ""}`;
+  }
+});
+
+/**
+ * Tool to cancel the customer's subscription
+ * Only subscriptions started in this conversation can be cancelled
+ */
+const cancelSubscription = tool({
+  description:
+    "Cancel the customer's subscription started in this conversation. Only call after the customer explicitly confirmed they want to cancel",
+  inputSchema: z.object({}),
+  execute: async () => {
+    const { agent } = getCurrentAgent<Chat>();
+    const result = await agent!.cancelSubscription();
+
+    if (result.status !== "cancelled") {
+      return "message" in result ? result.message : result.status;
+    }
+
+    return `🚫 Assinatura ${result.subscription.planSku} cancelada. Não haverá novas cobranças.`;
   }
 });
 
+/**
+ * Refund and cancellation tools
+ * Money leaves the company, so these have no execute function: an operator
+ * approves each call (amount, payment id and reason) before it runs
+ */
+const paymentActionSchema = z.object({
+  paymentId: z
+    .string()
+    .describe("Mercado Pago payment ID (see checkPaymentStatus)"),
+  amount: z.number().describe("Amount in BRL"),
+  reason: z.string().describe("Why the customer asked for it")
+});
+
+const refundPayment = tool({
+  description:
+    "Refund an approved payment from this conversation, fully or partially. Use the payment ID from checkPaymentStatus and pass the amount to refund (the full payment amount for a full refund). Needs an operator's approval",
+  inputSchema: paymentActionSchema
+});
+
+const cancelPayment = tool({
+  description:
+    "Cancel a pending payment from this conversation (not yet approved, e.g. an unpaid boleto). Pass the payment amount. Approved payments must be refunded instead. Needs an operator's approval",
+  inputSchema: paymentActionSchema
+});
+
 /**
  * Workflow Tools (Customer Support Automation)
  */
@@ -387,9 +565,9 @@ const scheduleFollowUp = tool({
       .describe("Custom follow-up message (optional)")
   }),
   execute: async ({ delayMinutes, message }) => {
-    const { agent, env } = getCurrentAgent<Chat>();
+    const { agent } = getCurrentAgent<Chat>();
 
-    if (!env?.CUSTOMER_SUPPORT_WORKFLOW) {
+    if (!agent?.hasSupportWorkflows()) {
       return "Workflow service is not configured";
     }
 
@@ -399,17 +577,15 @@ const scheduleFollowUp = tool({
     }
 
     try {
-      const instance = await env.CUSTOMER_SUPPORT_WORKFLOW.create({
-        params: {
-          conversationId,
-          customerId: 0, // Will be populated from conversation
-          action: "follow_up",
-          delayMinutes,
-          message
-        }
+      const instanceId = await agent!.startSupportWorkflow({
+        conversationId,
+        customerId: 0, // Will be populated from conversation
+        action: "follow_up",
+        delayMinutes,
+        message
       });
 
-      return `Follow-up scheduled successfully! Workflow ID: ${instance.id}. The message will be sent in ${delayMinutes} minutes.`;
+      return `Follow-up scheduled successfully! Workflow ID: ${instanceId}. The message will be sent in ${delayMinutes} minutes, unless the customer replies first.`;
     } catch (error) {
       console.error("Error scheduling follow-up workflow", error);
       return `Error scheduling follow-up: ${error}`;
@@ -424,12 +600,18 @@ const escalateToHuman = tool({
   description:
     "Escalate the current conversation to a human agent when the AI cannot help or when there are technical issues (like payment errors)",
   inputSchema: z.object({
-    reason: z.string().describe("Reason for escalation")
+    reason: z.string().describe("Reason for escalation"),
+    category: z
+      .enum(ESCALATION_CATEGORIES)
+      .optional()
+      .describe(
+        "What the escalation is about: billing (payments, refunds), technical, sales (discounts, custom plans), complaint or other"
+      )
   }),
-  execute: async ({ reason }) => {
-    const { agent, env } = getCurrentAgent<Chat>();
+  execute: async ({ reason, category }) => {
+    const { agent } = getCurrentAgent<Chat>();
 
-    if (!env?.CUSTOMER_SUPPORT_WORKFLOW) {
+    if (!agent?.hasSupportWorkflows()) {
       return "Esta funcionalidade está disponível apenas via Chatwoot. Por favor, entre em contato através do nosso chat de suporte.";
     }
 
@@ -439,18 +621,17 @@ const escalateToHuman = tool({
     }
 
     try {
-      const instance = await env.CUSTOMER_SUPPORT_WORKFLOW.create({
-        params: {
-          conversationId,
-          customerId: 0,
-          action: "escalate",
-          message: reason
-        }
+      const instanceId = await agent!.startSupportWorkflow({
+        conversationId,
+        customerId: 0,
+        action: "escalate",
+        category,
+        message: reason
       });
 
       return `✅ Solicitação encaminhada com sucesso para nossa equipe de atendimento!
 
-📋 **Protocolo:** ${instance.id}
+📋 **Protocolo:** ${instanceId}
 📧 **Motivo:** ${reason}
 
 Um de nossos especialistas entrará em contato em breve para ajudá-lo.`;
@@ -474,9 +655,9 @@ const sendSatisfactionSurvey = tool({
       .describe("Delay before sending survey (default: 5 minutes)")
   }),
   execute: async ({ delayMinutes = 5 }) => {
-    const { agent, env } = getCurrentAgent<Chat>();
+    const { agent } = getCurrentAgent<Chat>();
 
-    if (!env?.CUSTOMER_SUPPORT_WORKFLOW) {
+    if (!agent?.hasSupportWorkflows()) {
       return "Workflow service is not configured";
     }
 
@@ -486,16 +667,14 @@ const sendSatisfactionSurvey = tool({
     }
 
     try {
-      const instance = await env.CUSTOMER_SUPPORT_WORKFLOW.create({
-        params: {
-          conversationId,
-          customerId: 0,
-          action: "send_survey",
-          delayMinutes
-        }
+      const instanceId = await agent!.startSupportWorkflow({
+        conversationId,
+        customerId: 0,
+        action: "send_survey",
+        delayMinutes
       });
 
-      return `Satisfaction survey scheduled! Workflow ID: ${instance.id}. Survey will be sent in ${delayMinutes} minutes.`;
+      return `Satisfaction survey scheduled! Workflow ID: ${instanceId}. Survey will be sent in ${delayMinutes} minutes.`;
     } catch (error) {
       console.error("Error scheduling survey", error);
       return `Error scheduling survey: ${error}`;
@@ -504,32 +683,27 @@ const sendSatisfactionSurvey = tool({
 });
 
 /**
- * ElevenLabs Text-to-Speech Tool
+ * Text-to-Speech Tool
+ * Spoken by ElevenLabs, or by Workers AI when ElevenLabs is not configured
+ * or fails
  */
 const textToSpeech = tool({
   description:
-    "Convert text to speech audio using ElevenLabs and send it to the customer via Chatwoot",
+    "Convert text to speech audio and send it to the customer via Chatwoot as a voice message",
   inputSchema: z.object({
     text: z.string().describe("The text to convert to speech"),
-    voiceId: z
-      .string()
+    voice: z
+      .enum(VOICE_NAMES)
       .optional()
-      .describe("Voice ID (default: Rachel - professional female voice)"),
+      .describe(
+        "Voice name (default: the conversation's voice, or rachel - professional female voice)"
+      ),
     language: z
-      .enum(["portuguese", "english", "spanish"])
+      .enum(SPEECH_LANGUAGES)
       .optional()
       .describe("Language hint for better pronunciation (default: portuguese)")
   }),
-  execute: async ({ text, voiceId, language = "portuguese" }) => {
-    // Check if ElevenLabs is configured
-    if (
-      !process.env.ELEVENLABS_API_KEY ||
-      !process.env.CLOUDFLARE_ACCOUNT_ID ||
-      !process.env.AI_GATEWAY_ID
-    ) {
-      return "ElevenLabs integration is not configured. Please set ELEVENLABS_API_KEY, CLOUDFLARE_ACCOUNT_ID, and AI_GATEWAY_ID environment variables.";
-    }
-
+  execute: async ({ text, voice, language }) => {
     // Check if Chatwoot is configured
     if (
       !process.env.CHATWOOT_API_KEY ||
@@ -547,18 +721,12 @@ const textToSpeech = tool({
     }
 
     try {
-      // Create ElevenLabs client
-      const elevenlabsClient = new ElevenLabsClient({
-        accountId: process.env.CLOUDFLARE_ACCOUNT_ID,
-        gatewayId: process.env.AI_GATEWAY_ID,
-        apiKey: process.env.ELEVENLABS_API_KEY
-      });
-
-      // Convert text to speech
-      const result = await elevenlabsClient.textToSpeech({
+      // The conversation's voice, unless the model picked another one
+      const settings = agent!.getVoiceSettings();
+      const result = await agent!.getSpeechSynthesizer().synthesize({
         text,
-        voiceId,
-        modelId: "eleven_multilingual_v2" // Supports Portuguese, English, Spanish, and more
+        voice: voice ?? settings.voice,
+        language: language ?? settings.language
       });
 
       // Send audio to Chatwoot
@@ -576,7 +744,7 @@ const textToSpeech = tool({
         result.contentType
       );
 
-      return `Audio message sent successfully! Size: ${Math.round(result.audio.byteLength / 1024)}KB. The customer received the voice message: "${text.substring(0, 100)}${text.length > 100 ? "..." : ""}"`;
+      return `Audio message sent successfully (${result.provider})! Size: ${Math.round(result.audio.byteLength / 1024)}KB. The customer received the voice message: "${text.substring(0, 100)}${text.length > 100 ? "..." : ""}"`;
     } catch (error) {
       console.error("Error generating text-to-speech", error);
       return `Error generating audio: ${error}`;
@@ -584,6 +752,48 @@ const textToSpeech = tool({
   }
 });
 
+/**
+ * Tool to switch the conversation between voice and text replies, and to
+ * choose the voice it is spoken to in
+ */
+const setReplyMode = tool({
+  description:
+    "Choose how replies are delivered in this Chatwoot conversation: voice notes when the customer asks to be answered by audio, text when they ask for written replies, auto to answer voice notes by voice (the default). Also sets the voice and language of the audio when the customer asks for another voice",
+  inputSchema: z.object({
+    mode: z
+      .enum(VOICE_REPLY_MODES)
+      .describe(
+        "voice, text or auto (voice only when the customer sends audio)"
+      ),
+    voice: z
+      .enum(VOICE_NAMES)
+      .optional()
+      .describe(
+        "Voice for this conversation (female: rachel, bella, elli, domi, nicole; male: adam, josh, arnold)"
+      ),
+    language: z
+      .enum(SPEECH_LANGUAGES)
+      .optional()
+      .describe("Language the customer writes in (default: portuguese)")
+  }),
+  execute: async ({ mode, voice, language }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const conversationId = getChatwootConversationId(agent!.messages);
+
+    if (!conversationId) {
+      return "This conversation is not associated with Chatwoot";
+    }
+
+    await agent!.setChatwootReplyMode(conversationId, mode);
+    if (voice || language) {
+      await agent!.setVoiceSettings(conversationId, { voice, language });
+    }
+    return mode === "voice"
+      ? "Reply mode set to voice. The next replies will be sent as voice notes."
+      : `Reply mode set to ${mode}.`;
+  }
+});
+
 /**
  * Export all available tools
  * These will be provided to the AI model to describe available capabilities
@@ -596,12 +806,20 @@ export const tools = {
   cancelScheduledTask,
   sendChatwootNote,
   resolveChatwootConversation,
+  getPlans,
+  comparePlans,
   createPayment,
   checkPaymentStatus,
+  createSubscription,
+  checkSubscriptionStatus,
+  cancelSubscription,
+  refundPayment,
+  cancelPayment,
   scheduleFollowUp,
   escalateToHuman,
   sendSatisfactionSurvey,
-  textToSpeech
+  textToSpeech,
+  setReplyMode
 } satisfies ToolSet;
 
 /**
@@ -613,5 +831,27 @@ export const executions = {
   getWeatherInformation: async ({ city }: { city: string }) => {
     console.log(`Getting weather information for ${city}`);
     return `The weather in ${city} is sunny`;
+  },
+  refundPayment: async (
+    input: z.infer<typeof paymentActionSchema>,
+    { toolCallId }: ToolCallOptions
+  ) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const result = await agent!.refundPayment(input, toolCallId);
+    if (result.status !== "refunded") {
+      return result.message;
+    }
+    return `↩️ ${result.full ? "Reembolso total" : "Reembolso parcial"} de ${formatPrice(result.amount)} aprovado para o pagamento ${result.paymentId}. O valor volta para o meio de pagamento do cliente no prazo do banco ou operadora do cartão.`;
+  },
+  cancelPayment: async (
+    input: z.infer<typeof paymentActionSchema>,
+    { toolCallId }: ToolCallOptions
+  ) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const result = await agent!.cancelPayment(input, toolCallId);
+    if (result.status !== "cancelled") {
+      return result.message;
+    }
+    return `🚫 Pagamento ${result.paymentId} de ${formatPrice(result.amount)} cancelado.`;
   }
 };
@@ -0,0 +1,65 @@
+/**
+ * Voice note transcription
+ * Audio sent by customers (mostly WhatsApp voice notes) is archived in R2
+ * with the conversation's other attachments and transcribed with Workers AI,
+ * so the agent can answer it like a text message.
+ */
+import { archiveAttachment, encodeBase64 } from "./attachments";
+import type { ChatwootAttachment } from "./chatwoot-types";
+import type { R2StorageManager } from "./r2";
+
+/**
+ * Workers AI speech-to-text model
+ */
+export const TRANSCRIPTION_MODEL = "@cf/openai/whisper-large-v3-turbo";
+
+/**
+ * Largest audio sent for transcription (well over 10 minutes of a WhatsApp
+ * voice note); longer files are only archived
+ */
+export const MAX_TRANSCRIPTION_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Transcript of an audio attachment and where the original was archived
+ * `text` is empty when nothing could be recognized
+ */
+export interface AudioTranscription {
+  text: string;
+  key: string;
+  contentType: string;
+  /** Language detected by the model (ISO 639-1) */
+  language?: string;
+}
+
+/**
+ * Download an audio attachment, archive it in R2 and transcribe it
+ */
+export async function transcribeAudio(
+  ai: Ai,
+  storage: R2StorageManager,
+  conversationId: number,
+  attachment: ChatwootAttachment
+): Promise<AudioTranscription> {
+  const { key, contentType, data } = await archiveAttachment(
+    storage,
+    conversationId,
+    attachment
+  );
+
+  if (data.byteLength > MAX_TRANSCRIPTION_BYTES) {
+    console.warn(
+      `[Transcription] Audio ${attachment.id} is too long to transcribe (${data.byteLength} bytes)`
+    );
+    return { text: "", key, contentType };
+  }
+
+  const result = await ai.run(TRANSCRIPTION_MODEL, {
+    audio: encodeBase64(data)
+  });
+  return {
+    text: result.text.trim(),
+    key,
+    contentType,
+    language: result.transcription_info?.language
+  };
+}
@@ -103,22 +103,33 @@ export async function processToolCalls<Tools extends ToolSet>({
 
 /**
  * Clean up incomplete tool calls from messages before sending to API
- * Prevents API errors from interrupted or failed tool executions
+ * Prevents API errors from interrupted or failed tool executions. File parts
+ * are dropped too: the Workers AI chat model takes no files, attachments
+ * reach it as the text read from them
  */
 export function cleanupMessages(messages: UIMessage[]): UIMessage[] {
-  return messages.filter((message) => {
-    if (!message.parts) return true;
-
-    // Filter out messages with incomplete tool calls
-    const hasIncompleteToolCall = message.parts.some((part) => {
-      if (!isToolUIPart(part)) return false;
-      // Remove tool calls that are still streaming or awaiting input without results
-      return (
-        part.state === "input-streaming" ||
-        (part.state === "input-available" && !part.output && !part.errorText)
-      );
-    });
-
-    return !hasIncompleteToolCall;
-  });
+  return messages
+    .filter((message) => {
+      if (!message.parts) return true;
+
+      // Filter out messages with incomplete tool calls
+      const hasIncompleteToolCall = message.parts.some((part) => {
+        if (!isToolUIPart(part)) return false;
+        // Remove tool calls that are still streaming or awaiting input without results
+        return (
+          part.state === "input-streaming" ||
+          (part.state === "input-available" && !part.output && !part.errorText)
+        );
+      });
+
+      return !hasIncompleteToolCall;
+    })
+    .map((message) =>
+      message.parts?.some((part) => part.type === "file")
+        ? {
+            ...message,
+            parts: message.parts.filter((part) => part.type !== "file")
+          }
+        : message
+    );
 }
@@ -0,0 +1,152 @@
+/**
+ * Voice replies
+ * Customers who talk to the agent by voice note get voice notes back: the
+ * reply text is cleaned of markdown and links, cut into chunks short enough
+ * for a voice note each and synthesized in the conversation's voice. Links
+ * cannot be heard, so they follow the audio as a text message.
+ */
+import type { ChatwootClient } from "./chatwoot";
+import type { SpeechSynthesizer, VoiceSettings } from "./speech";
+
+/**
+ * How a Chatwoot conversation is answered
+ * - auto: by voice when the customer's last message was a voice note
+ * - voice: always by voice (the customer asked for audio)
+ * - text: always by text
+ */
+export const VOICE_REPLY_MODES = ["auto", "voice", "text"] as const;
+
+export type VoiceReplyMode = (typeof VOICE_REPLY_MODES)[number];
+
+/**
+ * Longest text synthesized into a single voice note (around a minute of
+ * speech)
+ */
+export const MAX_SPEECH_CHARS = 800;
+
+// Punctuation that ends the sentence is not part of the link
+const URL_PATTERN = /https?:\/\/[^\s)\]]*[^\s)\].,;:!?]/g;
+
+/**
+ * Links in a reply, in order and without repeats
+ */
+export function extractLinks(text: string): string[] {
+  return [...new Set(text.match(URL_PATTERN))];
+}
+
+/**
+ * Text of a reply as it should be spoken: link labels are kept, bare links,
+ * code blocks and markdown markers are dropped
+ */
+export function toSpeechText(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, "")
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+    .replace(URL_PATTERN, "")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/^\s*#{1,6}\s+/gm, "")
+    .replace(/^\s*(?:[-*+•]|\d+[.)])\s+/gm, "")
+    .replace(/(\*\*|__|\*|_|~~)(.+?)\1/g, "$2")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ +([.,;:!?])/g, "$1")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Cut speech text into chunks of at most `maxChars`, between sentences when
+ * possible and between words otherwise
+ */
+export function chunkSpeechText(
+  text: string,
+  maxChars: number = MAX_SPEECH_CHARS
+): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  const sentences = text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+  for (const sentence of sentences) {
+    const parts = sentence.length > maxChars ? sentence.split(" ") : [sentence];
+    for (const part of parts) {
+      const next = current ? `${current} ${part}` : part;
+      if (next.length > maxChars && current) {
+        chunks.push(current);
+        current = part;
+      } else {
+        current = next;
+      }
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * What a voice reply delivered
+ * Once the first voice note is out, a failed send stops the reply without
+ * throwing, so the caller does not send it twice
+ */
+export interface VoiceReplyResult {
+  /** Voice notes sent */
+  voiceNotes: number;
+  /** What was not sent (the remaining chunks and the links), as text */
+  undelivered?: string;
+  /** Why the reply stopped */
+  error?: unknown;
+}
+
+/**
+ * Send a reply as voice notes, followed by its links
+ * Every chunk is synthesized before the first one is sent, so a synthesis
+ * error leaves nothing half-sent. Throws when nothing was sent
+ */
+export async function sendVoiceReply(
+  chatwoot: ChatwootClient,
+  synthesizer: SpeechSynthesizer,
+  conversationId: number,
+  text: string,
+  voice: VoiceSettings = {}
+): Promise<VoiceReplyResult> {
+  const chunks = chunkSpeechText(toSpeechText(text));
+  if (chunks.length === 0) {
+    throw new Error("Reply has nothing to speak");
+  }
+
+  const voiceNotes = [];
+  for (const chunk of chunks) {
+    voiceNotes.push(await synthesizer.synthesize({ ...voice, text: chunk }));
+  }
+
+  const links = extractLinks(text);
+  let sent = 0;
+  try {
+    for (const [index, { audio, contentType }] of voiceNotes.entries()) {
+      await chatwoot.sendAudioAttachment(
+        conversationId,
+        audio,
+        `resposta-${index + 1}.mp3`,
+        contentType
+      );
+      sent++;
+    }
+    if (links.length > 0) {
+      await chatwoot.sendMessage(conversationId, links.join("\n"));
+    }
+  } catch (error) {
+    if (sent === 0) {
+      throw error;
+    }
+    const rest = [chunks.slice(sent).join(" "), ...links];
+    return {
+      voiceNotes: sent,
+      undelivered: rest.filter(Boolean).join("\n"),
+      error
+    };
+  }
+  return { voiceNotes: sent };
+}
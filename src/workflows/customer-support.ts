@@ -1,11 +1,25 @@
 import {
   WorkflowEntrypoint,
-  WorkflowEvent,
-  WorkflowStep
+  type WorkflowEvent,
+  type WorkflowStep,
+  type WorkflowStepConfig
 } from "cloudflare:workers";
+import { type ChatwootClient, getChatwootClient } from "../chatwoot";
+import {
+  EscalationRoutingStore,
+  renderEscalationNote,
+  routeEscalation,
+  type EscalationCategory,
+  type EscalationRoute,
+  type EscalationSummary
+} from "../escalation";
+import { R2StorageManager } from "../r2";
 
 /**
  * Workflow parameters for customer support automation
+ * An escalation is routed by its `category` (see escalation.ts);
+ * `assigneeId` / `teamId` override the routing. `agentId` is the Chat agent
+ * (Durable Object id) of the conversation, asked for the handoff summary
  */
 export interface CustomerSupportParams {
   conversationId: number;
@@ -13,19 +27,121 @@ export interface CustomerSupportParams {
   action: "follow_up" | "escalate" | "send_survey";
   delayMinutes?: number;
   message?: string;
+  agentId?: string;
+  category?: EscalationCategory;
+  assigneeId?: number;
+  teamId?: number;
+}
+
+/**
+ * What the workflow did in Chatwoot
+ * - completed: every step of the action went through; `messageId` is the
+ *   message (or private note) it posted
+ * - cancelled: the customer wrote back before the follow-up was due
+ * - skipped: Chatwoot is not configured, so nothing was sent
+ */
+export interface CustomerSupportResult {
+  action: CustomerSupportParams["action"];
+  conversationId: number;
+  status: "completed" | "cancelled" | "skipped";
+  messageId?: number;
+  labels?: string[];
+  /** Where an escalation was routed */
+  route?: EscalationRoute;
+}
+
+/**
+ * Support workflow started by a Chat agent, kept in its support_workflows
+ * table so pending ones can be signalled, listed and cancelled
+ * - active: not known to have finished
+ * - cancelled: the customer replied first, or an operator cancelled it
+ * - finished: the workflow ran to the end (or failed)
+ */
+export interface SupportWorkflow {
+  instanceId: string;
+  action: CustomerSupportParams["action"];
+  status: "active" | "cancelled" | "finished";
+  /** When the action is due to run (creation time plus the delay) */
+  dueAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Event the Chat agent sends to its pending workflows when the customer
+ * writes in the conversation
+ */
+export const CUSTOMER_REPLIED_EVENT = "customer-replied";
+
+export const DEFAULT_FOLLOW_UP_MESSAGE = "Olá! Como posso ajudar mais?";
+export const DEFAULT_SURVEY_MESSAGE =
+  "Por favor, avalie nosso atendimento de 1 a 5 estrelas.";
+
+/**
+ * Labels applied to the conversation by each action
+ */
+export const ESCALATED_LABEL = "escalated";
+export const SURVEY_SENT_LABEL = "survey-sent";
+
+/**
+ * Retry policy for Chatwoot API calls: transient failures (rate limits,
+ * deploys) are retried with exponential backoff, roughly 5 minutes in total
+ */
+const CHATWOOT_STEP_CONFIG: WorkflowStepConfig = {
+  retries: { limit: 5, delay: "10 seconds", backoff: "exponential" },
+  timeout: "30 seconds"
+};
+
+/**
+ * Retry policy for the handoff summary: the model call is slower and a
+ * failure already falls back to a summary without it
+ */
+const SUMMARY_STEP_CONFIG: WorkflowStepConfig = {
+  retries: { limit: 2, delay: "5 seconds", backoff: "constant" },
+  timeout: "2 minutes"
+};
+
+/**
+ * Team or agent that receives an escalation: the caller's choice, then the
+ * routing rules, then the CHATWOOT_ESCALATION_* settings
+ */
+function getEscalationAssignment(
+  params: CustomerSupportParams,
+  route: EscalationRoute
+): EscalationRoute {
+  const parse = (value?: string) => {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : undefined;
+  };
+  return {
+    assigneeId:
+      params.assigneeId ??
+      route.assigneeId ??
+      parse(process.env.CHATWOOT_ESCALATION_ASSIGNEE_ID),
+    teamId:
+      params.teamId ??
+      route.teamId ??
+      parse(process.env.CHATWOOT_ESCALATION_TEAM_ID),
+    priority: route.priority
+  };
 }
 
 /**
  * Customer Support Workflow
- * Automates follow-ups, escalations, and surveys
+ * Automates follow-ups, escalations, and surveys: after the optional delay,
+ * each action runs its Chatwoot calls as separate retryable steps, so a
+ * failed call is retried without repeating the ones that went through
  */
 export class CustomerSupportWorkflow extends WorkflowEntrypoint<
   Env,
   CustomerSupportParams
 > {
-  async run(event: WorkflowEvent<CustomerSupportParams>, step: WorkflowStep) {
-    const { conversationId, customerId, action, delayMinutes, message } =
-      event.params;
+  async run(
+    event: WorkflowEvent<CustomerSupportParams>,
+    step: WorkflowStep
+  ): Promise<CustomerSupportResult> {
+    const { conversationId, action, delayMinutes, message, agentId } =
+      event.payload;
 
     // Step 1: Log workflow start
     await step.do("log-workflow-start", async () => {
@@ -35,57 +151,206 @@ export class CustomerSupportWorkflow extends WorkflowEntrypoint<
       return { status: "started", timestamp: new Date().toISOString() };
     });
 
-    // Step 2: Apply delay if specified
+    // Step 2: Apply delay if specified; a follow-up waits for a reply from
+    // the customer instead and is dropped if one arrives
     if (delayMinutes && delayMinutes > 0) {
-      await step.sleep("wait-delay", `${delayMinutes} minutes`);
+      if (action !== "follow_up") {
+        await step.sleep("wait-delay", `${delayMinutes} minutes`);
+      } else if (await this.waitForReply(step, delayMinutes)) {
+        console.log(
+          `[Workflow] Customer replied, cancelling follow-up for conversation ${conversationId}`
+        );
+        return { action, conversationId, status: "cancelled" };
+      }
+    }
+
+    // Messages posted for the agent's conversation are recorded with it, so
+    // they do not look like a human agent taking over
+    const agent = agentId
+      ? this.env.Chat.get(this.env.Chat.idFromString(agentId))
+      : undefined;
+    const chatwoot = getChatwootClient(
+      agent && ((message) => agent.recordChatwootSentMessage(message.id))
+    );
+    if (!chatwoot) {
+      console.log(
+        `[Workflow] Skipping ${action} for conversation ${conversationId} - Chatwoot not configured`
+      );
+      return { action, conversationId, status: "skipped" };
     }
 
     // Step 3: Execute action based on type
-    const result = await step.do("execute-action", async () => {
-      switch (action) {
-        case "follow_up":
-          // Send follow-up message after delay
-          return {
-            action: "follow_up",
-            conversationId,
-            message: message || "Olá! Como posso ajudar mais?",
-            timestamp: new Date().toISOString()
-          };
-
-        case "escalate":
-          // Escalate to human agent
-          return {
-            action: "escalate",
-            conversationId,
-            customerId,
-            reason: message || "Escalated by automated workflow",
-            timestamp: new Date().toISOString()
-          };
-
-        case "send_survey":
-          // Send satisfaction survey
-          return {
-            action: "send_survey",
-            conversationId,
-            message:
-              message ||
-              "Por favor, avalie nosso atendimento de 1 a 5 estrelas.",
-            timestamp: new Date().toISOString()
-          };
-
-        default:
-          throw new Error(`Unknown action: ${action}`);
+    let result: CustomerSupportResult;
+    switch (action) {
+      case "follow_up": {
+        const messageId = await step.do(
+          "send-follow-up",
+          CHATWOOT_STEP_CONFIG,
+          async () =>
+            (
+              await chatwoot.sendMessage(
+                conversationId,
+                message || DEFAULT_FOLLOW_UP_MESSAGE
+              )
+            ).id
+        );
+        result = { action, conversationId, status: "completed", messageId };
+        break;
       }
-    });
+
+      case "escalate":
+        result = await this.escalate(event.payload, step, chatwoot);
+        break;
+
+      case "send_survey": {
+        const messageId = await step.do(
+          "send-survey",
+          CHATWOOT_STEP_CONFIG,
+          async () =>
+            (
+              await chatwoot.sendMessage(
+                conversationId,
+                message || DEFAULT_SURVEY_MESSAGE
+              )
+            ).id
+        );
+        const labels = await step.do(
+          "label-survey-sent",
+          CHATWOOT_STEP_CONFIG,
+          () => chatwoot.addLabels(conversationId, [SURVEY_SENT_LABEL])
+        );
+        result = {
+          action,
+          conversationId,
+          status: "completed",
+          messageId,
+          labels
+        };
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
 
     // Step 4: Log completion
     await step.do("log-completion", async () => {
       console.log(
         `[Workflow] Completed ${action} for conversation ${conversationId}`
       );
-      return { status: "completed", result };
+      return { status: "completed" };
     });
 
     return result;
   }
+
+  /**
+   * Wait up to `minutes` for the Chat agent to report a customer reply
+   * Returns whether the customer replied; waitForEvent throws on timeout
+   */
+  private async waitForReply(
+    step: WorkflowStep,
+    minutes: number
+  ): Promise<boolean> {
+    try {
+      await step.waitForEvent("wait-for-reply", {
+        type: CUSTOMER_REPLIED_EVENT,
+        timeout: `${minutes} minutes`
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Hand the conversation to a human: pause the bot, summarize the
+   * conversation, route it, reopen it, assign it, prioritize and label it,
+   * and leave the summary in a private note for whoever picks it up
+   */
+  private async escalate(
+    params: CustomerSupportParams,
+    step: WorkflowStep,
+    chatwoot: ChatwootClient
+  ): Promise<CustomerSupportResult> {
+    const { conversationId, agentId, category = "other" } = params;
+    const reason = params.message || "Escalated by automated workflow";
+
+    // The bot stops answering while the customer waits for a human
+    if (agentId) {
+      await step.do("pause-bot", async () => {
+        const agent = this.env.Chat.get(this.env.Chat.idFromString(agentId));
+        await agent.setChatwootHandoff(conversationId, "human", "escalated");
+      });
+    }
+
+    const summary = await step.do(
+      "summarize-conversation",
+      SUMMARY_STEP_CONFIG,
+      async (): Promise<EscalationSummary> => {
+        if (!agentId) {
+          return { summary: reason, intent: reason };
+        }
+        const agent = this.env.Chat.get(this.env.Chat.idFromString(agentId));
+        return agent.getHandoffSummary(reason);
+      }
+    );
+
+    const route = await step.do("route-escalation", async () => {
+      const routing = await new EscalationRoutingStore(
+        new R2StorageManager(this.env.R2_BUCKET)
+      ).get();
+      return getEscalationAssignment(
+        params,
+        routeEscalation(routing, {
+          category,
+          language: summary.language,
+          now: new Date()
+        })
+      );
+    });
+
+    await step.do("open-conversation", CHATWOOT_STEP_CONFIG, () =>
+      chatwoot.toggleConversationStatus(conversationId, "open")
+    );
+
+    if (route.assigneeId || route.teamId) {
+      await step.do("assign-conversation", CHATWOOT_STEP_CONFIG, () =>
+        chatwoot.assignConversation(conversationId, route)
+      );
+    }
+
+    const { priority } = route;
+    if (priority) {
+      await step.do("set-priority", CHATWOOT_STEP_CONFIG, () =>
+        chatwoot.setConversationPriority(conversationId, priority)
+      );
+    }
+
+    const labels = await step.do("label-escalated", CHATWOOT_STEP_CONFIG, () =>
+      chatwoot.addLabels(conversationId, [ESCALATED_LABEL])
+    );
+
+    const messageId = await step.do(
+      "add-escalation-note",
+      CHATWOOT_STEP_CONFIG,
+      async () =>
+        (
+          await chatwoot.sendMessage(
+            conversationId,
+            renderEscalationNote(reason, category, summary),
+            true
+          )
+        ).id
+    );
+
+    return {
+      action: "escalate",
+      conversationId,
+      status: "completed",
+      messageId,
+      labels,
+      route
+    };
+  }
 }
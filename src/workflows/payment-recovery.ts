@@ -0,0 +1,163 @@
+import {
+  WorkflowEntrypoint,
+  type WorkflowEvent,
+  type WorkflowStep
+} from "cloudflare:workers";
+import type { PaymentDetails, PaymentOrder } from "../payment-types";
+import { fetchPaymentService } from "../payment-service";
+
+/**
+ * Workflow parameters for abandoned checkout recovery
+ */
+export interface PaymentRecoveryParams {
+  /** Chat agent (Durable Object id) that created the order */
+  agentId: string;
+  reference: string;
+  conversationId: number;
+  /** Minutes after the order was created at which to remind the customer */
+  reminderMinutes: number[];
+  expiresAt: string;
+  /** Hand the conversation to a human when the link expires unpaid */
+  escalate: boolean;
+}
+
+/**
+ * Outcome of a recovery run: the order status it ended on and how many
+ * reminders were sent
+ */
+export interface PaymentRecoveryResult {
+  reference: string;
+  status: PaymentOrder["status"] | "missing";
+  reminders: number;
+}
+
+/**
+ * Find the payment of an order on Mercado Pago
+ * PIX and boleto orders know their payment id; checkout links are searched by
+ * reference. Throws when the payment service fails so the step is retried
+ */
+async function findPayment(
+  env: Env,
+  order: PaymentOrder
+): Promise<PaymentDetails | undefined> {
+  const path = order.paymentId
+    ? `/payment/status?id=${encodeURIComponent(order.paymentId)}`
+    : `/payment/search?external_reference=${encodeURIComponent(order.reference)}`;
+  const response = await fetchPaymentService(env, path);
+  if (!response.ok) {
+    throw new Error(`payment service returned ${response.status}`);
+  }
+
+  if (order.paymentId) {
+    return (await response.json()) as PaymentDetails;
+  }
+  const { results } = (await response.json()) as { results: PaymentDetails[] };
+  return results[0];
+}
+
+/**
+ * Payment Recovery Workflow
+ * Follows up on a checkout the customer has not paid: reminds them at the
+ * configured times and, if the link expires unpaid, marks the order expired
+ * and escalates to a human. Stops as soon as the order leaves "pending"; the
+ * Chat agent also terminates it when the webhook reports the payment
+ */
+export class PaymentRecoveryWorkflow extends WorkflowEntrypoint<
+  Env,
+  PaymentRecoveryParams
+> {
+  async run(
+    event: WorkflowEvent<PaymentRecoveryParams>,
+    step: WorkflowStep
+  ): Promise<PaymentRecoveryResult> {
+    const {
+      agentId,
+      reference,
+      conversationId,
+      reminderMinutes,
+      expiresAt,
+      escalate
+    } = event.payload;
+    const agent = this.env.Chat.get(this.env.Chat.idFromString(agentId));
+    const createdAt = event.timestamp.getTime();
+
+    let reminders = 0;
+    for (const minutes of reminderMinutes) {
+      const attempt = reminders + 1;
+      await step.sleepUntil(
+        `wait-reminder-${attempt}`,
+        new Date(createdAt + minutes * 60 * 1000)
+      );
+
+      const status = await step.do(`check-payment-${attempt}`, () =>
+        this.checkOrder(agentId, reference)
+      );
+      if (status !== "pending") {
+        return { reference, status, reminders };
+      }
+
+      await step.do(`send-reminder-${attempt}`, () =>
+        agent.sendPaymentReminder(reference, attempt)
+      );
+      reminders = attempt;
+    }
+
+    await step.sleepUntil("wait-expiration", new Date(expiresAt));
+    const status = await step.do("check-payment-expiration", () =>
+      this.checkOrder(agentId, reference)
+    );
+    if (status !== "pending") {
+      return { reference, status, reminders };
+    }
+
+    await step.do("expire-order", async () => {
+      await agent.expirePaymentOrder(reference);
+    });
+
+    if (escalate) {
+      // Started by the agent so it shows up with the conversation's workflows
+      await step.do("escalate", () =>
+        agent.startSupportWorkflow({
+          conversationId,
+          customerId: 0,
+          action: "escalate",
+          category: "billing",
+          message: `Link de pagamento expirou sem pagamento após ${reminders} lembrete(s) (pedido ${reference})`
+        })
+      );
+    }
+
+    return { reference, status: "expired", reminders };
+  }
+
+  /**
+   * Current status of the order, brought up to date with Mercado Pago
+   * A payment the webhook has not reported yet is recorded on the order
+   */
+  private async checkOrder(
+    agentId: string,
+    reference: string
+  ): Promise<PaymentRecoveryResult["status"]> {
+    const agent = this.env.Chat.get(this.env.Chat.idFromString(agentId));
+    const order = await agent.getPaymentOrder(reference);
+    if (!order || order.status !== "pending") {
+      return order?.status ?? "missing";
+    }
+
+    const payment = await findPayment(this.env, order);
+    if (!payment || payment.status === "pending") {
+      return "pending";
+    }
+
+    await agent.recordOrderStatus(
+      reference,
+      {
+        status: payment.status,
+        paymentId: String(payment.id),
+        statusDetail: payment.status_detail
+      },
+      "paymentRecovery"
+    );
+    return payment.status;
+  }
+}
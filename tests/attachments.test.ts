@@ -0,0 +1,366 @@
+import { env, fetchMock, runInDurableObject } from "cloudflare:test";
+import { convertToModelMessages, generateText } from "ai";
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import { getChatwootAgentId } from "../src/chatwoot";
+import type {
+  ChatwootAttachment,
+  ChatwootWebhookEvent
+} from "../src/chatwoot-types";
+import { R2StorageManager } from "../src/r2";
+import {
+  describeAttachment,
+  MAX_IMAGE_BYTES,
+  readAttachment,
+  VISION_MODEL
+} from "../src/attachments";
+import { createChatModel } from "../src/prompts";
+import { cleanupMessages } from "../src/utils";
+
+const STORAGE_URL = "https://chatwoot.test";
+
+// PNG signature, enough for the stubbed vision model
+const SCREENSHOT = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a
+]);
+const QUOTE = new TextEncoder().encode("%PDF-1.4 orçamento");
+
+function serveFile(path: string, data: Uint8Array, contentType: string) {
+  fetchMock
+    .get(STORAGE_URL)
+    .intercept({ path })
+    .reply(200, data.buffer, { headers: { "content-type": contentType } });
+}
+
+function attachment(
+  id: number,
+  messageId: number,
+  fileType: ChatwootAttachment["file_type"],
+  path: string,
+  fileSize?: number
+): ChatwootAttachment {
+  return {
+    id,
+    message_id: messageId,
+    file_type: fileType,
+    account_id: 1,
+    extension: null,
+    data_url: `${STORAGE_URL}${path}`,
+    file_size: fileSize
+  };
+}
+
+// Workers AI stand-in for the vision model and document conversion
+function stubAi(description: string, markdown: string) {
+  const calls: string[] = [];
+  const ai = {
+    run: async (model: string) => {
+      calls.push(model);
+      return { response: description };
+    },
+    toMarkdown: async ({ name }: { name: string }) => {
+      calls.push(`toMarkdown:${name}`);
+      return { name, format: "markdown", data: markdown };
+    }
+  } as unknown as Ai;
+  return { ai, calls };
+}
+
+describe("customer attachments", () => {
+  const storage = new R2StorageManager(env.R2_BUCKET);
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    fetchMock.deactivate();
+  });
+
+  it("describes an image and archives it in R2", async () => {
+    const path = "/rails/active_storage/blobs/7201/erro.png";
+    serveFile(path, SCREENSHOT, "image/png");
+    const { ai, calls } = stubAi(" Tela com o erro 'Cartão recusado'. ", "");
+
+    const content = await readAttachment(
+      ai,
+      storage,
+      7201,
+      attachment(72011, 72010, "image", path)
+    );
+
+    expect(content).toEqual({
+      kind: "image",
+      status: "read",
+      filename: "erro.png",
+      contentType: "image/png",
+      url: `${STORAGE_URL}${path}`,
+      key: "chatwoot-attachments/7201/72010-72011.png",
+      text: "Tela com o erro 'Cartão recusado'."
+    });
+    expect(calls).toEqual([VISION_MODEL]);
+    const archived = await env.R2_BUCKET.get(content.key!);
+    expect(new Uint8Array(await archived!.arrayBuffer())).toEqual(SCREENSHOT);
+  });
+
+  it("extracts the text of a PDF", async () => {
+    const path = "/rails/active_storage/blobs/7201/orcamento.pdf";
+    serveFile(path, QUOTE, "application/pdf");
+    const { ai, calls } = stubAi("", "# Orçamento\n20 usuários, R$ 1.980,00");
+
+    const content = await readAttachment(
+      ai,
+      storage,
+      7201,
+      attachment(72013, 72012, "file", path)
+    );
+
+    expect(content).toMatchObject({
+      kind: "document",
+      status: "read",
+      key: "chatwoot-attachments/7201/72012-72013.pdf",
+      text: "# Orçamento\n20 usuários, R$ 1.980,00"
+    });
+    expect(calls).toEqual(["toMarkdown:orcamento.pdf"]);
+    expect(describeAttachment(content)).toBe(
+      "[Documento enviado pelo cliente: orcamento.pdf]\n# Orçamento\n20 usuários, R$ 1.980,00"
+    );
+  });
+
+  it("skips images over the size limit without downloading them", async () => {
+    const { ai, calls } = stubAi("", "");
+
+    const content = await readAttachment(
+      ai,
+      storage,
+      7201,
+      attachment(
+        72015,
+        72014,
+        "image",
+        "/rails/active_storage/blobs/7201/foto.jpg",
+        MAX_IMAGE_BYTES + 1
+      )
+    );
+
+    expect(content).toMatchObject({ status: "too_large" });
+    expect(content.key).toBeUndefined();
+    expect(calls).toEqual([]);
+    expect(describeAttachment(content)).toBe(
+      "[Imagem foto.jpg grande demais para leitura (limite de 5 MB)]"
+    );
+  });
+
+  it("archives but does not read unsupported files", async () => {
+    const path = "/rails/active_storage/blobs/7201/planilha.xlsx";
+    const type =
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+    serveFile(path, QUOTE, type);
+    const { ai, calls } = stubAi("", "");
+
+    const content = await readAttachment(
+      ai,
+      storage,
+      7201,
+      attachment(72017, 72016, "file", path)
+    );
+
+    expect(content).toMatchObject({
+      kind: "other",
+      status: "unsupported",
+      key: expect.stringMatching(/^chatwoot-attachments\/7201\//)
+    });
+    expect(calls).toEqual([]);
+    expect(describeAttachment(content)).toBe(
+      `[Arquivo planilha.xlsx em formato não suportado (${type}); só imagens, PDF e DOCX são lidos]`
+    );
+  });
+
+  it("answers a screenshot through its description", async () => {
+    const conversationId = 7202;
+    const path = "/rails/active_storage/blobs/7202/erro.png";
+    const stub = env.Chat.get(
+      env.Chat.idFromName(getChatwootAgentId(conversationId))
+    );
+
+    const { result, prompt, message } = await runInDurableObject(
+      stub,
+      async (instance: Chat) => {
+        serveFile(path, SCREENSHOT, "image/png");
+        const agent = instance as unknown as { env: Env };
+        const binding = agent.env.AI;
+        agent.env.AI = stubAi("Erro 'Cartão recusado' no checkout.", "").ai;
+        try {
+          let prompt = "";
+          instance.generateChatwootResponse = async () => {
+            prompt = JSON.stringify(cleanupMessages(instance.messages));
+            return "Vamos tentar outro cartão?";
+          };
+          const result = await instance.processChatwootMessage({
+            event: "message_created",
+            id: 72020,
+            content: "Deu isso aqui",
+            content_type: "text",
+            message_type: "incoming",
+            created_at: new Date().toISOString(),
+            conversation: { id: conversationId, inbox_id: 1 },
+            attachments: [attachment(72021, 72020, "image", path)]
+          } as ChatwootWebhookEvent);
+          return {
+            result,
+            prompt,
+            message: instance.messages[instance.messages.length - 2]
+          };
+        } finally {
+          agent.env.AI = binding;
+        }
+      }
+    );
+
+    expect(result).toMatchObject({ status: "processed" });
+    expect(message.parts).toHaveLength(1);
+    expect(message).toMatchObject({
+      role: "user",
+      parts: [
+        {
+          type: "text",
+          text: "Deu isso aqui\n[Imagem enviada pelo cliente: erro.png]\nErro 'Cartão recusado' no checkout."
+        }
+      ],
+      metadata: {
+        chatwootAttachments: [
+          {
+            kind: "image",
+            status: "read",
+            filename: "erro.png",
+            contentType: "image/png",
+            key: "chatwoot-attachments/7202/72020-72021.png"
+          }
+        ]
+      }
+    });
+    // The chat model gets the description, not the file
+    expect(prompt).toContain("Cartão recusado");
+    expect(prompt).not.toContain('"type":"file"');
+  });
+
+  it("sends two attachments to the chat model as text", async () => {
+    const conversationId = 7204;
+    const imagePath = "/rails/active_storage/blobs/7204/erro.png";
+    const pdfPath = "/rails/active_storage/blobs/7204/orcamento.pdf";
+    const stub = env.Chat.get(
+      env.Chat.idFromName(getChatwootAgentId(conversationId))
+    );
+
+    const history = await runInDurableObject(stub, async (instance: Chat) => {
+      serveFile(imagePath, SCREENSHOT, "image/png");
+      serveFile(pdfPath, QUOTE, "application/pdf");
+      const agent = instance as unknown as { env: Env };
+      const binding = agent.env.AI;
+      agent.env.AI = stubAi("Erro no checkout.", "# Orçamento").ai;
+      try {
+        instance.generateChatwootResponse = async () => "Recebi!";
+        await instance.processChatwootMessage({
+          event: "message_created",
+          id: 72040,
+          content: null,
+          content_type: "text",
+          message_type: "incoming",
+          created_at: new Date().toISOString(),
+          conversation: { id: conversationId, inbox_id: 1 },
+          attachments: [
+            attachment(72041, 72040, "image", imagePath),
+            attachment(72042, 72040, "file", pdfPath)
+          ]
+        } as ChatwootWebhookEvent);
+        return instance.messages;
+      } finally {
+        agent.env.AI = binding;
+      }
+    });
+
+    // The stored history goes through the real Workers AI provider; a file
+    // part would be downloaded again, and a second image rejected
+    const inputs: Record<string, unknown>[] = [];
+    const ai = {
+      run: async (_model: string, input: Record<string, unknown>) => {
+        inputs.push(input);
+        return { response: "ok" };
+      }
+    } as unknown as Ai;
+    const { text } = await generateText({
+      model: createChatModel(ai),
+      messages: convertToModelMessages(history)
+    });
+
+    expect(text).toBe("ok");
+    expect(inputs).toHaveLength(1);
+    expect(inputs[0].image).toBeUndefined();
+    const prompt = JSON.stringify(inputs[0].messages);
+    expect(prompt).toContain("[Imagem enviada pelo cliente: erro.png]");
+    expect(prompt).toContain("# Orçamento");
+  });
+
+  it("only archives attachments while a human agent has the conversation", async () => {
+    const conversationId = 7203;
+    const imagePath = "/rails/active_storage/blobs/7203/erro.png";
+    const audioPath = "/rails/active_storage/blobs/7203/voice.oga";
+    const stub = env.Chat.get(
+      env.Chat.idFromName(getChatwootAgentId(conversationId))
+    );
+
+    const { result, calls, message } = await runInDurableObject(
+      stub,
+      async (instance: Chat) => {
+        serveFile(imagePath, SCREENSHOT, "image/png");
+        serveFile(audioPath, QUOTE, "audio/ogg");
+        await instance.setChatwootHandoff(conversationId, "human", "command");
+        const agent = instance as unknown as { env: Env };
+        const binding = agent.env.AI;
+        const { ai, calls } = stubAi("Erro no checkout.", "");
+        agent.env.AI = ai;
+        try {
+          const result = await instance.processChatwootMessage({
+            event: "message_created",
+            id: 72030,
+            content: null,
+            content_type: "text",
+            message_type: "incoming",
+            created_at: new Date().toISOString(),
+            conversation: { id: conversationId, inbox_id: 1 },
+            attachments: [
+              attachment(72031, 72030, "audio", audioPath),
+              attachment(72032, 72030, "image", imagePath)
+            ]
+          } as ChatwootWebhookEvent);
+          return {
+            result,
+            calls,
+            message: instance.messages[instance.messages.length - 1]
+          };
+        } finally {
+          agent.env.AI = binding;
+        }
+      }
+    );
+
+    expect(result).toEqual({ status: "paused" });
+    expect(calls).toEqual([]);
+    expect(message.parts).toEqual([
+      {
+        type: "text",
+        text: [
+          "[Anexo recebido durante o atendimento humano, não lido: voice.oga]",
+          "[Anexo recebido durante o atendimento humano, não lido: erro.png]"
+        ].join("\n")
+      }
+    ]);
+    expect(
+      await env.R2_BUCKET.head("chatwoot-attachments/7203/72030-72032.png")
+    ).not.toBeNull();
+    expect(
+      await env.R2_BUCKET.head("chatwoot-attachments/7203/72030-72031.ogg")
+    ).not.toBeNull();
+  });
+});
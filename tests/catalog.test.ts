@@ -0,0 +1,95 @@
+import {
+  env,
+  createExecutionContext,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import worker from "../src/server";
+import {
+  DEFAULT_CATALOG,
+  catalogSchema,
+  findPlan,
+  getPlanFeatures,
+  renderCatalogPrompt
+} from "../src/catalog";
+import { buildSystemPrompt } from "../src/prompts";
+
+async function adminCatalog(init: RequestInit = {}) {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(
+    new Request("http://example.com/admin/catalog", {
+      ...init,
+      headers: { authorization: "Bearer test-admin-token" }
+    }),
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+describe("catalog", () => {
+  it("ships a valid default catalog", () => {
+    expect(catalogSchema.safeParse(DEFAULT_CATALOG).success).toBe(true);
+  });
+
+  it("rejects duplicate skus and unknown includes", () => {
+    const [basic] = DEFAULT_CATALOG.plans;
+    const result = catalogSchema.safeParse({
+      plans: [basic, { ...basic, includes: "ouro-mensal" }]
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+      "Duplicate sku: basico-mensal",
+      "Unknown sku: ouro-mensal"
+    ]);
+  });
+
+  it("includes the features of the plans a plan builds on", () => {
+    const enterprise = findPlan(DEFAULT_CATALOG, "empresarial-mensal")!;
+    const features = getPlanFeatures(DEFAULT_CATALOG, enterprise);
+
+    expect(features[0]).toBe("Funcionalidades essenciais para começar");
+    expect(features).toContain("Suporte prioritário via chat");
+    expect(features.at(-1)).toBe("SLA garantido");
+  });
+
+  it("renders prices and skus into the system prompt", () => {
+    const prompt = buildSystemPrompt({ channel: "chatwoot" });
+
+    expect(prompt).toContain(renderCatalogPrompt(DEFAULT_CATALOG));
+    expect(prompt).toContain(
+      "### 2. Plano Profissional - R$ 197,00/mês (MAIS POPULAR)"
+    );
+    expect(prompt).toContain("`profissional-mensal`");
+  });
+});
+
+describe("catalog admin API", () => {
+  it("validates and saves a new catalog", async () => {
+    const invalid = await adminCatalog({
+      method: "PUT",
+      body: JSON.stringify({ plans: [{ sku: "Plano Básico" }] })
+    });
+    expect(invalid.status).toBe(400);
+
+    const [basic] = DEFAULT_CATALOG.plans;
+    const saved = await adminCatalog({
+      method: "PUT",
+      body: JSON.stringify({ plans: [{ ...basic, price: 107 }] })
+    });
+    expect(saved.status).toBe(200);
+
+    const { catalog } = (await (await adminCatalog()).json()) as {
+      catalog: typeof DEFAULT_CATALOG;
+    };
+    expect(catalog.plans).toEqual([{ ...basic, price: 107 }]);
+
+    // Restore the default catalog for the other tests
+    await adminCatalog({
+      method: "PUT",
+      body: JSON.stringify(DEFAULT_CATALOG)
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { fetchMock } from "cloudflare:test";
+
+export const CHATWOOT_BASE_URL = "https://chatwoot.test";
+const ACCOUNT_PATH = "/api/v1/accounts/1/conversations/";
+
+/**
+ * Call received by the Chatwoot stand-in, with the JSON body parsed
+ */
+export interface ChatwootRequest {
+  method: string;
+  conversationId: number;
+  /** What follows /conversations/<id>/, e.g. "messages" or "labels" */
+  resource: string;
+  body?: Record<string, unknown>;
+}
+
+/**
+ * JSON bodies are parsed; attachment uploads (multipart) are reduced to the
+ * uploaded file names and the message sent along
+ */
+function parseBody(body: string): Record<string, unknown> {
+  if (body.startsWith("{")) {
+    return JSON.parse(body);
+  }
+  const field = (name: string) =>
+    body.match(new RegExp(`name="${name}"\\r\\n\\r\\n([^\\r]*)`))?.[1];
+  return {
+    attachments: Array.from(
+      body.matchAll(/filename="([^"]+)"/g),
+      ([, filename]) => filename
+    ),
+    content: field("content"),
+    message_type: field("message_type"),
+    private: field("private") === "true"
+  };
+}
+
+/**
+ * State of a Chatwoot stand-in: the calls it received and what it keeps
+ */
+interface ChatwootState {
+  requests: ChatwootRequest[];
+  /** Ids given to the posted messages, in order */
+  messageIds: number[];
+  labels: Map<number, string[]>;
+  /** Answers matching posts with a 500 (they are not recorded) */
+  fail?: (request: ChatwootRequest) => boolean;
+}
+
+// Interceptors stay on fetchMock once registered, so they are registered
+// once and answer for the latest stand-in
+let active: ChatwootState | undefined;
+let nextMessageId = 1000;
+
+function parse(path: string, method: string, body: unknown): ChatwootRequest {
+  const [conversation, ...resource] = path
+    .slice(ACCOUNT_PATH.length)
+    .split("/");
+  return {
+    method,
+    conversationId: Number(conversation),
+    resource: resource.join("/"),
+    body: typeof body === "string" && body ? parseBody(body) : undefined
+  };
+}
+
+function intercept() {
+  const origin = fetchMock.get(CHATWOOT_BASE_URL);
+  origin
+    .intercept({
+      path: (path) => path.startsWith(ACCOUNT_PATH),
+      method: "GET"
+    })
+    .reply(({ path, method, body }) => {
+      const request = parse(path, method, body);
+      active!.requests.push(request);
+      return {
+        statusCode: 200,
+        data: { payload: active!.labels.get(request.conversationId) ?? [] }
+      };
+    })
+    .persist();
+  origin
+    .intercept({
+      path: (path) => path.startsWith(ACCOUNT_PATH),
+      method: "POST"
+    })
+    .reply<object>(({ path, method, body }) => {
+      const request = parse(path, method, body);
+      if (active!.fail?.(request)) {
+        return { statusCode: 500, data: { error: "unavailable" } };
+      }
+      active!.requests.push(request);
+      if (request.resource === "labels") {
+        active!.labels.set(
+          request.conversationId,
+          request.body?.labels as string[]
+        );
+        return { statusCode: 200, data: { payload: request.body?.labels } };
+      }
+      if (request.resource === "messages") {
+        const id = nextMessageId++;
+        active!.messageIds.push(id);
+        return {
+          statusCode: 200,
+          data: {
+            id,
+            content: request.body?.content,
+            message_type: "outgoing",
+            created_at: Math.floor(Date.now() / 1000),
+            conversation_id: request.conversationId
+          }
+        };
+      }
+      return { statusCode: 200, data: {} };
+    })
+    .persist();
+}
+
+/**
+ * Local stand-in for the Chatwoot API
+ * Points the Chatwoot settings at it and answers the calls ChatwootClient
+ * makes, recording them in order. Conversation labels are kept so the
+ * read-then-write of the label updates behaves like the real API. Set
+ * `fail` to answer matching posts with a 500 (they are not recorded).
+ * Each call starts a fresh stand-in. Requires fetchMock to be active; call
+ * `restore` when done
+ */
+export function mockChatwoot() {
+  const previous = {
+    CHATWOOT_BASE_URL: process.env.CHATWOOT_BASE_URL,
+    CHATWOOT_API_KEY: process.env.CHATWOOT_API_KEY,
+    CHATWOOT_ACCOUNT_ID: process.env.CHATWOOT_ACCOUNT_ID
+  };
+  process.env.CHATWOOT_BASE_URL = CHATWOOT_BASE_URL;
+  process.env.CHATWOOT_API_KEY = "test-chatwoot-token";
+  process.env.CHATWOOT_ACCOUNT_ID = "1";
+
+  if (!active) {
+    intercept();
+  }
+  const state: ChatwootState = {
+    requests: [],
+    messageIds: [],
+    labels: new Map()
+  };
+  active = state;
+
+  return Object.assign(state, {
+    restore() {
+      for (const [key, value] of Object.entries(previous)) {
+        if (value === undefined) {
+          delete process.env[key];
+        } else {
+          process.env[key] = value;
+        }
+      }
+    }
+  });
+}
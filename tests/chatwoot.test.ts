@@ -0,0 +1,666 @@
+import {
+  env,
+  createExecutionContext,
+  createMessageBatch,
+  fetchMock,
+  getQueueResult,
+  waitOnExecutionContext,
+  runInDurableObject
+} from "cloudflare:test";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import worker, { type Chat } from "../src/server";
+import {
+  BOT_RESUME_LABEL,
+  getChatwootAgentId,
+  validateWebhookSignature
+} from "../src/chatwoot";
+import { QUEUE_RETRY_DELAY_SECONDS, type QueueMessage } from "../src/queue";
+import type {
+  ChatwootHandoff,
+  ChatwootWebhookEvent
+} from "../src/chatwoot-types";
+import { mockChatwoot } from "./chatwoot-mock";
+
+const SECRET = "current-secret";
+const PREVIOUS_SECRET = "previous-secret";
+const BODY = JSON.stringify({ event: "message_created", id: 1 });
+
+async function sign(secret: string, timestamp: string, body: string) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const mac = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${body}`)
+  );
+  return [...new Uint8Array(mac)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function signedRequest(secret: string, timestamp: string) {
+  return new Request("http://example.com/chatwoot/webhook", {
+    method: "POST",
+    headers: {
+      "x-chatwoot-signature": `sha256=${await sign(secret, timestamp, BODY)}`,
+      "x-chatwoot-timestamp": timestamp
+    },
+    body: BODY
+  });
+}
+
+describe("validateWebhookSignature", () => {
+  const now = Date.now();
+  const timestamp = Math.floor(now / 1000).toString();
+
+  it("accepts a body signed with the current secret", async () => {
+    const request = await signedRequest(SECRET, timestamp);
+    const result = await validateWebhookSignature(request, BODY, [SECRET], {
+      now
+    });
+    expect(result).toEqual({ valid: true });
+  });
+
+  it("accepts the previous secret during rotation", async () => {
+    const request = await signedRequest(PREVIOUS_SECRET, timestamp);
+    const result = await validateWebhookSignature(
+      request,
+      BODY,
+      [SECRET, PREVIOUS_SECRET],
+      { now }
+    );
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects a tampered body", async () => {
+    const request = await signedRequest(SECRET, timestamp);
+    const result = await validateWebhookSignature(
+      request,
+      `${BODY} `,
+      [SECRET],
+      { now }
+    );
+    expect(result).toEqual({ valid: false, reason: "signature mismatch" });
+  });
+
+  it("rejects timestamps outside the replay window", async () => {
+    const stale = Math.floor(now / 1000 - 3600).toString();
+    const request = await signedRequest(SECRET, stale);
+    const result = await validateWebhookSignature(request, BODY, [SECRET], {
+      now
+    });
+    expect(result.reason).toBe("timestamp outside tolerance window");
+  });
+
+  it("rejects unsigned requests and missing secrets", async () => {
+    const unsigned = new Request("http://example.com/chatwoot/webhook", {
+      method: "POST",
+      body: BODY
+    });
+    expect(
+      (await validateWebhookSignature(unsigned, BODY, [SECRET])).reason
+    ).toBe("missing signature headers");
+    expect(
+      (await validateWebhookSignature(unsigned, BODY, [undefined, ""])).reason
+    ).toBe("webhook secret not configured");
+  });
+});
+
+describe("Chatwoot webhook", () => {
+  // Records what the webhook enqueues instead of delivering it to the consumer
+  function recordingQueue() {
+    const sent: QueueMessage[] = [];
+    const delays: (number | undefined)[] = [];
+    const queue = {
+      send: async (message: QueueMessage, options?: QueueSendOptions) => {
+        sent.push(message);
+        delays.push(options?.delaySeconds);
+      }
+    } as unknown as Queue;
+    return { queue, sent, delays };
+  }
+
+  async function postWebhook(event: unknown, queue: Queue) {
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const request = new Request("http://example.com/chatwoot/webhook", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-chatwoot-signature": `sha256=${await sign("test-webhook-secret", timestamp, body)}`,
+        "x-chatwoot-timestamp": timestamp
+      },
+      body
+    });
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(
+      request,
+      { ...env, MY_QUEUE: queue },
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+    return response;
+  }
+
+  async function consume(messages: QueueMessage[], queue?: Queue) {
+    const batch = createMessageBatch(
+      "queue-my-agent",
+      messages.map((body, index) => ({
+        id: `message-${index}`,
+        timestamp: new Date(),
+        attempts: 1,
+        body
+      }))
+    );
+    const ctx = createExecutionContext();
+    await worker.queue(batch, { ...env, MY_QUEUE: queue ?? env.MY_QUEUE }, ctx);
+    return getQueueResult(batch, ctx);
+  }
+
+  function inboundEvent(conversationId: number, id: number) {
+    return {
+      event: "message_created",
+      id,
+      content: "Oi, quero saber dos planos",
+      content_type: "text",
+      message_type: "incoming",
+      created_at: new Date().toISOString(),
+      conversation: { id: conversationId, inbox_id: 1 }
+    } as ChatwootWebhookEvent;
+  }
+
+  async function stubGeneration(
+    conversationId: number,
+    generate: () => Promise<string>
+  ) {
+    const stub = env.Chat.get(
+      env.Chat.idFromName(getChatwootAgentId(conversationId))
+    );
+    await runInDurableObject(stub, (instance: Chat) => {
+      instance.generateChatwootResponse = generate;
+    });
+    return stub;
+  }
+
+  it("rejects unsigned webhooks with 401", async () => {
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(
+      new Request("http://example.com/chatwoot/webhook", {
+        method: "POST",
+        body: BODY
+      }),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+    expect(response.status).toBe(401);
+  });
+
+  it("answers a retried delivery of the same message only once", async () => {
+    const conversationId = 4242;
+    let generations = 0;
+    const stub = await stubGeneration(conversationId, async () => {
+      generations++;
+      return "Olá! Como posso ajudar?";
+    });
+
+    // The webhook acknowledges both deliveries before any reply is generated
+    const { queue, sent } = recordingQueue();
+    const event = inboundEvent(conversationId, 9001);
+    for (const _ of [1, 2]) {
+      const response = await postWebhook(event, queue);
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({ status: "queued" });
+    }
+    expect(sent).toHaveLength(2);
+    expect(generations).toBe(0);
+
+    const result = await consume(sent);
+
+    expect(generations).toBe(1);
+    expect(result.explicitAcks).toEqual(["message-0", "message-1"]);
+    expect(await stub.processChatwootMessage(event)).toEqual({
+      status: "duplicate",
+      response: "Olá! Como posso ajudar?",
+      delivered: false
+    });
+
+    const history = await runInDurableObject(
+      stub,
+      (instance: Chat) => instance.messages
+    );
+    expect(history.filter((message) => message.role === "user")).toHaveLength(
+      1
+    );
+  });
+
+  it("defers later messages of a conversation behind a failed one", async () => {
+    await stubGeneration(4343, async () => {
+      throw new Error("model unavailable");
+    });
+    await stubGeneration(4444, async () => "Tudo certo!");
+
+    const { queue, sent } = recordingQueue();
+    for (const event of [
+      inboundEvent(4343, 9101),
+      inboundEvent(4343, 9102),
+      inboundEvent(4444, 9103)
+    ]) {
+      await postWebhook(event, queue);
+    }
+
+    const requeue = recordingQueue();
+    const result = await consume(sent, requeue.queue);
+
+    // Only the failed message uses up an attempt; the one behind it is queued again
+    expect(result.retryMessages).toEqual([{ msgId: "message-0" }]);
+    expect(result.explicitAcks).toEqual(["message-1", "message-2"]);
+    expect(requeue.sent).toEqual([sent[1]]);
+    expect(requeue.delays).toEqual([QUEUE_RETRY_DELAY_SECONDS]);
+  });
+
+  it("keeps the order of a conversation across batches", async () => {
+    const conversationId = 4650;
+    const answered: number[] = [];
+    let failures = 1;
+    const stub = await stubGeneration(conversationId, async () => {
+      if (failures-- > 0) {
+        throw new Error("model unavailable");
+      }
+      return "Respondido!";
+    });
+    await runInDurableObject(stub, (instance: Chat) => {
+      const generate = instance.generateChatwootResponse;
+      instance.generateChatwootResponse = async (prompt) => {
+        const response = await generate(prompt);
+        const last = instance.messages[instance.messages.length - 1];
+        answered.push(
+          (last.metadata as { chatwootMessageId: number }).chatwootMessageId
+        );
+        return response;
+      };
+    });
+
+    const { queue, sent } = recordingQueue();
+    await postWebhook(inboundEvent(conversationId, 9151), queue);
+    await postWebhook(inboundEvent(conversationId, 9152), queue);
+
+    // Batch 1: the first message fails and is retried later
+    const first = await consume([sent[0]]);
+    expect(first.retryMessages).toEqual([{ msgId: "message-0" }]);
+
+    // Batch 2: the next message arrives before the retry and waits for it
+    const requeue = recordingQueue();
+    const second = await consume([sent[1]], requeue.queue);
+    expect(second.explicitAcks).toEqual(["message-0"]);
+    expect(second.retryMessages).toEqual([]);
+    expect(requeue.sent).toEqual([sent[1]]);
+    expect(answered).toEqual([]);
+
+    // Batch 3: the retry is answered first, then the deferred message
+    const third = await consume([sent[0], requeue.sent[0]]);
+    expect(third.explicitAcks).toEqual(["message-0", "message-1"]);
+    expect(answered).toEqual([9151, 9152]);
+  });
+
+  it("coalesces a burst of messages into one reply", async () => {
+    const conversationId = 4545;
+    const stub = env.Chat.get(
+      env.Chat.idFromName(getChatwootAgentId(conversationId))
+    );
+
+    let generations = 0;
+    let userMessagesSeen = 0;
+    await runInDurableObject(stub, (instance: Chat) => {
+      instance.getChatwootDebounceSeconds = () => 5;
+      instance.generateChatwootResponse = async () => {
+        generations++;
+        userMessagesSeen = instance.messages.filter(
+          (message) => message.role === "user"
+        ).length;
+        return "Claro! Temos três planos.";
+      };
+    });
+
+    for (const id of [9201, 9202, 9203]) {
+      expect(
+        await stub.processChatwootMessage(inboundEvent(conversationId, id))
+      ).toEqual({ status: "buffered" });
+    }
+
+    const flushes = await runInDurableObject(stub, (instance: Chat) =>
+      instance
+        .getSchedules()
+        .filter((schedule) => schedule.callback === "flushChatwootBuffer")
+    );
+    expect(flushes).toHaveLength(1);
+    expect(generations).toBe(0);
+
+    await stub.flushChatwootBuffer();
+
+    expect(generations).toBe(1);
+    expect(userMessagesSeen).toBe(3);
+    expect(
+      await stub.processChatwootMessage(inboundEvent(conversationId, 9202))
+    ).toMatchObject({
+      status: "duplicate",
+      response: "Claro! Temos três planos."
+    });
+  });
+
+  describe("human handoff", () => {
+    let chatwoot: ReturnType<typeof mockChatwoot>;
+
+    beforeAll(() => {
+      fetchMock.activate();
+      fetchMock.disableNetConnect();
+      chatwoot = mockChatwoot();
+    });
+
+    afterAll(() => {
+      chatwoot.restore();
+      fetchMock.deactivate();
+    });
+
+    function agentMessage(
+      conversationId: number,
+      id: number,
+      content: string,
+      sender: { id: number; type: "user" | "agent_bot" },
+      isPrivate = false
+    ) {
+      return {
+        event: "message_created",
+        id,
+        content,
+        content_type: "text",
+        message_type: "outgoing",
+        private: isPrivate,
+        created_at: new Date().toISOString(),
+        conversation: { id: conversationId, inbox_id: 1 },
+        sender: { ...sender, name: "Ana" }
+      };
+    }
+
+    function conversationUpdate(
+      conversationId: number,
+      update: { status?: string; assigneeId?: number; labels?: string[] }
+    ) {
+      return {
+        event: "conversation_updated",
+        id: conversationId,
+        inbox_id: 1,
+        status: update.status ?? "open",
+        labels: update.labels ?? [],
+        meta: {
+          assignee: update.assigneeId
+            ? { id: update.assigneeId, name: "Ana", type: "user" }
+            : null
+        }
+      };
+    }
+
+    it("pauses when a human agent replies and resumes on /bot resume", async () => {
+      const conversationId = 4949;
+      let generations = 0;
+      const stub = await stubGeneration(conversationId, async () => {
+        generations++;
+        return "Posso ajudar com mais alguma coisa?";
+      });
+      const { queue } = recordingQueue();
+
+      const botReply = await postWebhook(
+        agentMessage(conversationId, 9301, "Olá!", {
+          id: 1,
+          type: "agent_bot"
+        }),
+        queue
+      );
+      expect(await botReply.json()).toMatchObject({ status: "ignored" });
+
+      const humanReply = await postWebhook(
+        agentMessage(conversationId, 9302, "Oi, aqui é a Ana do comercial", {
+          id: 7,
+          type: "user"
+        }),
+        queue
+      );
+      expect(await humanReply.json()).toMatchObject({
+        status: "processed",
+        handoff: { status: "human", reason: "agent_message" }
+      });
+
+      expect(
+        await stub.processChatwootMessage(inboundEvent(conversationId, 9303))
+      ).toEqual({ status: "paused" });
+      expect(generations).toBe(0);
+      const history = await runInDurableObject(
+        stub,
+        (instance: Chat) => instance.messages
+      );
+      expect(history.map(({ role }) => role)).toEqual(["assistant", "user"]);
+
+      const note = await postWebhook(
+        agentMessage(
+          conversationId,
+          9304,
+          "/bot resume",
+          { id: 7, type: "user" },
+          true
+        ),
+        queue
+      );
+      expect(await note.json()).toMatchObject({
+        handoff: { status: "bot", reason: "command" }
+      });
+      expect(
+        await stub.processChatwootMessage(inboundEvent(conversationId, 9305))
+      ).toMatchObject({ status: "processed" });
+      expect(generations).toBe(1);
+    });
+
+    it("recognizes its own replies without CHATWOOT_BOT_USER_ID", async () => {
+      const conversationId = 4950;
+      const { queue } = recordingQueue();
+      const stub = env.Chat.get(
+        env.Chat.idFromName(getChatwootAgentId(conversationId))
+      );
+      expect(process.env.CHATWOOT_BOT_USER_ID).toBeUndefined();
+
+      await stub.sendChatwootReply(conversationId, "Olá! Como posso ajudar?");
+      const sentId = chatwoot.messageIds.at(-1)!;
+
+      // Sent with a user access token, the reply comes back as that user
+      const botReply = await postWebhook(
+        agentMessage(conversationId, sentId, "Olá! Como posso ajudar?", {
+          id: 3,
+          type: "user"
+        }),
+        queue
+      );
+      expect(await botReply.json()).toMatchObject({ status: "ignored" });
+      expect(
+        await runInDurableObject(stub, (instance: Chat) =>
+          instance.getChatwootHandoff()
+        )
+      ).toMatchObject({ status: "bot" });
+
+      const humanReply = await postWebhook(
+        agentMessage(conversationId, 9311, "Oi, aqui é a Ana", {
+          id: 3,
+          type: "user"
+        }),
+        queue
+      );
+      expect(await humanReply.json()).toMatchObject({
+        handoff: { status: "human", reason: "agent_message" }
+      });
+    });
+
+    it("follows assignments, resolution and the resume label", async () => {
+      const conversationId = 5050;
+      const { queue } = recordingQueue();
+      chatwoot.labels.set(conversationId, ["vip", BOT_RESUME_LABEL]);
+
+      const handoff = async (event: unknown) =>
+        (
+          (await (await postWebhook(event, queue)).json()) as {
+            handoff: ChatwootHandoff;
+          }
+        ).handoff;
+
+      expect(
+        await handoff(conversationUpdate(conversationId, { assigneeId: 7 }))
+      ).toMatchObject({ status: "human", reason: "assigned", assigneeId: 7 });
+      expect(
+        await handoff({
+          ...conversationUpdate(conversationId, {
+            status: "resolved",
+            assigneeId: 7
+          }),
+          event: "conversation_status_changed"
+        })
+      ).toMatchObject({ status: "bot", reason: "resolved" });
+
+      // Reopened with the same assignee: the bot keeps answering
+      expect(
+        await handoff(conversationUpdate(conversationId, { assigneeId: 7 }))
+      ).toMatchObject({ status: "bot" });
+
+      await postWebhook(
+        agentMessage(
+          conversationId,
+          9401,
+          "/bot pause",
+          { id: 7, type: "user" },
+          true
+        ),
+        queue
+      );
+      expect(
+        await handoff(
+          conversationUpdate(conversationId, {
+            assigneeId: 7,
+            labels: ["vip", BOT_RESUME_LABEL]
+          })
+        )
+      ).toMatchObject({ status: "bot", reason: "label" });
+      expect(chatwoot.labels.get(conversationId)).toEqual(["vip"]);
+    });
+  });
+
+  describe("buffered replies", () => {
+    let chatwoot: ReturnType<typeof mockChatwoot>;
+
+    beforeAll(() => {
+      fetchMock.activate();
+      fetchMock.disableNetConnect();
+      chatwoot = mockChatwoot();
+    });
+
+    afterAll(() => {
+      chatwoot.restore();
+      fetchMock.deactivate();
+    });
+
+    async function bufferBurst(conversationId: number, ids: number[]) {
+      const stub = env.Chat.get(
+        env.Chat.idFromName(getChatwootAgentId(conversationId))
+      );
+      const counter = { generations: 0 };
+      await runInDurableObject(stub, (instance: Chat) => {
+        instance.getChatwootDebounceSeconds = () => 5;
+        instance.generateChatwootResponse = async () => {
+          counter.generations++;
+          return "Claro! Temos três planos.";
+        };
+      });
+      for (const id of ids) {
+        await stub.processChatwootMessage(inboundEvent(conversationId, id));
+      }
+      return { stub, counter };
+    }
+
+    async function pendingDelivery(stub: DurableObjectStub<Chat>) {
+      return runInDurableObject(stub, (instance: Chat) =>
+        instance
+          .getSchedules<Parameters<Chat["deliverChatwootBuffer"]>[0]>()
+          .filter((schedule) => schedule.callback === "deliverChatwootBuffer")
+          .map((schedule) => schedule.payload)
+      );
+    }
+
+    it("retries a reply that could not be posted", async () => {
+      const conversationId = 4551;
+      const { stub } = await bufferBurst(conversationId, [9211, 9212]);
+
+      chatwoot.fail = (request) => request.conversationId === conversationId;
+      await stub.flushChatwootBuffer();
+      chatwoot.fail = undefined;
+
+      const [retry] = await pendingDelivery(stub);
+      expect(retry).toEqual({
+        conversationId,
+        messageIds: [9211, 9212],
+        attempt: 2
+      });
+      expect(
+        await stub.processChatwootMessage(inboundEvent(conversationId, 9211))
+      ).toMatchObject({ status: "duplicate", delivered: false });
+
+      await stub.deliverChatwootBuffer(retry);
+
+      expect(
+        chatwoot.requests
+          .filter((request) => request.conversationId === conversationId)
+          .map(({ body }) => body?.content)
+      ).toEqual(["Claro! Temos três planos."]);
+      expect(
+        await stub.processChatwootMessage(inboundEvent(conversationId, 9212))
+      ).toMatchObject({ status: "duplicate", delivered: true });
+    });
+
+    it("does not answer the burst again after giving up", async () => {
+      const conversationId = 4552;
+      const { stub, counter } = await bufferBurst(conversationId, [9221]);
+
+      chatwoot.fail = (request) => request.conversationId === conversationId;
+      await stub.flushChatwootBuffer();
+      let [retry] = await pendingDelivery(stub);
+      while (retry) {
+        await runInDurableObject(stub, async (instance: Chat) => {
+          for (const schedule of instance.getSchedules()) {
+            await instance.cancelSchedule(schedule.id);
+          }
+        });
+        await stub.deliverChatwootBuffer(retry);
+        [retry] = await pendingDelivery(stub);
+      }
+      chatwoot.fail = undefined;
+
+      const status = await runInDurableObject(
+        stub,
+        (instance: Chat) =>
+          instance.sql<{ status: string }>`
+            select status from chatwoot_processed_messages
+            where message_id = ${9221}`
+      );
+      expect(status).toEqual([{ status: "failed" }]);
+
+      // A redelivered webhook finds the reply; it is not generated again
+      expect(
+        await stub.processChatwootMessage(inboundEvent(conversationId, 9221))
+      ).toMatchObject({
+        status: "duplicate",
+        response: "Claro! Temos três planos."
+      });
+      expect(counter.generations).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,426 @@
+import {
+  env,
+  createExecutionContext,
+  fetchMock,
+  introspectWorkflow,
+  introspectWorkflowInstance,
+  runInDurableObject,
+  waitOnExecutionContext,
+  type WorkflowInstanceModifier
+} from "cloudflare:test";
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import worker, { type Chat } from "../src/server";
+import { getChatwootAgentId } from "../src/chatwoot";
+import type { ChatwootWebhookEvent } from "../src/chatwoot-types";
+import type {
+  CustomerSupportParams,
+  CustomerSupportResult,
+  SupportWorkflow
+} from "../src/workflows/customer-support";
+import { tools } from "../src/tools";
+import { mockChatwoot } from "./chatwoot-mock";
+
+async function runWorkflow(
+  id: string,
+  params: CustomerSupportParams,
+  modify?: (m: WorkflowInstanceModifier) => Promise<void>
+) {
+  await using instance = await introspectWorkflowInstance(
+    env.CUSTOMER_SUPPORT_WORKFLOW,
+    id
+  );
+  await instance.modify(async (m) => {
+    await m.disableSleeps();
+    await modify?.(m);
+  });
+  const workflow = await env.CUSTOMER_SUPPORT_WORKFLOW.create({ id, params });
+  await instance.waitForStatus("complete");
+  return (await workflow.status()).output as CustomerSupportResult;
+}
+
+describe("CustomerSupportWorkflow", () => {
+  let chatwoot: ReturnType<typeof mockChatwoot>;
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+    chatwoot = mockChatwoot();
+  });
+
+  afterAll(() => {
+    chatwoot.restore();
+    fetchMock.deactivate();
+  });
+
+  it("sends the follow-up when the customer stays quiet", async () => {
+    const result = await runWorkflow(
+      "support-follow-up",
+      {
+        conversationId: 6101,
+        customerId: 0,
+        action: "follow_up",
+        delayMinutes: 30,
+        message: "Conseguiu ver a proposta?"
+      },
+      (m) => m.forceEventTimeout({ name: "wait-for-reply" })
+    );
+
+    expect(result).toEqual({
+      action: "follow_up",
+      conversationId: 6101,
+      status: "completed",
+      messageId: expect.any(Number)
+    });
+    expect(
+      chatwoot.requests.filter(({ conversationId }) => conversationId === 6101)
+    ).toEqual([
+      {
+        method: "POST",
+        conversationId: 6101,
+        resource: "messages",
+        body: {
+          content: "Conseguiu ver a proposta?",
+          message_type: "outgoing",
+          private: false
+        }
+      }
+    ]);
+  });
+
+  it("drops the follow-up when the customer replies first", async () => {
+    const result = await runWorkflow(
+      "support-follow-up-replied",
+      {
+        conversationId: 6105,
+        customerId: 0,
+        action: "follow_up",
+        delayMinutes: 30
+      },
+      (m) => m.mockEvent({ type: "customer-replied", payload: {} })
+    );
+
+    expect(result).toEqual({
+      action: "follow_up",
+      conversationId: 6105,
+      status: "cancelled"
+    });
+    expect(
+      chatwoot.requests.filter(({ conversationId }) => conversationId === 6105)
+    ).toEqual([]);
+  });
+
+  it("reopens, assigns, labels and notes an escalation", async () => {
+    chatwoot.labels.set(6102, ["whatsapp"]);
+
+    const result = await runWorkflow("support-escalate", {
+      conversationId: 6102,
+      customerId: 0,
+      action: "escalate",
+      teamId: 3,
+      message: "Cliente pediu desconto para 20 usuários"
+    });
+
+    expect(result).toMatchObject({
+      action: "escalate",
+      status: "completed",
+      labels: ["whatsapp", "escalated"],
+      route: { teamId: 3, priority: "medium" }
+    });
+    expect(
+      chatwoot.requests
+        .filter(({ conversationId }) => conversationId === 6102)
+        .map(({ method, resource, body }) => [method, resource, body])
+    ).toEqual([
+      ["POST", "toggle_status", { status: "open" }],
+      ["POST", "assignments", { team_id: 3 }],
+      ["POST", "toggle_priority", { priority: "medium" }],
+      ["GET", "labels", undefined],
+      ["POST", "labels", { labels: ["whatsapp", "escalated"] }],
+      [
+        "POST",
+        "messages",
+        {
+          content: expect.stringContaining(
+            "Motivo: Cliente pediu desconto para 20 usuários (other)"
+          ),
+          message_type: "outgoing",
+          private: true
+        }
+      ]
+    ]);
+  });
+
+  it("routes escalations by category", async () => {
+    const result = await runWorkflow("support-escalate-billing", {
+      conversationId: 6106,
+      customerId: 0,
+      action: "escalate",
+      category: "billing",
+      message: "Erro ao gerar link de pagamento"
+    });
+
+    expect(result.route).toEqual({ priority: "high" });
+    const note = chatwoot.requests.find(
+      ({ conversationId, resource }) =>
+        conversationId === 6106 && resource === "messages"
+    );
+    expect(note?.body?.content).toBe(
+      [
+        "🙋 Conversa encaminhada pelo assistente virtual.",
+        "Motivo: Erro ao gerar link de pagamento (billing)",
+        "Resumo: Erro ao gerar link de pagamento",
+        "Intenção: Erro ao gerar link de pagamento",
+        "Plano de interesse: não informado",
+        "Email do cliente: não informado"
+      ].join("\n")
+    );
+  });
+
+  it("pauses the bot of an escalated conversation", async () => {
+    await using introspector = await introspectWorkflow(
+      env.CUSTOMER_SUPPORT_WORKFLOW
+    );
+    await introspector.modifyAll(async (m) => {
+      await m.mockStepResult(
+        { name: "summarize-conversation" },
+        { summary: "Cliente quer falar com um gerente", intent: "gerente" }
+      );
+    });
+    const stub = env.Chat.get(env.Chat.idFromName(getChatwootAgentId(6107)));
+
+    await runInDurableObject(stub, (instance: Chat) =>
+      instance.startSupportWorkflow({
+        conversationId: 6107,
+        customerId: 0,
+        action: "escalate",
+        category: "complaint",
+        message: "Cliente pediu para falar com um gerente"
+      })
+    );
+    const [workflow] = introspector.get();
+    await workflow.waitForStatus("complete");
+
+    expect(
+      await runInDurableObject(stub, (instance: Chat) =>
+        instance.getChatwootHandoff()
+      )
+    ).toMatchObject({ status: "human", reason: "escalated" });
+  });
+
+  it("sends the survey and labels the conversation", async () => {
+    const result = await runWorkflow("support-survey", {
+      conversationId: 6103,
+      customerId: 0,
+      action: "send_survey",
+      delayMinutes: 5
+    });
+
+    expect(result).toMatchObject({
+      action: "send_survey",
+      status: "completed",
+      labels: ["survey-sent"]
+    });
+    expect(chatwoot.requests).toContainEqual(
+      expect.objectContaining({
+        conversationId: 6103,
+        resource: "messages",
+        body: expect.objectContaining({
+          content: "Por favor, avalie nosso atendimento de 1 a 5 estrelas."
+        })
+      })
+    );
+  });
+
+  it("skips the action when Chatwoot is not configured", async () => {
+    const baseUrl = process.env.CHATWOOT_BASE_URL;
+    delete process.env.CHATWOOT_BASE_URL;
+    try {
+      const result = await runWorkflow("support-unconfigured", {
+        conversationId: 6104,
+        customerId: 0,
+        action: "follow_up"
+      });
+      expect(result).toEqual({
+        action: "follow_up",
+        conversationId: 6104,
+        status: "skipped"
+      });
+    } finally {
+      process.env.CHATWOOT_BASE_URL = baseUrl;
+    }
+  });
+});
+
+describe("support workflows of a conversation", () => {
+  const CONVERSATION_ID = 6201;
+  const stub = env.Chat.get(
+    env.Chat.idFromName(getChatwootAgentId(CONVERSATION_ID))
+  );
+
+  function customerMessage(id: number, content: string) {
+    return {
+      event: "message_created",
+      id,
+      content,
+      content_type: "text",
+      message_type: "incoming",
+      created_at: new Date().toISOString(),
+      conversation: { id: CONVERSATION_ID, inbox_id: 1 }
+    } as ChatwootWebhookEvent;
+  }
+
+  async function admin(path: string, method = "GET") {
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(
+      new Request(`http://example.com${path}`, {
+        method,
+        headers: { Authorization: "Bearer test-admin-token" }
+      }),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+    return response;
+  }
+
+  it("cancels the pending follow-up when the customer writes", async () => {
+    await using introspector = await introspectWorkflow(
+      env.CUSTOMER_SUPPORT_WORKFLOW
+    );
+
+    const instanceId = await runInDurableObject(
+      stub,
+      async (instance: Chat) => {
+        instance.generateChatwootResponse = async () => "Claro!";
+        await instance.processChatwootMessage(
+          customerMessage(62010, "Vou pensar e te aviso")
+        );
+        return instance.startSupportWorkflow({
+          conversationId: CONVERSATION_ID,
+          customerId: 0,
+          action: "follow_up",
+          delayMinutes: 60
+        });
+      }
+    );
+
+    const [workflow] = introspector.get();
+    await workflow.waitForStepResult({ name: "log-workflow-start" });
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      await instance.processChatwootMessage(
+        customerMessage(62011, "Decidi, quero o Profissional")
+      );
+      expect(await instance.listSupportWorkflows()).toEqual([
+        expect.objectContaining({
+          instanceId,
+          action: "follow_up",
+          status: "cancelled"
+        })
+      ]);
+    });
+
+    await workflow.waitForStatus("complete");
+    expect(
+      (await (await env.CUSTOMER_SUPPORT_WORKFLOW.get(instanceId)).status())
+        .output
+    ).toMatchObject({ status: "cancelled" });
+  });
+
+  it("starts workflows from the model's tools", async () => {
+    await using introspector = await introspectWorkflow(
+      env.CUSTOMER_SUPPORT_WORKFLOW
+    );
+    await introspector.modifyAll(async (m) => {
+      await m.mockStepResult(
+        { name: "summarize-conversation" },
+        { summary: "Cliente quer falar com o gerente", intent: "vendas" }
+      );
+    });
+    const conversationId = 6202;
+    const toolStub = env.Chat.get(
+      env.Chat.idFromName(getChatwootAgentId(conversationId))
+    );
+    const options = { toolCallId: "tool-call", messages: [] };
+
+    const { replies, workflows } = await runInDurableObject(
+      toolStub,
+      async (instance: Chat) => {
+        // Tools run inside the agent's context, as they do during generation
+        const replies: unknown[] = [];
+        instance.generateChatwootResponse = async () => {
+          replies.push(
+            await tools.scheduleFollowUp.execute!(
+              { delayMinutes: 60, message: "Conseguiu ver a proposta?" },
+              options
+            ),
+            await tools.escalateToHuman.execute!(
+              { reason: "Pediu para falar com o gerente", category: "sales" },
+              options
+            ),
+            await tools.sendSatisfactionSurvey.execute!(
+              { delayMinutes: 30 },
+              options
+            )
+          );
+          return "Certo!";
+        };
+        await instance.processChatwootMessage({
+          ...customerMessage(62020, "Quero falar com o gerente"),
+          conversation: { id: conversationId, inbox_id: 1 }
+        } as ChatwootWebhookEvent);
+        const workflows = instance.sql<{ action: string }>`
+          select action from support_workflows order by created_at`;
+        return { replies, workflows };
+      }
+    );
+
+    expect(replies).toEqual([
+      expect.stringContaining("Follow-up scheduled successfully"),
+      expect.stringContaining("Solicitação encaminhada com sucesso"),
+      expect.stringContaining("Satisfaction survey scheduled")
+    ]);
+    expect(workflows.map(({ action }) => action)).toEqual([
+      "follow_up",
+      "escalate",
+      "send_survey"
+    ]);
+  });
+
+  it("lists and cancels workflows through the admin API", async () => {
+    const instanceId = await runInDurableObject(stub, (instance: Chat) =>
+      instance.startSupportWorkflow({
+        conversationId: CONVERSATION_ID,
+        customerId: 0,
+        action: "send_survey",
+        delayMinutes: 60
+      })
+    );
+
+    const listed = (await (
+      await admin(`/admin/conversations/${CONVERSATION_ID}/workflows`)
+    ).json()) as { workflows: SupportWorkflow[] };
+    expect(listed.workflows[0]).toMatchObject({
+      instanceId,
+      action: "send_survey",
+      status: "active"
+    });
+
+    const cancelled = await admin(
+      `/admin/conversations/${CONVERSATION_ID}/workflows/${instanceId}`,
+      "DELETE"
+    );
+    expect(await cancelled.json()).toMatchObject({
+      success: true,
+      workflow: { instanceId, status: "cancelled" }
+    });
+    expect(
+      (
+        await admin(
+          `/admin/conversations/${CONVERSATION_ID}/workflows/unknown`,
+          "DELETE"
+        )
+      ).status
+    ).toBe(404);
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  env,
+  createExecutionContext,
+  runInDurableObject,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import worker, { type Chat } from "../src/server";
+import { getChatwootAgentId } from "../src/chatwoot";
+import type { ChatwootWebhookEvent } from "../src/chatwoot-types";
+import {
+  DEFAULT_ESCALATION_ROUTING,
+  escalationRoutingSchema,
+  isBusinessHours,
+  routeEscalation,
+  type EscalationRouting
+} from "../src/escalation";
+
+// Tuesday 2025-06-10, 10:00 and 20:00 in São Paulo (UTC-3)
+const TUESDAY_MORNING = new Date("2025-06-10T13:00:00Z");
+const TUESDAY_NIGHT = new Date("2025-06-10T23:00:00Z");
+
+const ROUTING: EscalationRouting = {
+  ...DEFAULT_ESCALATION_ROUTING,
+  rules: [
+    { categories: ["billing"], businessHours: true, teamId: 2 },
+    { languages: ["es"], teamId: 4 },
+    { businessHours: false, assigneeId: 9, priority: "low" },
+    { categories: ["complaint"], priority: "urgent" }
+  ],
+  fallback: { teamId: 1, priority: "medium" }
+};
+
+async function adminRouting(init: RequestInit = {}) {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(
+    new Request("http://example.com/admin/escalation-routing", {
+      ...init,
+      headers: { authorization: "Bearer test-admin-token" }
+    }),
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+describe("escalation routing", () => {
+  it("ships a valid default routing", () => {
+    expect(
+      escalationRoutingSchema.safeParse(DEFAULT_ESCALATION_ROUTING).success
+    ).toBe(true);
+  });
+
+  it("checks business hours in the routing's time zone", () => {
+    expect(isBusinessHours(ROUTING, TUESDAY_MORNING)).toBe(true);
+    expect(isBusinessHours(ROUTING, TUESDAY_NIGHT)).toBe(false);
+    // Saturday 10:00
+    expect(isBusinessHours(ROUTING, new Date("2025-06-14T13:00:00Z"))).toBe(
+      false
+    );
+  });
+
+  it("applies the first matching rule over the fallback", () => {
+    expect(
+      routeEscalation(ROUTING, {
+        category: "billing",
+        language: "pt",
+        now: TUESDAY_MORNING
+      })
+    ).toEqual({ teamId: 2, assigneeId: undefined, priority: "medium" });
+    expect(
+      routeEscalation(ROUTING, {
+        category: "billing",
+        language: "es",
+        now: TUESDAY_NIGHT
+      })
+    ).toEqual({ teamId: 4, assigneeId: undefined, priority: "medium" });
+    expect(
+      routeEscalation(ROUTING, { category: "complaint", now: TUESDAY_NIGHT })
+    ).toEqual({ teamId: 1, assigneeId: 9, priority: "low" });
+    expect(
+      routeEscalation(ROUTING, {
+        category: "complaint",
+        now: TUESDAY_MORNING
+      })
+    ).toEqual({ teamId: 1, assigneeId: undefined, priority: "urgent" });
+  });
+
+  it("validates and saves routing through the admin API", async () => {
+    const invalid = await adminRouting({
+      method: "PUT",
+      body: JSON.stringify({
+        ...ROUTING,
+        timeZone: "America/Atlantis",
+        rules: [{ categories: ["refund"] }]
+      })
+    });
+    expect(invalid.status).toBe(400);
+    expect(
+      ((await invalid.json()) as { issues: { path: string[] }[] }).issues.map(
+        ({ path }) => path.join(".")
+      )
+    ).toEqual(["timeZone", "rules.0.categories.0"]);
+
+    const saved = await adminRouting({
+      method: "PUT",
+      body: JSON.stringify(ROUTING)
+    });
+    expect(saved.status).toBe(200);
+    expect(await (await adminRouting()).json()).toMatchObject({
+      success: true,
+      routing: { rules: ROUTING.rules, updatedAt: expect.any(String) }
+    });
+
+    // Back to the default routing for the other tests
+    await adminRouting({
+      method: "PUT",
+      body: JSON.stringify(DEFAULT_ESCALATION_ROUTING)
+    });
+  });
+});
+
+describe("handoff summary", () => {
+  it("carries the plan and email of the last order", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName(getChatwootAgentId(6301)));
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      instance.generateChatwootResponse = async () => "Qual o seu email?";
+      await instance.processChatwootMessage({
+        event: "message_created",
+        id: 63010,
+        content: "Quero o Básico, mas preciso de nota fiscal com CNPJ",
+        content_type: "text",
+        message_type: "incoming",
+        created_at: new Date().toISOString(),
+        conversation: { id: 6301, inbox_id: 1 }
+      } as ChatwootWebhookEvent);
+      await instance.createPaymentLink({
+        planSku: "basico-mensal",
+        customerEmail: "cliente@email.com"
+      });
+
+      expect(
+        await instance.getHandoffSummary("Cliente precisa de nota fiscal")
+      ).toMatchObject({
+        summary: expect.any(String),
+        intent: expect.any(String),
+        planSku: "basico-mensal",
+        customerEmail: "cliente@email.com"
+      });
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  env,
+  createExecutionContext,
+  runInDurableObject,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import worker, { type Chat } from "../src/server";
+import { DEFAULT_CATALOG } from "../src/catalog";
+import {
+  MAX_PAYMENT_QUANTITY,
+  checkPaymentRequest
+} from "../src/payment-guardrails";
+
+const valid = {
+  planSku: "profissional-mensal",
+  customerEmail: "cliente@email.com"
+};
+
+function rejectionCode(request: Parameters<typeof checkPaymentRequest>[1]) {
+  const result = checkPaymentRequest(DEFAULT_CATALOG, request);
+  return result.ok ? null : result.error.code;
+}
+
+describe("checkPaymentRequest", () => {
+  it("prices a valid request from the catalog", () => {
+    const result = checkPaymentRequest(DEFAULT_CATALOG, {
+      ...valid,
+      quantity: 2,
+      quotedAmount: 394
+    });
+
+    expect(result.ok && result.payment).toMatchObject({
+      unitPrice: 197,
+      total: 394,
+      currency: "BRL",
+      quantity: 2
+    });
+  });
+
+  it("rejects unknown plans and amounts that differ from the catalog", () => {
+    expect(rejectionCode({ ...valid, planSku: "ouro" })).toBe("UNKNOWN_PLAN");
+    expect(rejectionCode({ ...valid, quotedAmount: 19.7 })).toBe(
+      "PRICE_MISMATCH"
+    );
+  });
+
+  it("caps quantities", () => {
+    expect(rejectionCode({ ...valid, quantity: 0 })).toBe("INVALID_QUANTITY");
+    expect(rejectionCode({ ...valid, quantity: 1.5 })).toBe("INVALID_QUANTITY");
+    expect(
+      rejectionCode({ ...valid, quantity: MAX_PAYMENT_QUANTITY + 1 })
+    ).toBe("INVALID_QUANTITY");
+  });
+
+  it("only accepts BRL for customers in Brazil", () => {
+    expect(rejectionCode({ ...valid, currency: "USD" })).toBe(
+      "CURRENCY_NOT_ALLOWED"
+    );
+    expect(rejectionCode({ ...valid, currency: "brl" })).toBeNull();
+  });
+
+  it("requires a valid customer email with a recovery hint", () => {
+    const result = checkPaymentRequest(DEFAULT_CATALOG, {
+      ...valid,
+      customerEmail: "cliente@"
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        code: "INVALID_EMAIL",
+        field: "customerEmail",
+        message: "Invalid customer email: cliente@",
+        recovery: "Ask the customer for a valid email address and try again"
+      }
+    });
+    expect(rejectionCode({ ...valid, customerEmail: undefined })).toBe(
+      "INVALID_EMAIL"
+    );
+  });
+
+  it("requires name and CPF/CNPJ for boleto", () => {
+    const boleto = { ...valid, paymentMethod: "boleto" as const };
+
+    expect(rejectionCode({ ...valid, paymentMethod: "pix" })).toBeNull();
+    expect(
+      rejectionCode({ ...boleto, customerDocument: "123.456.789-09" })
+    ).toBe("PAYER_DETAILS_REQUIRED");
+    expect(
+      rejectionCode({
+        ...boleto,
+        customerName: "Maria Souza",
+        customerDocument: "1234"
+      })
+    ).toBe("PAYER_DETAILS_REQUIRED");
+
+    const result = checkPaymentRequest(DEFAULT_CATALOG, {
+      ...boleto,
+      customerName: "Maria Souza",
+      customerDocument: "123.456.789-09"
+    });
+    expect(result.ok && result.payment).toMatchObject({
+      paymentMethod: "boleto",
+      customerDocument: "12345678909"
+    });
+  });
+});
+
+describe("Chat.createPaymentLink", () => {
+  it("audits attempts, rejections and created links", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("payment-audit-test"));
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      const rejected = await instance.createPaymentLink({
+        planSku: "basico-mensal",
+        quotedAmount: 90,
+        customerEmail: "cliente@email.com"
+      });
+      expect(rejected).toMatchObject({
+        status: "rejected",
+        error: { code: "PRICE_MISMATCH" }
+      });
+
+      const created = await instance.createPaymentLink(valid);
+      expect(created).toMatchObject({
+        status: "created",
+        preferenceId: "pref-profissional-mensal",
+        initPoint:
+          "https://mercadopago.test/checkout?sku=profissional-mensal&unit_price=197&quantity=1"
+      });
+
+      const audit = instance.sql<{
+        outcome: string;
+        plan_sku: string;
+        amount: number;
+        reason: string | null;
+      }>`select outcome, plan_sku, amount, reason from payment_audit order by id`;
+      expect(audit).toEqual([
+        {
+          outcome: "attempted",
+          plan_sku: "basico-mensal",
+          amount: 90,
+          reason: null
+        },
+        {
+          outcome: "rejected",
+          plan_sku: "basico-mensal",
+          amount: 90,
+          reason:
+            "PRICE_MISMATCH: Quoted R$ 90,00 but Plano Básico costs R$ 97,00"
+        },
+        {
+          outcome: "attempted",
+          plan_sku: "profissional-mensal",
+          amount: null,
+          reason: null
+        },
+        {
+          outcome: "created",
+          plan_sku: "profissional-mensal",
+          amount: 197,
+          reason: null
+        }
+      ]);
+    });
+  });
+});
+
+describe("payment links outside the agent", () => {
+  it("has no route that creates links at arbitrary prices", async () => {
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(
+      new Request("http://example.com/test/payment", {
+        method: "POST",
+        body: JSON.stringify({ title: "Plano Profissional", amount: 1 })
+      }),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  env,
+  createExecutionContext,
+  fetchMock,
+  runInDurableObject,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import worker, { type Chat } from "../src/server";
+
+describe("PIX and boleto payments", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    fetchMock.deactivate();
+  });
+
+  it("creates a PIX payment and stores its QR code", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("payment-methods-pix"));
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      const created = await instance.createPaymentLink({
+        planSku: "profissional-mensal",
+        customerEmail: "cliente@email.com",
+        paymentMethod: "pix"
+      });
+      if (created.status !== "created") {
+        throw new Error(`PIX not created: ${created.status}`);
+      }
+
+      const documentKey = `payments/${created.reference}/pix-880001.png`;
+      expect(created).toMatchObject({
+        initPoint: "https://www.mercadopago.com.br/payments/880001/ticket",
+        charge: {
+          method: "pix",
+          paymentId: "880001",
+          code: "00020126580014br.gov.bcb.pix0136880001",
+          documentKey,
+          expiresAt: created.expiresAt,
+          // Not a Chatwoot conversation
+          delivered: false
+        }
+      });
+      expect(created.preferenceId).toBeUndefined();
+
+      const qrCode = await env.R2_BUCKET.get(documentKey);
+      expect(qrCode?.httpMetadata?.contentType).toBe("image/png");
+      expect(qrCode?.customMetadata).toEqual({
+        reference: created.reference,
+        paymentId: "880001"
+      });
+
+      // The payment exists from the start, so lookups go by its id
+      expect(
+        await instance.getPaymentOrderDetails(created.reference)
+      ).toMatchObject({
+        status: "pending",
+        paymentId: "880001",
+        history: [
+          { status: "pending", paymentId: "880001", source: "createPayment" }
+        ],
+        charge: { method: "pix", documentKey }
+      });
+    });
+  });
+
+  it("creates a boleto and stores its PDF", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("payment-methods-boleto"));
+    fetchMock
+      .get("https://www.mercadopago.com.br")
+      .intercept({ path: "/payments/880002/ticket?caller_id=1" })
+      .reply(200, "%PDF-1.4 boleto", {
+        headers: { "content-type": "application/pdf" }
+      });
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      expect(
+        await instance.createPaymentLink({
+          planSku: "basico-mensal",
+          customerEmail: "cliente@email.com",
+          paymentMethod: "boleto"
+        })
+      ).toMatchObject({
+        status: "rejected",
+        error: { code: "PAYER_DETAILS_REQUIRED", field: "customerName" }
+      });
+
+      const created = await instance.createPaymentLink({
+        planSku: "basico-mensal",
+        customerEmail: "cliente@email.com",
+        customerName: "Maria Souza",
+        customerDocument: "123.456.789-09",
+        paymentMethod: "boleto"
+      });
+      if (created.status !== "created") {
+        throw new Error(`Boleto not created: ${created.status}`);
+      }
+
+      expect(created.charge).toMatchObject({
+        method: "boleto",
+        paymentId: "880002",
+        code: "23791000000000000000000000000000000880002",
+        documentKey: `payments/${created.reference}/boleto-880002.pdf`
+      });
+      const pdf = await env.R2_BUCKET.get(
+        `payments/${created.reference}/boleto-880002.pdf`
+      );
+      expect(await pdf?.text()).toBe("%PDF-1.4 boleto");
+    });
+  });
+
+  it("keeps payment documents out of reach of the /r2 API", async () => {
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(
+      new Request("http://example.com/r2/payments/forged.png", {
+        method: "PUT",
+        body: "forged"
+      }),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  env,
+  createExecutionContext,
+  createMessageBatch,
+  getQueueResult,
+  waitOnExecutionContext,
+  runInDurableObject
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import worker, { type Chat } from "../src/server";
+import { getChatwootAgentId } from "../src/chatwoot";
+import { QueueMessageType, type PaymentStatusMessage } from "../src/queue";
+import type { ChatwootWebhookEvent } from "../src/chatwoot-types";
+import type { PaymentStatusUpdate } from "../src/payment-types";
+
+const CONVERSATION_ID = 4747;
+const AGENT_ID = env.Chat.idFromName(getChatwootAgentId(CONVERSATION_ID));
+
+function paymentUpdate(
+  status: PaymentStatusUpdate["status"],
+  externalReference: string
+): PaymentStatusUpdate {
+  return {
+    paymentId: "123456789",
+    status,
+    externalReference,
+    amount: 197,
+    currency: "BRL",
+    description: "Plano Profissional Ingrave - Mensal"
+  };
+}
+
+async function consume(updates: PaymentStatusUpdate[]) {
+  const batch = createMessageBatch(
+    "queue-my-agent",
+    updates.map((data, index) => ({
+      id: `payment-${index}`,
+      timestamp: new Date(),
+      attempts: 1,
+      body: {
+        type: QueueMessageType.PAYMENT_STATUS,
+        timestamp: new Date().toISOString(),
+        data
+      } satisfies PaymentStatusMessage
+    }))
+  );
+  const ctx = createExecutionContext();
+  await worker.queue(batch, env, ctx);
+  return getQueueResult(batch, ctx);
+}
+
+describe("payment status notifications", () => {
+  it("records status changes once and notifies the conversation", async () => {
+    const stub = env.Chat.get(AGENT_ID);
+
+    // Start the conversation from Chatwoot so the agent knows where to post
+    const reference = await runInDurableObject(stub, async (instance: Chat) => {
+      instance.generateChatwootResponse = async () => "Segue o link!";
+      await instance.processChatwootMessage({
+        event: "message_created",
+        id: 9501,
+        content: "Quero o Profissional",
+        content_type: "text",
+        message_type: "incoming",
+        created_at: new Date().toISOString(),
+        conversation: { id: CONVERSATION_ID, inbox_id: 1 }
+      } as ChatwootWebhookEvent);
+      const created = await instance.createPaymentLink({
+        planSku: "profissional-mensal",
+        customerEmail: "cliente@email.com"
+      });
+      if (created.status !== "created") {
+        throw new Error(`Payment link not created: ${created.status}`);
+      }
+      return created.reference;
+    });
+
+    const result = await consume([
+      paymentUpdate("pending", reference),
+      paymentUpdate("approved", reference)
+    ]);
+    expect(result.explicitAcks).toEqual(["payment-0", "payment-1"]);
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      const notifications = instance.messages.filter(
+        (message) =>
+          (message.metadata as { paymentId?: string } | undefined)?.paymentId
+      );
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].parts).toEqual([
+        {
+          type: "text",
+          text: "✅ Pagamento confirmado! Recebemos R$ 197,00 referente a *Plano Profissional Ingrave - Mensal*. Em instantes você receberá por email as informações de acesso."
+        }
+      ]);
+
+      // A redelivered webhook is recognized; Chatwoot is not configured in
+      // tests, so the notification is still pending delivery
+      expect(
+        await instance.recordPaymentStatus(paymentUpdate("approved", reference))
+      ).toMatchObject({
+        status: "duplicate",
+        conversationId: CONVERSATION_ID,
+        delivered: false
+      });
+
+      const statuses = instance.sql<{ status: string }>`
+        select status from payment_status_updates order by received_at`;
+      expect(statuses.map(({ status }) => status)).toEqual([
+        "pending",
+        "approved"
+      ]);
+    });
+  });
+
+  it("ignores payments that match no order of the agent", async () => {
+    const stub = env.Chat.get(AGENT_ID);
+    // Names the agent, but no link was created under it
+    const forged = `${AGENT_ID.toString()}.${CONVERSATION_ID}.profissional-mensal.f0f0f0`;
+
+    const result = await consume([
+      { ...paymentUpdate("approved", forged), paymentId: "987654321" }
+    ]);
+    expect(result.explicitAcks).toEqual(["payment-0"]);
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      expect(
+        instance.messages.filter(
+          (message) =>
+            (message.metadata as { paymentId?: string } | undefined)
+              ?.paymentId === "987654321"
+        )
+      ).toEqual([]);
+      expect(
+        instance.sql`select * from payment_status_updates
+          where payment_id = ${"987654321"}`
+      ).toEqual([]);
+    });
+  });
+
+  it("does not accept payment updates through the public queue API", async () => {
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(
+      new Request("http://example.com/queue/send", {
+        method: "POST",
+        body: JSON.stringify({
+          type: QueueMessageType.PAYMENT_STATUS,
+          data: paymentUpdate("approved", AGENT_ID.toString())
+        })
+      }),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,261 @@
+import {
+  env,
+  createExecutionContext,
+  createMessageBatch,
+  getQueueResult,
+  waitOnExecutionContext,
+  runInDurableObject
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import worker, { type Chat } from "../src/server";
+import { getChatwootAgentId } from "../src/chatwoot";
+import { QueueMessageType, type PaymentStatusMessage } from "../src/queue";
+import type { ChatwootWebhookEvent } from "../src/chatwoot-types";
+import type { PaymentOrder, PaymentOrderDetails } from "../src/payment-types";
+import {
+  createPaymentReference,
+  parsePaymentReference
+} from "../src/payment-reference";
+
+const CONVERSATION_ID = 4848;
+const AGENT_ID = env.Chat.idFromName(getChatwootAgentId(CONVERSATION_ID));
+
+async function adminGet(path: string, token = "test-admin-token") {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(
+    new Request(`http://example.com${path}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    }),
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+function lookupOrder(reference: string, token?: string) {
+  return adminGet(`/admin/orders/${encodeURIComponent(reference)}`, token);
+}
+
+describe("payment references", () => {
+  const agentId = AGENT_ID.toString();
+
+  it("round-trips agent, conversation and plan", () => {
+    const reference = createPaymentReference({
+      agentId,
+      conversationId: CONVERSATION_ID,
+      planSku: "profissional-mensal"
+    });
+
+    expect(parsePaymentReference(reference)).toEqual({
+      agentId,
+      conversationId: CONVERSATION_ID,
+      planSku: "profissional-mensal",
+      nonce: expect.any(String)
+    });
+    expect(
+      createPaymentReference({ agentId, planSku: "basico-mensal" })
+    ).toMatch(new RegExp(`^${agentId}\\.web\\.basico-mensal\\.\\w+$`));
+  });
+
+  it("accepts legacy references and rejects foreign ones", () => {
+    expect(parsePaymentReference(agentId)).toEqual({ agentId });
+    expect(parsePaymentReference("pedido-123")).toBeNull();
+    expect(parsePaymentReference(`${agentId}.abc.basico-mensal.x1`)).toBeNull();
+    expect(parsePaymentReference(`${agentId}.1.basico-mensal`)).toBeNull();
+  });
+});
+
+describe("payment orders", () => {
+  it("tracks the last order from link to payment", async () => {
+    const stub = env.Chat.get(AGENT_ID);
+
+    const reference = await runInDurableObject(stub, async (instance: Chat) => {
+      expect(await instance.checkPaymentStatus()).toMatchObject({
+        status: "not_found"
+      });
+
+      instance.generateChatwootResponse = async () => "Qual o seu email?";
+      await instance.processChatwootMessage({
+        event: "message_created",
+        id: 9601,
+        content: "Quero o Básico",
+        content_type: "text",
+        message_type: "incoming",
+        created_at: new Date().toISOString(),
+        conversation: { id: CONVERSATION_ID, inbox_id: 1 }
+      } as ChatwootWebhookEvent);
+
+      const created = await instance.createPaymentLink({
+        planSku: "basico-mensal",
+        customerEmail: "cliente@email.com"
+      });
+      if (created.status !== "created") {
+        throw new Error(`Payment link not created: ${created.status}`);
+      }
+      expect(parsePaymentReference(created.reference)).toMatchObject({
+        agentId: AGENT_ID.toString(),
+        conversationId: CONVERSATION_ID,
+        planSku: "basico-mensal"
+      });
+
+      // Not paid yet: the last order is reported with its link
+      expect(await instance.checkPaymentStatus()).toEqual({
+        status: "found",
+        order: expect.objectContaining({
+          reference: created.reference,
+          planSku: "basico-mensal",
+          amount: 97,
+          conversationId: CONVERSATION_ID,
+          initPoint: created.initPoint,
+          status: "pending"
+        }),
+        payment: undefined
+      });
+
+      return created.reference;
+    });
+
+    const batch = createMessageBatch("queue-my-agent", [
+      {
+        id: "order-payment",
+        timestamp: new Date(),
+        attempts: 1,
+        body: {
+          type: QueueMessageType.PAYMENT_STATUS,
+          timestamp: new Date().toISOString(),
+          data: {
+            paymentId: "555000111",
+            status: "in_process",
+            externalReference: reference,
+            amount: 97,
+            currency: "BRL"
+          }
+        } satisfies PaymentStatusMessage
+      }
+    ]);
+    const ctx = createExecutionContext();
+    await worker.queue(batch, env, ctx);
+    expect((await getQueueResult(batch, ctx)).explicitAcks).toEqual([
+      "order-payment"
+    ]);
+
+    // Mercado Pago already approved it; the lookup brings the order up to date
+    await runInDurableObject(stub, async (instance: Chat) => {
+      expect(await instance.checkPaymentStatus()).toMatchObject({
+        status: "found",
+        order: { reference, status: "approved", paymentId: "555000111" },
+        payment: { id: 555000111, status: "approved" }
+      });
+    });
+
+    const response = await lookupOrder(reference);
+    expect(response.status).toBe(200);
+    const { order } = (await response.json()) as {
+      order: PaymentOrderDetails;
+    };
+    expect(order).toMatchObject({
+      reference,
+      status: "approved",
+      planSku: "basico-mensal",
+      items: [
+        {
+          sku: "basico-mensal",
+          title: "Plano Básico Ingrave - Mensal",
+          quantity: 1,
+          unitPrice: 97,
+          currency: "BRL",
+          billingPeriod: "monthly"
+        }
+      ]
+    });
+    expect(
+      order.history.map(({ status, paymentId, source }) => ({
+        status,
+        paymentId,
+        source
+      }))
+    ).toEqual([
+      { status: "pending", paymentId: undefined, source: "createPayment" },
+      { status: "in_process", paymentId: "555000111", source: "webhook" },
+      {
+        status: "approved",
+        paymentId: "555000111",
+        source: "checkPaymentStatus"
+      }
+    ]);
+
+    // Listed across conversations, with filters
+    const listed = (await (
+      await adminGet(`/admin/orders?conversation=${CONVERSATION_ID}`)
+    ).json()) as { orders: PaymentOrder[] };
+    expect(listed.orders).toEqual([
+      expect.objectContaining({ reference, status: "approved" })
+    ]);
+    const pending = (await (
+      await adminGet(
+        `/admin/orders?conversation=${CONVERSATION_ID}&status=pending`
+      )
+    ).json()) as { orders: PaymentOrder[] };
+    expect(pending.orders).toEqual([]);
+  });
+
+  it("only reports payments made in the same conversation", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("payment-orders-other"));
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      // The payment service returns the last link created, which belongs to
+      // another conversation
+      expect(await instance.checkPaymentStatus("555000111")).toEqual({
+        status: "not_found",
+        message: "Payment not found"
+      });
+    });
+  });
+
+  it("protects the lookup endpoint", async () => {
+    const reference = createPaymentReference({
+      agentId: AGENT_ID.toString(),
+      conversationId: CONVERSATION_ID,
+      planSku: "basico-mensal"
+    });
+
+    expect((await adminGet("/admin/orders", "wrong-token")).status).toBe(401);
+    expect((await adminGet("/admin/orders?limit=500")).status).toBe(400);
+    expect((await lookupOrder(reference, "wrong-token")).status).toBe(401);
+    expect((await lookupOrder("pedido-123")).status).toBe(400);
+    expect((await lookupOrder(reference)).status).toBe(404);
+  });
+
+  it("keeps order objects out of the public R2 endpoint", async () => {
+    await env.R2_BUCKET.put(
+      "orders/r2-read-test.json",
+      JSON.stringify({ customerEmail: "cliente@email.com" })
+    );
+
+    const read = async (path: string, init?: RequestInit) => {
+      const ctx = createExecutionContext();
+      const response = await worker.fetch(
+        new Request(`http://example.com${path}`, init),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return response;
+    };
+
+    expect((await read("/r2/orders/r2-read-test.json")).status).toBe(401);
+    expect(
+      (await read("/r2/orders/r2-read-test.json", { method: "HEAD" })).status
+    ).toBe(401);
+    expect((await read("/r2")).status).toBe(401);
+    expect((await read("/r2?prefix=ord")).status).toBe(401);
+    expect((await read("/r2?prefix=orders/r2")).status).toBe(401);
+    expect((await read("/r2?prefix=uploads/")).status).toBe(200);
+
+    const admin = await adminGet("/r2/orders/r2-read-test.json");
+    expect(admin.status).toBe(200);
+    expect(await admin.json()).toEqual({ customerEmail: "cliente@email.com" });
+    expect((await adminGet("/r2?prefix=orders/")).status).toBe(200);
+  });
+});
@@ -0,0 +1,132 @@
+import { env, introspectWorkflow, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import { getChatwootAgentId } from "../src/chatwoot";
+import type { ChatwootWebhookEvent } from "../src/chatwoot-types";
+
+async function createChatwootLink(instance: Chat, conversationId: number) {
+  instance.generateChatwootResponse = async () => "Qual o seu email?";
+  await instance.processChatwootMessage({
+    event: "message_created",
+    id: conversationId * 10,
+    content: "Quero o Básico",
+    content_type: "text",
+    message_type: "incoming",
+    created_at: new Date().toISOString(),
+    conversation: { id: conversationId, inbox_id: 1 }
+  } as ChatwootWebhookEvent);
+
+  const created = await instance.createPaymentLink({
+    planSku: "basico-mensal",
+    customerEmail: "cliente@email.com"
+  });
+  if (created.status !== "created") {
+    throw new Error(`Payment link not created: ${created.status}`);
+  }
+  return created;
+}
+
+describe("payment recovery", () => {
+  it("reminds the customer and expires the unpaid link", async () => {
+    await using introspector = await introspectWorkflow(
+      env.PAYMENT_RECOVERY_WORKFLOW
+    );
+    await introspector.modifyAll(async (m) => {
+      await m.disableSleeps();
+    });
+    await using support = await introspectWorkflow(
+      env.CUSTOMER_SUPPORT_WORKFLOW
+    );
+    await support.modifyAll(async (m) => {
+      await m.mockStepResult(
+        { name: "summarize-conversation" },
+        { summary: "Link expirou sem pagamento", intent: "pagamento" }
+      );
+    });
+
+    const stub = env.Chat.get(env.Chat.idFromName(getChatwootAgentId(5151)));
+    const created = await runInDurableObject(stub, (instance: Chat) =>
+      createChatwootLink(instance, 5151)
+    );
+    // Links stay payable for 48 hours by default
+    expect(Date.parse(created.expiresAt) - Date.now()).toBeGreaterThan(
+      47 * 60 * 60 * 1000
+    );
+
+    const [workflow] = introspector.get();
+    await workflow.waitForStatus("complete");
+    const escalationId = await workflow.waitForStepResult({ name: "escalate" });
+    const [escalation] = support.get();
+    await escalation.waitForStatus("complete");
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      const order = await instance.getPaymentOrderDetails(created.reference);
+      expect(order).toMatchObject({
+        status: "expired",
+        recovery: {
+          status: "expired",
+          remindersSent: 2,
+          expiresAt: created.expiresAt
+        }
+      });
+      expect(
+        order?.history.map(({ status, source }) => [status, source])
+      ).toEqual([
+        ["pending", "createPayment"],
+        ["expired", "paymentRecovery"]
+      ]);
+
+      const reminders = instance.messages.filter(
+        (message) =>
+          (message.metadata as { paymentReminder?: number } | undefined)
+            ?.paymentReminder
+      );
+      expect(reminders).toHaveLength(2);
+      expect(reminders[0].parts).toEqual([
+        {
+          type: "text",
+          text: expect.stringContaining(created.initPoint ?? "")
+        }
+      ]);
+
+      // The escalation is tracked with the conversation's support workflows
+      expect(await instance.listSupportWorkflows()).toEqual([
+        expect.objectContaining({
+          instanceId: escalationId,
+          action: "escalate"
+        })
+      ]);
+
+      // A retried reminder step does not remind the customer again
+      expect(await instance.sendPaymentReminder(created.reference, 2)).toBe(
+        false
+      );
+    });
+  });
+
+  it("stops following up once the payment is approved", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName(getChatwootAgentId(5252)));
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      const created = await createChatwootLink(instance, 5252);
+      expect(
+        (await instance.getPaymentOrderDetails(created.reference))?.recovery
+      ).toMatchObject({ status: "active", remindersSent: 0 });
+
+      await instance.recordPaymentStatus({
+        paymentId: "515200001",
+        status: "approved",
+        externalReference: created.reference,
+        amount: 97,
+        currency: "BRL"
+      });
+
+      expect(
+        (await instance.getPaymentOrderDetails(created.reference))?.recovery
+      ).toMatchObject({ status: "paid", remindersSent: 0 });
+      expect(await instance.sendPaymentReminder(created.reference, 1)).toBe(
+        false
+      );
+    });
+  });
+});
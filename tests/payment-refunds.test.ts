@@ -0,0 +1,124 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+
+describe("payment refunds and cancellations", () => {
+  it("refunds an approved payment after checking amount and status", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("payment-refunds-test"));
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      const created = await instance.createPaymentLink({
+        planSku: "profissional-mensal",
+        customerEmail: "cliente@email.com"
+      });
+      if (created.status !== "created") {
+        throw new Error(`Payment link not created: ${created.status}`);
+      }
+
+      // The payment service reports every payment as approved for R$ 197
+      expect(
+        await instance.cancelPayment({
+          paymentId: "777000111",
+          amount: 197,
+          reason: "Cliente desistiu"
+        })
+      ).toMatchObject({ status: "rejected" });
+      expect(
+        await instance.refundPayment({
+          paymentId: "777000111",
+          amount: 250,
+          reason: "Cobrança em duplicidade"
+        })
+      ).toEqual({
+        status: "rejected",
+        message: "Refund amount must be between R$ 0,01 and R$ 197,00"
+      });
+
+      expect(
+        await instance.refundPayment(
+          { paymentId: "777000111", amount: 97, reason: "Desconto combinado" },
+          "call-partial"
+        )
+      ).toEqual({
+        status: "refunded",
+        paymentId: "777000111",
+        amount: 97,
+        full: false
+      });
+      expect(
+        await instance.refundPayment(
+          { paymentId: "777000111", amount: 197, reason: "Cliente desistiu" },
+          "call-full"
+        )
+      ).toEqual({
+        status: "refunded",
+        paymentId: "777000111",
+        amount: 197,
+        full: true
+      });
+
+      const order = await instance.getPaymentOrderDetails(created.reference);
+      expect(order?.status).toBe("refunded");
+      expect(
+        order?.history.map(({ status, statusDetail, source }) => ({
+          status,
+          statusDetail,
+          source
+        }))
+      ).toEqual([
+        { status: "pending", statusDetail: undefined, source: "createPayment" },
+        {
+          status: "approved",
+          statusDetail: "accredited",
+          source: "checkPaymentStatus"
+        },
+        {
+          status: "approved",
+          statusDetail: "partially_refunded",
+          source: "refundPayment"
+        },
+        {
+          status: "refunded",
+          statusDetail: "refunded",
+          source: "refundPayment"
+        }
+      ]);
+
+      const audit = instance.sql<{
+        attempt_id: string;
+        outcome: string;
+        amount: number;
+        reason: string;
+      }>`select attempt_id, outcome, amount, reason from payment_audit
+        where outcome = 'refunded' order by id`;
+      expect(audit).toEqual([
+        {
+          attempt_id: "call-partial",
+          outcome: "refunded",
+          amount: 97,
+          reason: "Desconto combinado (payment 777000111)"
+        },
+        {
+          attempt_id: "call-full",
+          outcome: "refunded",
+          amount: 197,
+          reason: "Cliente desistiu (payment 777000111)"
+        }
+      ]);
+    });
+  });
+
+  it("only acts on payments made in the same conversation", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("payment-refunds-other"));
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      expect(
+        await instance.refundPayment({
+          paymentId: "777000111",
+          amount: 197,
+          reason: "Cliente desistiu"
+        })
+      ).toEqual({ status: "not_found", message: "Payment not found" });
+    });
+  });
+});
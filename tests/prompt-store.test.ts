@@ -0,0 +1,148 @@
+import {
+  env,
+  createExecutionContext,
+  waitOnExecutionContext,
+  runInDurableObject
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import worker, { type Chat } from "../src/server";
+import { getChatwootAgentId } from "../src/chatwoot";
+import { diffLines } from "../src/prompt-store";
+import type { ChatwootWebhookEvent } from "../src/chatwoot-types";
+
+async function admin(
+  path: string,
+  init: RequestInit = {},
+  token = "test-admin-token"
+) {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(
+    new Request(`http://example.com${path}`, {
+      ...init,
+      headers: { authorization: `Bearer ${token}` }
+    }),
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+function publish(basePrompt: string, note: string) {
+  return admin("/admin/prompts", {
+    method: "POST",
+    body: JSON.stringify({ basePrompt, note, overlays: { web: "web" } })
+  });
+}
+
+describe("diffLines", () => {
+  it("marks removed and added lines and collapses unchanged runs", () => {
+    const before = ["a", "b", "c", "d", "e", "f", "g"].join("\n");
+    const after = ["a", "b", "c", "d", "e", "F", "g"].join("\n");
+
+    expect(diffLines(before, after, 1)).toBe(
+      ["@@", " e", "-f", "+F", " g"].join("\n")
+    );
+  });
+});
+
+describe("prompt admin API", () => {
+  it("rejects requests without the admin token", async () => {
+    const response = await admin("/admin/prompts", {}, "wrong-token");
+    expect(response.status).toBe(401);
+  });
+
+  it("publishes, diffs and rolls back versions", async () => {
+    expect((await publish("Você é a consultora.", "primeira")).status).toBe(
+      201
+    );
+    const second = await publish("Você é a consultora da Ingrave.", "segunda");
+    const { prompt } = (await second.json()) as { prompt: { version: number } };
+    expect(prompt.version).toBe(2);
+
+    const diff = (await (
+      await admin("/admin/prompts/diff?from=1&to=2")
+    ).json()) as { sections: Array<{ section: string; diff: string }> };
+    expect(diff.sections).toEqual([
+      {
+        section: "basePrompt",
+        diff: "-Você é a consultora.\n+Você é a consultora da Ingrave."
+      }
+    ]);
+
+    const rollback = await admin("/admin/prompts/rollback", {
+      method: "POST",
+      body: JSON.stringify({ version: 1 })
+    });
+    expect(rollback.status).toBe(200);
+
+    const listing = (await (await admin("/admin/prompts")).json()) as {
+      active: number;
+      versions: Array<{ version: number; note: string; active: boolean }>;
+    };
+    expect(listing.active).toBe(1);
+    expect(
+      listing.versions.map(({ version, note, active }) => ({
+        version,
+        note,
+        active
+      }))
+    ).toEqual([
+      { version: 1, note: "primeira", active: true },
+      { version: 2, note: "segunda", active: false }
+    ]);
+
+    expect((await admin("/admin/prompts/9")).status).toBe(404);
+  });
+
+  it("requires both versions to diff", async () => {
+    for (const query of ["to=2", "from=1", "from=&to=2", "from=1&to=dois"]) {
+      const response = await admin(`/admin/prompts/diff?${query}`);
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it("keeps prompt objects out of the public R2 endpoint", async () => {
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(
+      new Request("http://example.com/r2/prompts/ingrave-sales/active.json", {
+        method: "PUT",
+        body: JSON.stringify({ version: 2 })
+      }),
+      env,
+      ctx
+    );
+    expect(response.status).toBe(403);
+  });
+
+  it("records the active prompt version on Chatwoot replies", async () => {
+    await publish("Prompt usado na conversa.", "conversa");
+    const versions = (await (await admin("/admin/prompts")).json()) as {
+      active: number;
+    };
+
+    const stub = env.Chat.get(env.Chat.idFromName(getChatwootAgentId(4646)));
+    await runInDurableObject(stub, async (instance: Chat) => {
+      let system = "";
+      instance.generateChatwootResponse = async (prompt) => {
+        system = prompt.persona.basePrompt;
+        return "Olá!";
+      };
+
+      await instance.processChatwootMessage({
+        event: "message_created",
+        id: 9401,
+        content: "Oi",
+        content_type: "text",
+        message_type: "incoming",
+        created_at: new Date().toISOString(),
+        conversation: { id: 4646, inbox_id: 1 }
+      } as ChatwootWebhookEvent);
+
+      expect(system).toBe("Prompt usado na conversa.");
+      expect(instance.messages.at(-1)?.metadata).toMatchObject({
+        promptVersion: `v${versions.active}`
+      });
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { getSchedulePrompt } from "agents/schedule";
+import {
+  DEFAULT_PERSONA_ID,
+  buildSystemPrompt,
+  getPersona
+} from "../src/prompts";
+
+describe("prompt registry", () => {
+  const date = new Date("2025-10-20T12:00:00Z");
+
+  it("renders the same persona and schedule prompt on every channel", () => {
+    const persona = getPersona();
+    const schedulePrompt = getSchedulePrompt({ date });
+
+    for (const channel of ["web", "chatwoot"] as const) {
+      const prompt = buildSystemPrompt({ channel, date });
+      expect(prompt.startsWith(persona.basePrompt)).toBe(true);
+      expect(prompt).toContain(schedulePrompt);
+    }
+  });
+
+  it("applies the overlay of the requested channel only", () => {
+    const persona = getPersona(DEFAULT_PERSONA_ID);
+    const web = buildSystemPrompt({ channel: "web", date });
+    const chatwoot = buildSystemPrompt({ channel: "chatwoot", date });
+
+    expect(web).toContain(persona.overlays.web);
+    expect(web).not.toContain(persona.overlays.chatwoot);
+    expect(chatwoot).toContain(persona.overlays.chatwoot);
+    expect(chatwoot).not.toContain(persona.overlays.web);
+  });
+
+  it("rejects unknown personas", () => {
+    expect(() => buildSystemPrompt({ channel: "web", personaId: "x" })).toThrow(
+      "Unknown persona: x"
+    );
+  });
+});
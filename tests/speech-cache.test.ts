@@ -0,0 +1,135 @@
+import {
+  env,
+  createExecutionContext,
+  fetchMock,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import worker from "../src/server";
+import { ElevenLabsClient } from "../src/elevenlabs";
+import { R2StorageManager } from "../src/r2";
+import { CachedSpeechClient, speechCacheKey } from "../src/speech-cache";
+
+// Start of an MP3 frame
+const SPEECH = new Uint8Array([0xff, 0xfb, 0x90, 0x64]);
+
+function serveSpeech() {
+  const paths: string[] = [];
+  fetchMock
+    .get("https://api.elevenlabs.io")
+    .intercept({
+      path: (path) => path.startsWith("/v1/text-to-speech/"),
+      method: "POST"
+    })
+    .reply(({ path }) => {
+      paths.push(path);
+      return {
+        statusCode: 200,
+        data: SPEECH.buffer,
+        responseOptions: { headers: { "content-type": "audio/mpeg" } }
+      };
+    });
+  return paths;
+}
+
+describe("speech cache", () => {
+  const storage = new R2StorageManager(env.R2_BUCKET);
+  const client = new ElevenLabsClient({ apiKey: "test-elevenlabs-key" });
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    fetchMock.deactivate();
+  });
+
+  it("synthesizes a phrase once and then serves it from R2", async () => {
+    const cache = new CachedSpeechClient(client, storage);
+    const text = "Olá! Sou o assistente virtual da Ingrave.";
+    const calls = serveSpeech();
+
+    const first = await cache.textToSpeech({ text });
+    // No interceptor is left: a second request would fail
+    const second = await cache.textToSpeech({ text });
+
+    expect(calls).toEqual([
+      "/v1/text-to-speech/JBFqnCBsd6RMkjVDRZzb?output_format=mp3_44100_128"
+    ]);
+    expect(first).toMatchObject({ cached: false });
+    expect(second).toMatchObject({
+      cached: true,
+      key: first.key,
+      contentType: "audio/mpeg"
+    });
+    expect(new Uint8Array(second.audio)).toEqual(SPEECH);
+    expect(cache.stats).toEqual({ hits: 1, misses: 1, expired: 0 });
+
+    const archived = await storage.getFileInfo(first.key);
+    expect(archived?.customMetadata).toMatchObject({
+      provider: "elevenlabs",
+      voiceId: "JBFqnCBsd6RMkjVDRZzb",
+      modelId: "eleven_multilingual_v2",
+      outputFormat: "mp3_44100_128",
+      characters: String(text.length)
+    });
+  });
+
+  it("keys entries by text and voice settings", async () => {
+    const settings = {
+      text: "Posso ajudar em algo mais?",
+      voiceId: "JBFqnCBsd6RMkjVDRZzb",
+      modelId: "eleven_multilingual_v2",
+      outputFormat: "mp3_44100_128"
+    };
+    const key = await speechCacheKey(settings);
+
+    expect(key).toMatch(/^tts-cache\/[0-9a-f]{64}\.mp3$/);
+    expect(await speechCacheKey({ ...settings })).toBe(key);
+    expect(
+      await speechCacheKey({ ...settings, voiceId: "pNInz6obpgDQGcFmaJgB" })
+    ).not.toBe(key);
+    expect(
+      await speechCacheKey({ ...settings, outputFormat: "mp3_22050_32" })
+    ).not.toBe(key);
+  });
+
+  it("synthesizes expired phrases again and prunes expired entries", async () => {
+    const expired = new CachedSpeechClient(client, storage, 0);
+    const text = "Por favor, avalie nosso atendimento de 1 a 5 estrelas.";
+    serveSpeech();
+    const { key } = await expired.textToSpeech({ text });
+
+    const calls = serveSpeech();
+    const fresh = new CachedSpeechClient(client, storage);
+    expect(await fresh.textToSpeech({ text })).toMatchObject({
+      cached: false
+    });
+    expect(calls).toHaveLength(1);
+    expect(fresh.stats).toEqual({ hits: 0, misses: 1, expired: 1 });
+
+    serveSpeech();
+    const { key: expiredKey } = await expired.textToSpeech({
+      text: "Seu pagamento foi confirmado."
+    });
+
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(
+      new Request("http://example.com/admin/speech-cache", {
+        method: "DELETE",
+        headers: { authorization: "Bearer test-admin-token" }
+      }),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+
+    expect(await response.json()).toMatchObject({
+      success: true,
+      deleted: expect.any(Number)
+    });
+    expect(await storage.exists(expiredKey)).toBe(false);
+    expect(await storage.exists(key)).toBe(true);
+  });
+});
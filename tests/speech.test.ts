@@ -0,0 +1,197 @@
+import { env, fetchMock, runInDurableObject } from "cloudflare:test";
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import { getChatwootAgentId } from "../src/chatwoot";
+import { ElevenLabsClient } from "../src/elevenlabs";
+import {
+  ElevenLabsSynthesizer,
+  SpeechSynthesizerChain,
+  WORKERS_AI_SPEECH_MODEL,
+  WorkersAiSynthesizer
+} from "../src/speech";
+import { mockChatwoot } from "./chatwoot-mock";
+
+// Start of an MP3 frame
+const SPEECH = new Uint8Array([0xff, 0xfb, 0x90, 0x64]);
+
+function serveSpeech(status = 200) {
+  const paths: string[] = [];
+  fetchMock
+    .get("https://api.elevenlabs.io")
+    .intercept({
+      path: (path) => path.startsWith("/v1/text-to-speech/"),
+      method: "POST"
+    })
+    .reply(({ path }) => {
+      paths.push(path);
+      return status === 200
+        ? {
+            statusCode: 200,
+            data: SPEECH.buffer,
+            responseOptions: { headers: { "content-type": "audio/mpeg" } }
+          }
+        : { statusCode: status, data: "quota_exceeded" };
+    });
+  return paths;
+}
+
+// Workers AI stand-in for MeloTTS
+function stubAi() {
+  const calls: { model: string; inputs: { prompt: string; lang: string } }[] =
+    [];
+  const ai = {
+    run: async (model: string, inputs: { prompt: string; lang: string }) => {
+      calls.push({ model, inputs });
+      return { audio: btoa(String.fromCharCode(...SPEECH)) };
+    }
+  } as unknown as Ai;
+  return { ai, calls };
+}
+
+describe("speech providers", () => {
+  const elevenlabs = new ElevenLabsSynthesizer(
+    new ElevenLabsClient({ apiKey: "test-elevenlabs-key" })
+  );
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    fetchMock.deactivate();
+  });
+
+  it("speaks with the named ElevenLabs voice", async () => {
+    const paths = serveSpeech();
+
+    const result = await elevenlabs.synthesize({
+      text: "Olá!",
+      voice: "adam"
+    });
+
+    expect(result.provider).toBe("elevenlabs");
+    expect(paths).toEqual([
+      "/v1/text-to-speech/pNInz6obpgDQGcFmaJgB?output_format=mp3_44100_128"
+    ]);
+  });
+
+  it("falls back to Workers AI when ElevenLabs fails", async () => {
+    serveSpeech(401);
+    const { ai, calls } = stubAi();
+    const chain = new SpeechSynthesizerChain([
+      elevenlabs,
+      new WorkersAiSynthesizer(ai)
+    ]);
+
+    const result = await chain.synthesize({
+      text: "Seu pagamento foi confirmado.",
+      language: "portuguese"
+    });
+
+    expect(chain.name).toBe("elevenlabs > workers-ai");
+    expect(result).toMatchObject({
+      provider: "workers-ai",
+      contentType: "audio/mpeg"
+    });
+    expect(new Uint8Array(result.audio)).toEqual(SPEECH);
+    expect(calls).toEqual([
+      {
+        model: WORKERS_AI_SPEECH_MODEL,
+        inputs: { prompt: "Seu pagamento foi confirmado.", lang: "es" }
+      }
+    ]);
+  });
+
+  it("throws the last error when every provider fails", async () => {
+    serveSpeech(429);
+    await expect(
+      new SpeechSynthesizerChain([elevenlabs]).synthesize({ text: "Oi" })
+    ).rejects.toThrow("ElevenLabs API error: 429");
+    await expect(
+      new SpeechSynthesizerChain([]).synthesize({ text: "Oi" })
+    ).rejects.toThrow("No speech provider configured");
+  });
+});
+
+describe("conversation voice", () => {
+  let chatwoot: ReturnType<typeof mockChatwoot>;
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+    chatwoot = mockChatwoot();
+    process.env.ELEVENLABS_API_KEY = "test-elevenlabs-key";
+  });
+
+  afterAll(() => {
+    if (apiKey === undefined) {
+      delete process.env.ELEVENLABS_API_KEY;
+    } else {
+      process.env.ELEVENLABS_API_KEY = apiKey;
+    }
+    chatwoot.restore();
+    fetchMock.deactivate();
+  });
+
+  it("speaks replies in the conversation's voice", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName(getChatwootAgentId(7401)));
+
+    const { settings, paths, mode } = await runInDurableObject(
+      stub,
+      async (instance: Chat) => {
+        await instance.setVoiceSettings(7401, { voice: "bella" });
+        const settings = await instance.setVoiceSettings(7401, {
+          language: "spanish"
+        });
+        await instance.setChatwootReplyMode(7401, "voice");
+        const paths = serveSpeech();
+        const mode = await instance.sendChatwootReply(
+          7401,
+          "¡Hola! El plan Profesional cuesta R$ 99,00."
+        );
+        return { settings, paths, mode };
+      }
+    );
+
+    expect(settings).toEqual({ voice: "bella", language: "spanish" });
+    expect(mode).toBe("voice");
+    expect(paths).toEqual([
+      "/v1/text-to-speech/EXAVITQu4vr4xnSDxMaL?output_format=mp3_44100_128"
+    ]);
+  });
+
+  it("answers by voice through Workers AI when ElevenLabs is out of quota", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName(getChatwootAgentId(7402)));
+
+    const { mode, calls } = await runInDurableObject(
+      stub,
+      async (instance: Chat) => {
+        const agent = instance as unknown as { env: Env };
+        const binding = agent.env.AI;
+        const { ai, calls } = stubAi();
+        agent.env.AI = ai;
+        try {
+          await instance.setChatwootReplyMode(7402, "voice");
+          serveSpeech(401);
+          const mode = await instance.sendChatwootReply(
+            7402,
+            "Sua assinatura foi renovada."
+          );
+          return { mode, calls };
+        } finally {
+          agent.env.AI = binding;
+        }
+      }
+    );
+
+    expect(mode).toBe("voice");
+    expect(calls).toHaveLength(1);
+    expect(
+      chatwoot.requests
+        .filter(({ conversationId }) => conversationId === 7402)
+        .map(({ body }) => body?.attachments)
+    ).toEqual([["resposta-1.mp3"]]);
+  });
+});
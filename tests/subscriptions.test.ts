@@ -0,0 +1,81 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import { parsePaymentReference } from "../src/payment-reference";
+
+describe("Chat subscriptions", () => {
+  it("starts, checks and cancels a monthly subscription", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("subscriptions-test"));
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      expect(await instance.cancelSubscription()).toMatchObject({
+        status: "not_found"
+      });
+
+      const created = await instance.createSubscription({
+        planSku: "profissional-mensal",
+        customerEmail: "cliente@email.com"
+      });
+      expect(created).toMatchObject({
+        status: "created",
+        subscription: {
+          subscriptionId: "sub-profissional-mensal",
+          planSku: "profissional-mensal",
+          amount: 197,
+          currency: "BRL",
+          status: "pending",
+          initPoint:
+            "https://mercadopago.test/subscription?sku=profissional-mensal"
+        }
+      });
+      if (created.status !== "created") {
+        return;
+      }
+      expect(
+        parsePaymentReference(created.subscription.reference)
+      ).toMatchObject({
+        agentId: stub.id.toString(),
+        planSku: "profissional-mensal"
+      });
+
+      expect(await instance.getSubscriptionStatus()).toMatchObject({
+        status: "found",
+        subscription: { status: "authorized" },
+        nextPaymentDate: "2026-01-10T00:00:00.000Z"
+      });
+
+      expect(await instance.cancelSubscription()).toMatchObject({
+        status: "cancelled",
+        subscription: { status: "cancelled" }
+      });
+
+      const audit = instance.sql<{ outcome: string; preference_id: string }>`
+        select outcome, preference_id from payment_audit order by id`;
+      expect(audit).toEqual([
+        { outcome: "attempted", preference_id: null },
+        { outcome: "created", preference_id: "sub-profissional-mensal" }
+      ]);
+    });
+  });
+
+  it("applies the payment guardrails", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("subscriptions-guardrails"));
+
+    await runInDurableObject(stub, async (instance: Chat) => {
+      expect(
+        await instance.createSubscription({
+          planSku: "profissional-mensal",
+          quotedAmount: 150,
+          customerEmail: "cliente@email.com"
+        })
+      ).toMatchObject({
+        status: "rejected",
+        error: { code: "PRICE_MISMATCH" }
+      });
+
+      const [{ count }] = instance.sql<{ count: number }>`
+        select count(*) as count from subscriptions`;
+      expect(count).toBe(0);
+    });
+  });
+});
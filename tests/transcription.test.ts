@@ -0,0 +1,158 @@
+import { env, fetchMock, runInDurableObject } from "cloudflare:test";
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import { getChatwootAgentId, UNRECOGNIZED_AUDIO_TEXT } from "../src/chatwoot";
+import type {
+  ChatwootAttachment,
+  ChatwootWebhookEvent
+} from "../src/chatwoot-types";
+import { R2StorageManager } from "../src/r2";
+import { TRANSCRIPTION_MODEL, transcribeAudio } from "../src/transcription";
+
+const STORAGE_URL = "https://chatwoot.test";
+
+// Start of an Ogg/Opus voice note, as WhatsApp sends them
+const VOICE_NOTE = new Uint8Array([
+  0x4f, 0x67, 0x67, 0x53, 0x00, 0x02, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+  0x00, 0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64
+]);
+
+function serveAudio(path: string) {
+  fetchMock
+    .get(STORAGE_URL)
+    .intercept({ path })
+    .reply(200, VOICE_NOTE.buffer, {
+      headers: { "content-type": "audio/ogg" }
+    });
+}
+
+function audioAttachment(messageId: number, path: string): ChatwootAttachment {
+  return {
+    id: messageId + 1,
+    message_id: messageId,
+    file_type: "audio",
+    account_id: 1,
+    extension: null,
+    data_url: `${STORAGE_URL}${path}`
+  };
+}
+
+// Workers AI stand-in that records what it was asked to transcribe
+function stubAi(text: string) {
+  const calls: { model: string; inputs: { audio: string } }[] = [];
+  const ai = {
+    run: async (model: string, inputs: { audio: string }) => {
+      calls.push({ model, inputs });
+      return { text, transcription_info: { language: "pt" } };
+    }
+  } as unknown as Ai;
+  return { ai, calls };
+}
+
+describe("voice note transcription", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    fetchMock.deactivate();
+  });
+
+  it("archives the audio in R2 and transcribes it", async () => {
+    serveAudio("/rails/active_storage/blobs/7101/voice.oga");
+    const { ai, calls } = stubAi(" Quero saber do plano Profissional. ");
+
+    const transcription = await transcribeAudio(
+      ai,
+      new R2StorageManager(env.R2_BUCKET),
+      7101,
+      audioAttachment(71010, "/rails/active_storage/blobs/7101/voice.oga")
+    );
+
+    expect(transcription).toEqual({
+      text: "Quero saber do plano Profissional.",
+      key: "chatwoot-attachments/7101/71010-71011.ogg",
+      contentType: "audio/ogg",
+      language: "pt"
+    });
+    expect(calls).toEqual([
+      {
+        model: TRANSCRIPTION_MODEL,
+        inputs: { audio: btoa(String.fromCharCode(...VOICE_NOTE)) }
+      }
+    ]);
+    const archived = await env.R2_BUCKET.get(transcription.key);
+    expect(new Uint8Array(await archived!.arrayBuffer())).toEqual(VOICE_NOTE);
+    expect(archived?.customMetadata).toEqual({
+      conversationId: "7101",
+      messageId: "71010"
+    });
+  });
+
+  it("answers a voice note through its transcript", async () => {
+    const conversationId = 7102;
+    const stub = env.Chat.get(
+      env.Chat.idFromName(getChatwootAgentId(conversationId))
+    );
+
+    const answered = (text: string, messageId: number) =>
+      runInDurableObject(stub, async (instance: Chat) => {
+        const path = `/rails/active_storage/blobs/${messageId}/voice.oga`;
+        serveAudio(path);
+        const agent = instance as unknown as { env: Env };
+        const binding = agent.env.AI;
+        agent.env.AI = stubAi(text).ai;
+        try {
+          let prompt = "";
+          instance.generateChatwootResponse = async () => {
+            prompt = JSON.stringify(
+              instance.messages[instance.messages.length - 1].parts
+            );
+            return "Claro! O Profissional custa R$ 99,00 por mês.";
+          };
+          const result = await instance.processChatwootMessage({
+            event: "message_created",
+            id: messageId,
+            content: null,
+            content_type: "text",
+            message_type: "incoming",
+            created_at: new Date().toISOString(),
+            conversation: { id: conversationId, inbox_id: 1 },
+            attachments: [audioAttachment(messageId, path)]
+          } as ChatwootWebhookEvent);
+          return {
+            result,
+            prompt,
+            message: instance.messages[instance.messages.length - 2]
+          };
+        } finally {
+          agent.env.AI = binding;
+        }
+      });
+
+    const { result, prompt, message } = await answered(
+      "Quanto custa o Profissional?",
+      71020
+    );
+    expect(result).toMatchObject({ status: "processed" });
+    expect(prompt).toContain("Quanto custa o Profissional?");
+    expect(message).toMatchObject({
+      role: "user",
+      parts: [{ type: "text", text: "Quanto custa o Profissional?" }],
+      metadata: {
+        chatwootAudio: {
+          key: "chatwoot-attachments/7102/71020-71021.ogg",
+          contentType: "audio/ogg",
+          language: "pt"
+        }
+      }
+    });
+
+    // Silence still gets an answer, so the customer is asked to write
+    const silent = await answered("", 71030);
+    expect(silent.message?.parts).toEqual([
+      { type: "text", text: UNRECOGNIZED_AUDIO_TEXT }
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+import { env, fetchMock, runInDurableObject } from "cloudflare:test";
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import type { Chat } from "../src/server";
+import { getChatwootAgentId } from "../src/chatwoot";
+import type { ChatwootWebhookEvent } from "../src/chatwoot-types";
+import {
+  chunkSpeechText,
+  extractLinks,
+  toSpeechText
+} from "../src/voice-replies";
+import type { SpeechSynthesizer } from "../src/speech";
+import { mockChatwoot } from "./chatwoot-mock";
+
+const REPLY = `O *Profissional* custa **R$ 99,00** por mês:
+- 10 usuários
+- Suporte prioritário
+
+Pague pelo link https://pagamento.test/abc123. Qualquer dúvida, veja [o site](https://ingrave.test/planos).`;
+
+// Start of an MP3 frame, enough for the Chatwoot stand-in
+const SPEECH = new Uint8Array([0xff, 0xfb, 0x90, 0x64]);
+
+function serveSpeech(status = 200) {
+  fetchMock
+    .get("https://api.elevenlabs.io")
+    .intercept({
+      path: (path) => path.startsWith("/v1/text-to-speech/"),
+      method: "POST"
+    })
+    .reply(status, status === 200 ? SPEECH.buffer : "quota_exceeded", {
+      headers: { "content-type": "audio/mpeg" }
+    });
+}
+
+describe("voice reply text", () => {
+  it("speaks the reply without markdown and links", () => {
+    expect(toSpeechText(REPLY)).toBe(
+      "O Profissional custa R$ 99,00 por mês:\n10 usuários\nSuporte prioritário\n\nPague pelo link. Qualquer dúvida, veja o site."
+    );
+    expect(extractLinks(REPLY)).toEqual([
+      "https://pagamento.test/abc123",
+      "https://ingrave.test/planos"
+    ]);
+  });
+
+  it("cuts long replies between sentences", () => {
+    const sentence = "Esta frase tem exatamente quarenta chars.";
+    expect(chunkSpeechText(`${sentence} ${sentence} ${sentence}`, 90)).toEqual([
+      `${sentence} ${sentence}`,
+      sentence
+    ]);
+    // A sentence longer than a chunk is cut between words
+    expect(chunkSpeechText("um dois três quatro", 9)).toEqual([
+      "um dois",
+      "três",
+      "quatro"
+    ]);
+  });
+});
+
+describe("voice replies", () => {
+  let chatwoot: ReturnType<typeof mockChatwoot>;
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+    chatwoot = mockChatwoot();
+    process.env.ELEVENLABS_API_KEY = "test-elevenlabs-key";
+  });
+
+  afterAll(() => {
+    if (apiKey === undefined) {
+      delete process.env.ELEVENLABS_API_KEY;
+    } else {
+      process.env.ELEVENLABS_API_KEY = apiKey;
+    }
+    chatwoot.restore();
+    fetchMock.deactivate();
+  });
+
+  const sent = (conversationId: number) =>
+    chatwoot.requests
+      .filter((request) => request.conversationId === conversationId)
+      .map(({ body }) => body?.attachments ?? body?.content);
+
+  function customerMessage(conversationId: number, id: number) {
+    return {
+      event: "message_created",
+      id,
+      content: "Quanto custa o Profissional?",
+      content_type: "text",
+      message_type: "incoming",
+      created_at: new Date().toISOString(),
+      conversation: { id: conversationId, inbox_id: 1 }
+    } as ChatwootWebhookEvent;
+  }
+
+  it("answers text with text until the customer opts in", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName(getChatwootAgentId(7301)));
+
+    const modes = await runInDurableObject(stub, async (instance: Chat) => {
+      instance.generateChatwootResponse = async () => REPLY;
+      await instance.processChatwootMessage(customerMessage(7301, 73010));
+      const before = await instance.sendChatwootReply(7301, REPLY);
+
+      await instance.setChatwootReplyMode(7301, "voice");
+      serveSpeech();
+      const after = await instance.sendChatwootReply(7301, REPLY);
+      return [before, after];
+    });
+
+    expect(modes).toEqual(["text", "voice"]);
+    expect(sent(7301)).toEqual([
+      REPLY,
+      ["resposta-1.mp3"],
+      "https://pagamento.test/abc123\nhttps://ingrave.test/planos"
+    ]);
+  });
+
+  it("mirrors voice notes in auto mode", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName(getChatwootAgentId(7303)));
+
+    const voice = await runInDurableObject(stub, async (instance: Chat) => {
+      await instance.persistMessages([
+        {
+          id: "chatwoot-7303-73030",
+          role: "user",
+          parts: [{ type: "text", text: "Quanto custa o Profissional?" }],
+          metadata: {
+            chatwootAudio: {
+              key: "chatwoot-attachments/7303/73030-73031.ogg",
+              contentType: "audio/ogg"
+            }
+          }
+        }
+      ]);
+      const auto = instance.shouldReplyWithVoice();
+      await instance.setChatwootReplyMode(7303, "text");
+      return [auto, instance.shouldReplyWithVoice()];
+    });
+
+    expect(voice).toEqual([true, false]);
+  });
+
+  describe("when a send fails halfway", () => {
+    // Two voice notes: each sentence is longer than half the limit
+    const first = `Primeira parte ${"da explicação ".repeat(40).trim()}.`;
+    const second = `Segunda parte ${"da explicação ".repeat(40).trim()}.`;
+    const reply = `${first} ${second} Pague em https://pagamento.test/xyz789.`;
+
+    const synthesizer: SpeechSynthesizer = {
+      name: "test",
+      synthesize: async () => ({
+        audio: SPEECH.buffer,
+        contentType: "audio/mpeg",
+        provider: "test"
+      })
+    };
+
+    async function replyByVoice(conversationId: number) {
+      const stub = env.Chat.get(
+        env.Chat.idFromName(getChatwootAgentId(conversationId))
+      );
+      return runInDurableObject(stub, async (instance: Chat) => {
+        instance.getSpeechSynthesizer = () => synthesizer;
+        await instance.setChatwootReplyMode(conversationId, "voice");
+        try {
+          return await instance.sendChatwootReply(conversationId, reply);
+        } finally {
+          chatwoot.fail = undefined;
+        }
+      });
+    }
+
+    it("sends only the rest of the reply as text", async () => {
+      chatwoot.fail = ({ conversationId, body }) =>
+        conversationId === 7304 &&
+        (body?.attachments as string[] | undefined)?.[0] === "resposta-2.mp3";
+
+      expect(await replyByVoice(7304)).toBe("voice");
+      expect(sent(7304)).toEqual([
+        ["resposta-1.mp3"],
+        `${second} Pague em.\nhttps://pagamento.test/xyz789`
+      ]);
+    });
+
+    it("does not send the voice notes again when the links fail", async () => {
+      chatwoot.fail = ({ conversationId, body }) =>
+        conversationId === 7305 &&
+        body?.content === "https://pagamento.test/xyz789";
+
+      expect(await replyByVoice(7305)).toBe("voice");
+      expect(sent(7305)).toEqual([["resposta-1.mp3"], ["resposta-2.mp3"]]);
+    });
+  });
+
+  it("falls back to text when synthesis fails", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName(getChatwootAgentId(7302)));
+
+    // Not spoken before, so it is not in the speech cache
+    const reply = "Seu link de pagamento expira em 24 horas.";
+
+    const mode = await runInDurableObject(stub, async (instance: Chat) => {
+      await instance.setChatwootReplyMode(7302, "voice");
+      serveSpeech(401);
+      return instance.sendChatwootReply(7302, reply);
+    });
+
+    expect(mode).toBe("text");
+    expect(sent(7302)).toEqual([reply]);
+  });
+});
@@ -1,5 +1,7 @@
 import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
 
+let lastExternalReference: string | undefined;
+
 export default defineWorkersConfig({
   environments: {
     ssr: {
@@ -17,7 +19,145 @@ export default defineWorkersConfig({
     },
     poolOptions: {
       workers: {
-        wrangler: { configPath: "./wrangler.jsonc" }
+        // SQLite-backed Durable Objects leave WAL files behind that isolated
+        // storage cannot snapshot; tests use distinct conversation ids instead
+        isolatedStorage: false,
+        singleWorker: true,
+        wrangler: { configPath: "./wrangler.jsonc" },
+        miniflare: {
+          bindings: {
+            CHATWOOT_WEBHOOK_SECRET: "test-webhook-secret",
+            CHATWOOT_DEBOUNCE_SECONDS: "0",
+            ADMIN_API_TOKEN: "test-admin-token",
+            PAYMENT_SERVICE_SECRET: "test-payment-service-secret"
+          },
+          serviceBindings: {
+            // Stand-in for the payment worker: echoes the first item back in
+            // the checkout link so tests can assert on what was sent. Links
+            // are never paid (search finds nothing), and a payment looked up
+            // by id belongs to the last link created. Subscriptions are
+            // authorized as soon as they are looked up, refunds and
+            // cancellations always go through, and PIX and boleto payments
+            // come back pending with fixed ids. Calls without the shared
+            // secret are refused
+            async PAYMENT_SERVICE(request) {
+              if (
+                request.headers.get("authorization") !==
+                "Bearer test-payment-service-secret"
+              ) {
+                return new Response("Unauthorized", { status: 401 });
+              }
+              const url = new URL(request.url);
+              if (url.pathname === "/payment/search") {
+                return Response.json({ results: [] });
+              }
+              if (url.pathname === "/subscription/create") {
+                const { external_reference } = (await request.json()) as {
+                  external_reference: string;
+                };
+                const sku = external_reference.split(".")[2];
+                return Response.json({
+                  success: true,
+                  subscription_id: `sub-${sku}`,
+                  init_point: `https://mercadopago.test/subscription?sku=${sku}`,
+                  status: "pending"
+                });
+              }
+              if (url.pathname === "/subscription/status") {
+                return Response.json({
+                  id: url.searchParams.get("id"),
+                  status: "authorized",
+                  next_payment_date: "2026-01-10T00:00:00.000Z"
+                });
+              }
+              if (url.pathname === "/subscription/cancel") {
+                return Response.json({ success: true, status: "cancelled" });
+              }
+              if (
+                url.pathname === "/payment/pix" ||
+                url.pathname === "/payment/boleto"
+              ) {
+                const { amount, description, external_reference, expires_at } =
+                  (await request.json()) as {
+                    amount: number;
+                    description: string;
+                    external_reference: string;
+                    expires_at: string;
+                  };
+                lastExternalReference = external_reference;
+                const pix = url.pathname === "/payment/pix";
+                return Response.json({
+                  success: true,
+                  id: pix ? 880001 : 880002,
+                  status: "pending",
+                  amount,
+                  currency: "BRL",
+                  description,
+                  external_reference,
+                  payment_method: pix ? "pix" : "boleto",
+                  expires_at,
+                  ...(pix
+                    ? {
+                        qr_code: "00020126580014br.gov.bcb.pix0136880001",
+                        // 1x1 PNG
+                        qr_code_base64:
+                          "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+                        ticket_url:
+                          "https://www.mercadopago.com.br/payments/880001/ticket"
+                      }
+                    : {
+                        barcode: "23791000000000000000000000000000000880002",
+                        pdf_url:
+                          "https://www.mercadopago.com.br/payments/880002/ticket?caller_id=1"
+                      })
+                });
+              }
+              if (url.pathname === "/payment/refund") {
+                const { payment_id, amount } = (await request.json()) as {
+                  payment_id: string;
+                  amount?: number;
+                };
+                return Response.json({
+                  success: true,
+                  refund_id: 7001,
+                  payment_id: Number(payment_id),
+                  amount: amount ?? 197,
+                  status: "approved"
+                });
+              }
+              if (url.pathname === "/payment/cancel") {
+                return Response.json({ success: true, status: "cancelled" });
+              }
+              if (url.pathname === "/payment/status") {
+                return Response.json({
+                  id: Number(url.searchParams.get("id")),
+                  status: "approved",
+                  status_detail: "accredited",
+                  amount: 197,
+                  currency: "BRL",
+                  description: "Plano Profissional Ingrave - Mensal",
+                  external_reference: lastExternalReference
+                });
+              }
+
+              const { items, external_reference } = (await request.json()) as {
+                items: Array<{
+                  id: string;
+                  unit_price: number;
+                  quantity: number;
+                }>;
+                external_reference?: string;
+              };
+              lastExternalReference = external_reference;
+              const [item] = items;
+              return Response.json({
+                success: true,
+                preference_id: `pref-${item.id}`,
+                init_point: `https://mercadopago.test/checkout?sku=${item.id}&unit_price=${item.unit_price}&quantity=${item.quantity}`
+              });
+            }
+          }
+        }
       }
     }
   }
@@ -5,8 +5,15 @@
  * for Mercado Pago integration with the chat agent.
  */
 
+import { verifyServiceRequest } from './service-auth';
+import { verifyWebhookSignature } from './signature';
+import { NOTIFICATION_LOG_NAME } from './webhook-notifications';
+
+export { WebhookNotifications } from './webhook-notifications';
+
 interface MercadoPagoPreference {
 	items: Array<{
+		id?: string;
 		title: string;
 		quantity: number;
 		unit_price: number;
@@ -28,6 +35,10 @@ interface MercadoPagoPreference {
 	auto_return?: 'approved' | 'all';
 	external_reference?: string;
 	notification_url?: string;
+	/** Link stops accepting payments after expiration_date_to */
+	expires?: boolean;
+	expiration_date_from?: string;
+	expiration_date_to?: string;
 }
 
 interface MercadoPagoPayment {
@@ -45,24 +56,257 @@ interface MercadoPagoPayment {
 			number: string;
 		};
 	};
+	payment_method_id?: string;
+	date_of_expiration?: string;
+	/** PIX: copy-paste code and QR image (base64 PNG) */
+	point_of_interaction?: {
+		transaction_data?: {
+			qr_code?: string;
+			qr_code_base64?: string;
+			ticket_url?: string;
+		};
+	};
+	/** Boleto: barcode and printable slip */
+	barcode?: {
+		content?: string;
+	};
+	transaction_details?: {
+		external_resource_url?: string;
+	};
+}
+
+/**
+ * Payment methods paid outside the checkout, with their Mercado Pago ids
+ */
+const DIRECT_PAYMENT_METHODS = {
+	pix: 'pix',
+	boleto: 'bolbradesco',
+} as const;
+
+type DirectPaymentMethod = keyof typeof DIRECT_PAYMENT_METHODS;
+
+/**
+ * PIX or boleto payment as sent by the chat agent to /payment/pix and /payment/boleto
+ * Boletos must be registered to the payer, so they need name and CPF/CNPJ
+ */
+interface DirectPaymentRequest {
+	amount: number;
+	description: string;
+	external_reference?: string;
+	/** When the PIX code or boleto stops accepting payment (Mercado Pago's default if omitted) */
+	expires_at?: string;
+	payer: {
+		email: string;
+		first_name?: string;
+		last_name?: string;
+		identification?: {
+			type: 'CPF' | 'CNPJ';
+			number: string;
+		};
+	};
+}
+
+/**
+ * Refund of a payment
+ * https://www.mercadopago.com.br/developers/pt/reference/chargebacks/_payments_id_refunds/post
+ */
+interface MercadoPagoRefund {
+	id: number;
+	payment_id: number;
+	amount: number;
+	status: string;
+}
+
+/**
+ * Recurring subscription (preapproval)
+ * https://www.mercadopago.com.br/developers/pt/reference/subscriptions/_preapproval/post
+ */
+interface MercadoPagoPreapproval {
+	id: string;
+	status: 'pending' | 'authorized' | 'paused' | 'cancelled';
+	reason: string;
+	external_reference?: string;
+	payer_email?: string;
+	init_point?: string;
+	next_payment_date?: string;
+	auto_recurring: {
+		frequency: number;
+		frequency_type: 'days' | 'months';
+		transaction_amount: number;
+		currency_id: string;
+	};
+}
+
+/**
+ * Subscription as sent by the chat agent to /subscription/create
+ */
+interface SubscriptionRequest {
+	reason: string;
+	external_reference?: string;
+	payer_email: string;
+	auto_recurring: MercadoPagoPreapproval['auto_recurring'];
+	back_url?: string;
+}
+
+/**
+ * Webhook notification body
+ * https://www.mercadopago.com.br/developers/pt/docs/your-integrations/notifications/webhooks
+ */
+interface MercadoPagoNotification {
+	id?: number | string;
+	type?: string;
+	action?: string;
+	live_mode?: boolean;
+	data?: {
+		id?: number | string;
+	};
+}
+
+/**
+ * Payment status update sent to the chat agent's queue
+ * Mirrors PaymentStatusMessage in the main worker (src/queue.ts)
+ */
+interface PaymentStatusMessage {
+	type: 'payment_status';
+	timestamp: string;
+	data: {
+		paymentId: string;
+		status: string;
+		statusDetail?: string;
+		externalReference: string;
+		amount: number;
+		currency: string;
+		description?: string;
+		payerEmail?: string;
+	};
+}
+
+/**
+ * Routes only the chat agent may call, with the shared service secret (see src/service-auth.ts)
+ * They are never called from a browser, so they get no CORS headers
+ */
+const SERVICE_ROUTES = new Set([
+	'/payment/pix',
+	'/payment/boleto',
+	'/payment/status',
+	'/payment/search',
+	'/payment/refund',
+	'/payment/cancel',
+	'/subscription/create',
+	'/subscription/status',
+	'/subscription/cancel',
+]);
+
+/**
+ * Payment as returned to the chat agent by /payment/status and /payment/search
+ */
+function summarizePayment(payment: MercadoPagoPayment) {
+	return {
+		id: payment.id,
+		status: payment.status,
+		status_detail: payment.status_detail,
+		amount: payment.transaction_amount,
+		currency: payment.currency_id,
+		description: payment.description,
+		external_reference: payment.external_reference,
+		payer_email: payment.payer?.email,
+	};
+}
+
+/**
+ * PIX or boleto payment as returned to the chat agent, with what the customer
+ * needs to pay it
+ */
+function summarizeDirectPayment(method: DirectPaymentMethod, payment: MercadoPagoPayment) {
+	const transaction = payment.point_of_interaction?.transaction_data;
+	return {
+		...summarizePayment(payment),
+		payment_method: method,
+		expires_at: payment.date_of_expiration,
+		qr_code: transaction?.qr_code,
+		qr_code_base64: transaction?.qr_code_base64,
+		ticket_url: transaction?.ticket_url,
+		barcode: payment.barcode?.content,
+		pdf_url: payment.transaction_details?.external_resource_url,
+	};
+}
+
+/**
+ * Subscription as returned to the chat agent by the /subscription routes
+ */
+function summarizeSubscription(preapproval: MercadoPagoPreapproval) {
+	return {
+		id: preapproval.id,
+		status: preapproval.status,
+		reason: preapproval.reason,
+		amount: preapproval.auto_recurring.transaction_amount,
+		currency: preapproval.auto_recurring.currency_id,
+		frequency: preapproval.auto_recurring.frequency,
+		frequency_type: preapproval.auto_recurring.frequency_type,
+		external_reference: preapproval.external_reference,
+		payer_email: preapproval.payer_email,
+		next_payment_date: preapproval.next_payment_date,
+	};
+}
+
+/**
+ * Forward a payment status change to the chat agent that created the payment
+ * The external reference identifies the agent; payments without one (created
+ * outside the agent) are only logged
+ */
+async function notifyAgent(env: Env, payment: MercadoPagoPayment): Promise<void> {
+	if (!payment.external_reference) {
+		console.log('[MercadoPago] Payment has no external_reference, not notifying the agent:', payment.id);
+		return;
+	}
+
+	const message: PaymentStatusMessage = {
+		type: 'payment_status',
+		timestamp: new Date().toISOString(),
+		data: {
+			paymentId: String(payment.id),
+			status: payment.status,
+			statusDetail: payment.status_detail,
+			externalReference: payment.external_reference,
+			amount: payment.transaction_amount,
+			currency: payment.currency_id,
+			description: payment.description,
+			payerEmail: payment.payer?.email,
+		},
+	};
+
+	await env.AGENT_QUEUE.send(message);
+	console.log('[MercadoPago] Agent notified:', payment.external_reference, payment.status);
 }
 
 export default {
 	async fetch(request, env, ctx): Promise<Response> {
 		const url = new URL(request.url);
 
-		// CORS headers for all responses
-		const corsHeaders = {
-			'Access-Control-Allow-Origin': '*',
-			'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-			'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-		};
+		const serviceRoute = SERVICE_ROUTES.has(url.pathname);
+
+		// CORS headers for public responses
+		const corsHeaders: Record<string, string> = serviceRoute
+			? {}
+			: {
+					'Access-Control-Allow-Origin': '*',
+					'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+					'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+				};
 
 		// Handle CORS preflight
 		if (request.method === 'OPTIONS') {
 			return new Response(null, { headers: corsHeaders });
 		}
 
+		if (serviceRoute) {
+			const auth = await verifyServiceRequest(request, env.PAYMENT_SERVICE_SECRET);
+			if (!auth.valid) {
+				console.warn('[Payment Workflow] Service request rejected:', url.pathname, auth.reason);
+				return Response.json({ error: 'Unauthorized' }, { status: 401 });
+			}
+		}
+
 		try {
 			switch (url.pathname) {
 				case '/payment/create': {
@@ -118,6 +362,61 @@ export default {
 					);
 				}
 
+				case '/payment/pix':
+				case '/payment/boleto': {
+					// Create a payment paid outside the checkout: PIX (QR code) or boleto (barcode and PDF)
+					if (request.method !== 'POST') {
+						return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+					}
+
+					const method: DirectPaymentMethod = url.pathname === '/payment/pix' ? 'pix' : 'boleto';
+					const body: DirectPaymentRequest = await request.json();
+
+					if (!(body.amount > 0) || !body.description || !body.payer?.email) {
+						return Response.json({ error: 'amount, description and payer.email are required' }, { status: 400, headers: corsHeaders });
+					}
+					if (method === 'boleto' && (!body.payer.first_name || !body.payer.identification?.number)) {
+						return Response.json(
+							{ error: 'payer.first_name and payer.identification are required for boleto' },
+							{ status: 400, headers: corsHeaders },
+						);
+					}
+
+					if (!env.MERCADO_PAGO_ACCESS_TOKEN) {
+						return Response.json({ error: 'Mercado Pago not configured' }, { status: 500, headers: corsHeaders });
+					}
+
+					const mpResponse = await fetch('https://api.mercadopago.com/v1/payments', {
+						method: 'POST',
+						headers: {
+							Authorization: `Bearer ${env.MERCADO_PAGO_ACCESS_TOKEN}`,
+							'Content-Type': 'application/json',
+							// One payment per order, however often the agent retries
+							'X-Idempotency-Key': body.external_reference ?? crypto.randomUUID(),
+						},
+						body: JSON.stringify({
+							transaction_amount: body.amount,
+							description: body.description,
+							payment_method_id: DIRECT_PAYMENT_METHODS[method],
+							external_reference: body.external_reference,
+							date_of_expiration: body.expires_at,
+							payer: body.payer,
+						}),
+					});
+
+					if (!mpResponse.ok) {
+						const error = await mpResponse.text();
+						return Response.json(
+							{ error: `Failed to create ${method} payment`, details: error },
+							{ status: mpResponse.status, headers: corsHeaders },
+						);
+					}
+
+					const payment: MercadoPagoPayment = await mpResponse.json();
+
+					return Response.json({ success: true, ...summarizeDirectPayment(method, payment) }, { headers: corsHeaders });
+				}
+
 				case '/payment/status': {
 					// Check payment status
 					const paymentId = url.searchParams.get('id');
@@ -142,19 +441,40 @@ export default {
 
 					const payment: MercadoPagoPayment = await mpResponse.json();
 
-					return Response.json(
-						{
-							id: payment.id,
-							status: payment.status,
-							status_detail: payment.status_detail,
-							amount: payment.transaction_amount,
-							currency: payment.currency_id,
-							description: payment.description,
-							external_reference: payment.external_reference,
-							payer_email: payment.payer.email,
+					return Response.json(summarizePayment(payment), { headers: corsHeaders });
+				}
+
+				case '/payment/search': {
+					// Payments made through the checkout link with this external reference, newest first
+					const externalReference = url.searchParams.get('external_reference');
+
+					if (!externalReference) {
+						return Response.json({ error: 'external_reference is required' }, { status: 400, headers: corsHeaders });
+					}
+
+					if (!env.MERCADO_PAGO_ACCESS_TOKEN) {
+						return Response.json({ error: 'Mercado Pago not configured' }, { status: 500, headers: corsHeaders });
+					}
+
+					const search = new URLSearchParams({
+						external_reference: externalReference,
+						sort: 'date_created',
+						criteria: 'desc',
+					});
+					const mpResponse = await fetch(`https://api.mercadopago.com/v1/payments/search?${search}`, {
+						headers: {
+							Authorization: `Bearer ${env.MERCADO_PAGO_ACCESS_TOKEN}`,
 						},
-						{ headers: corsHeaders },
-					);
+					});
+
+					if (!mpResponse.ok) {
+						const error = await mpResponse.text();
+						return Response.json({ error: 'Failed to search payments', details: error }, { status: 502, headers: corsHeaders });
+					}
+
+					const { results }: { results: MercadoPagoPayment[] } = await mpResponse.json();
+
+					return Response.json({ results: results.map(summarizePayment) }, { headers: corsHeaders });
 				}
 
 				case '/payment/webhook': {
@@ -163,35 +483,276 @@ export default {
 						return new Response('Method not allowed', { status: 405, headers: corsHeaders });
 					}
 
-					const body = await request.json();
+					const rawBody = await request.text();
+					let body: MercadoPagoNotification;
+					try {
+						body = JSON.parse(rawBody);
+					} catch {
+						return Response.json({ error: 'Invalid JSON body' }, { status: 400, headers: corsHeaders });
+					}
+
+					// Only notifications signed with our webhook secret are trusted
+					const dataId = url.searchParams.get('data.id') ?? (body.data?.id !== undefined ? String(body.data.id) : null);
+					const signature = await verifyWebhookSignature(request, dataId, env.MERCADO_PAGO_WEBHOOK_SECRET);
+					if (!signature.valid) {
+						console.warn('[MercadoPago] Webhook signature rejected:', signature.reason);
+						return Response.json({ error: 'Invalid signature' }, { status: 401, headers: corsHeaders });
+					}
+
 					console.log('[MercadoPago] Webhook received:', JSON.stringify(body, null, 2));
 
 					// Process different notification types
-					if (body.type === 'payment') {
-						const paymentId = body.data?.id;
-
-						if (paymentId && env.MERCADO_PAGO_ACCESS_TOKEN) {
-							// Fetch full payment details
-							const mpResponse = await fetch(`https://api.mercadopago.com/v1/payments/${paymentId}`, {
-								headers: {
-									Authorization: `Bearer ${env.MERCADO_PAGO_ACCESS_TOKEN}`,
-								},
-							});
-
-							if (mpResponse.ok) {
-								const payment: MercadoPagoPayment = await mpResponse.json();
-								console.log('[MercadoPago] Payment status:', payment.status);
-
-								// Here you can add logic to notify the main agent about payment status
-								// For example, call a webhook endpoint on the main worker
-								// or store the status in a KV/D1 database
-							}
+					if (body.type !== 'payment' || !dataId) {
+						return Response.json({ success: true, ignored: true }, { headers: corsHeaders });
+					}
+
+					if (!env.MERCADO_PAGO_ACCESS_TOKEN) {
+						return Response.json({ error: 'Mercado Pago not configured' }, { status: 500, headers: corsHeaders });
+					}
+
+					// Side effects run once per notification, however often it is delivered
+					const notificationId = String(body.id ?? request.headers.get('x-request-id'));
+					const notifications = env.WEBHOOK_NOTIFICATIONS.get(env.WEBHOOK_NOTIFICATIONS.idFromName(NOTIFICATION_LOG_NAME));
+					if (!(await notifications.claim(notificationId))) {
+						console.log('[MercadoPago] Duplicate notification ignored:', notificationId);
+						return Response.json({ success: true, duplicate: true }, { headers: corsHeaders });
+					}
+
+					try {
+						// Fetch full payment details
+						const mpResponse = await fetch(`https://api.mercadopago.com/v1/payments/${dataId}`, {
+							headers: {
+								Authorization: `Bearer ${env.MERCADO_PAGO_ACCESS_TOKEN}`,
+							},
+						});
+
+						if (!mpResponse.ok) {
+							// Let Mercado Pago retry the notification later
+							await notifications.release(notificationId);
+							console.error('[MercadoPago] Could not fetch payment:', dataId, mpResponse.status);
+							return Response.json({ error: 'Payment lookup failed' }, { status: 502, headers: corsHeaders });
 						}
+
+						const payment: MercadoPagoPayment = await mpResponse.json();
+						console.log('[MercadoPago] Payment status:', payment.status);
+
+						await notifyAgent(env, payment);
+						await notifications.complete(notificationId);
+					} catch (error) {
+						await notifications.release(notificationId);
+						throw error;
 					}
 
 					return Response.json({ success: true }, { headers: corsHeaders });
 				}
 
+				case '/payment/refund': {
+					// Refund an approved payment, fully or partially (omit amount for a full refund)
+					if (request.method !== 'POST') {
+						return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+					}
+
+					const body: { payment_id?: string; amount?: number; idempotency_key?: string } = await request.json();
+
+					if (!body.payment_id) {
+						return Response.json({ error: 'payment_id is required' }, { status: 400, headers: corsHeaders });
+					}
+					if (body.amount !== undefined && !(body.amount > 0)) {
+						return Response.json({ error: 'amount must be positive' }, { status: 400, headers: corsHeaders });
+					}
+
+					if (!env.MERCADO_PAGO_ACCESS_TOKEN) {
+						return Response.json({ error: 'Mercado Pago not configured' }, { status: 500, headers: corsHeaders });
+					}
+
+					const mpResponse = await fetch(`https://api.mercadopago.com/v1/payments/${encodeURIComponent(body.payment_id)}/refunds`, {
+						method: 'POST',
+						headers: {
+							Authorization: `Bearer ${env.MERCADO_PAGO_ACCESS_TOKEN}`,
+							'Content-Type': 'application/json',
+							// Retrying with the same key never refunds twice
+							'X-Idempotency-Key': body.idempotency_key ?? crypto.randomUUID(),
+						},
+						body: JSON.stringify(body.amount !== undefined ? { amount: body.amount } : {}),
+					});
+
+					if (!mpResponse.ok) {
+						const error = await mpResponse.text();
+						return Response.json(
+							{ error: 'Failed to refund payment', details: error },
+							{ status: mpResponse.status, headers: corsHeaders },
+						);
+					}
+
+					const refund: MercadoPagoRefund = await mpResponse.json();
+
+					return Response.json(
+						{
+							success: true,
+							refund_id: refund.id,
+							payment_id: refund.payment_id,
+							amount: refund.amount,
+							status: refund.status,
+						},
+						{ headers: corsHeaders },
+					);
+				}
+
+				case '/payment/cancel': {
+					// Cancel a payment that has not been approved yet (pending or in process)
+					if (request.method !== 'POST') {
+						return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+					}
+
+					const { payment_id: paymentId }: { payment_id?: string } = await request.json();
+
+					if (!paymentId) {
+						return Response.json({ error: 'payment_id is required' }, { status: 400, headers: corsHeaders });
+					}
+
+					if (!env.MERCADO_PAGO_ACCESS_TOKEN) {
+						return Response.json({ error: 'Mercado Pago not configured' }, { status: 500, headers: corsHeaders });
+					}
+
+					const mpResponse = await fetch(`https://api.mercadopago.com/v1/payments/${encodeURIComponent(paymentId)}`, {
+						method: 'PUT',
+						headers: {
+							Authorization: `Bearer ${env.MERCADO_PAGO_ACCESS_TOKEN}`,
+							'Content-Type': 'application/json',
+						},
+						body: JSON.stringify({ status: 'cancelled' }),
+					});
+
+					if (!mpResponse.ok) {
+						const error = await mpResponse.text();
+						return Response.json(
+							{ error: 'Failed to cancel payment', details: error },
+							{ status: mpResponse.status, headers: corsHeaders },
+						);
+					}
+
+					const payment: MercadoPagoPayment = await mpResponse.json();
+
+					return Response.json({ success: true, ...summarizePayment(payment) }, { headers: corsHeaders });
+				}
+
+				case '/subscription/create': {
+					// Start a recurring subscription; the customer authorizes it at init_point
+					if (request.method !== 'POST') {
+						return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+					}
+
+					const body: SubscriptionRequest = await request.json();
+
+					if (!body.payer_email || !body.reason || !body.auto_recurring?.transaction_amount) {
+						return Response.json(
+							{ error: 'reason, payer_email and auto_recurring.transaction_amount are required' },
+							{ status: 400, headers: corsHeaders },
+						);
+					}
+
+					if (!env.MERCADO_PAGO_ACCESS_TOKEN) {
+						return Response.json({ error: 'Mercado Pago not configured' }, { status: 500, headers: corsHeaders });
+					}
+
+					const mpResponse = await fetch('https://api.mercadopago.com/preapproval', {
+						method: 'POST',
+						headers: {
+							Authorization: `Bearer ${env.MERCADO_PAGO_ACCESS_TOKEN}`,
+							'Content-Type': 'application/json',
+						},
+						body: JSON.stringify({
+							...body,
+							back_url: body.back_url ?? 'https://ingrave.com.br/assinatura/sucesso',
+							// Without a card token the customer completes the subscription at init_point
+							status: 'pending',
+						}),
+					});
+
+					if (!mpResponse.ok) {
+						const error = await mpResponse.text();
+						return Response.json(
+							{ error: 'Failed to create subscription', details: error },
+							{ status: mpResponse.status, headers: corsHeaders },
+						);
+					}
+
+					const preapproval: MercadoPagoPreapproval = await mpResponse.json();
+
+					return Response.json(
+						{
+							success: true,
+							subscription_id: preapproval.id,
+							init_point: preapproval.init_point,
+							status: preapproval.status,
+						},
+						{ headers: corsHeaders },
+					);
+				}
+
+				case '/subscription/status': {
+					const subscriptionId = url.searchParams.get('id');
+
+					if (!subscriptionId) {
+						return Response.json({ error: 'Subscription ID is required' }, { status: 400, headers: corsHeaders });
+					}
+
+					if (!env.MERCADO_PAGO_ACCESS_TOKEN) {
+						return Response.json({ error: 'Mercado Pago not configured' }, { status: 500, headers: corsHeaders });
+					}
+
+					const mpResponse = await fetch(`https://api.mercadopago.com/preapproval/${encodeURIComponent(subscriptionId)}`, {
+						headers: {
+							Authorization: `Bearer ${env.MERCADO_PAGO_ACCESS_TOKEN}`,
+						},
+					});
+
+					if (!mpResponse.ok) {
+						return Response.json({ error: 'Subscription not found' }, { status: 404, headers: corsHeaders });
+					}
+
+					const preapproval: MercadoPagoPreapproval = await mpResponse.json();
+
+					return Response.json(summarizeSubscription(preapproval), { headers: corsHeaders });
+				}
+
+				case '/subscription/cancel': {
+					if (request.method !== 'POST') {
+						return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+					}
+
+					const { id: subscriptionId }: { id?: string } = await request.json();
+
+					if (!subscriptionId) {
+						return Response.json({ error: 'Subscription ID is required' }, { status: 400, headers: corsHeaders });
+					}
+
+					if (!env.MERCADO_PAGO_ACCESS_TOKEN) {
+						return Response.json({ error: 'Mercado Pago not configured' }, { status: 500, headers: corsHeaders });
+					}
+
+					const mpResponse = await fetch(`https://api.mercadopago.com/preapproval/${encodeURIComponent(subscriptionId)}`, {
+						method: 'PUT',
+						headers: {
+							Authorization: `Bearer ${env.MERCADO_PAGO_ACCESS_TOKEN}`,
+							'Content-Type': 'application/json',
+						},
+						body: JSON.stringify({ status: 'cancelled' }),
+					});
+
+					if (!mpResponse.ok) {
+						const error = await mpResponse.text();
+						return Response.json(
+							{ error: 'Failed to cancel subscription', details: error },
+							{ status: mpResponse.status === 404 ? 404 : 502, headers: corsHeaders },
+						);
+					}
+
+					const preapproval: MercadoPagoPreapproval = await mpResponse.json();
+
+					return Response.json({ success: true, ...summarizeSubscription(preapproval) }, { headers: corsHeaders });
+				}
+
 				case '/health':
 					return Response.json(
 						{
@@ -0,0 +1,34 @@
+/**
+ * Authentication of calls from the chat agent
+ *
+ * Routes that move money or expose payer data are only for the chat agent, which calls them through
+ * its PAYMENT_SERVICE binding with `Authorization: Bearer <PAYMENT_SERVICE_SECRET>`. The same secret
+ * is set on both workers (`wrangler secret put PAYMENT_SERVICE_SECRET`).
+ */
+
+export interface ServiceAuthResult {
+	valid: boolean;
+	reason?: string;
+}
+
+/**
+ * Check that a request carries the shared service secret
+ */
+export async function verifyServiceRequest(request: Request, secret: string | undefined): Promise<ServiceAuthResult> {
+	if (!secret) {
+		return { valid: false, reason: 'service secret not configured' };
+	}
+
+	const header = request.headers.get('authorization');
+	if (!header) {
+		return { valid: false, reason: 'missing authorization header' };
+	}
+
+	// Hash both sides so they have the same length; timingSafeEqual compares in constant time
+	const encoder = new TextEncoder();
+	const [expected, provided] = await Promise.all([
+		crypto.subtle.digest('SHA-256', encoder.encode(`Bearer ${secret}`)),
+		crypto.subtle.digest('SHA-256', encoder.encode(header)),
+	]);
+	return crypto.subtle.timingSafeEqual(expected, provided) ? { valid: true } : { valid: false, reason: 'secret mismatch' };
+}
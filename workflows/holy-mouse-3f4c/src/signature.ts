@@ -0,0 +1,97 @@
+/**
+ * Mercado Pago webhook signature verification
+ *
+ * Notifications carry `x-signature: ts=<unix seconds>,v1=<hex hmac>` and `x-request-id`.
+ * v1 is HMAC-SHA256, keyed with the webhook secret from the Mercado Pago panel, over the manifest
+ * `id:<data.id>;request-id:<x-request-id>;ts:<ts>;` (parts whose value is missing are left out).
+ * https://www.mercadopago.com.br/developers/pt/docs/your-integrations/notifications/webhooks
+ */
+
+/**
+ * Maximum accepted age (and clock skew) of a notification timestamp
+ */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface SignatureResult {
+	valid: boolean;
+	reason?: string;
+}
+
+/**
+ * Parse `ts=...,v1=...` into its parts
+ */
+function parseSignatureHeader(header: string): { ts?: string; v1?: string } {
+	const parts: Record<string, string> = {};
+	for (const part of header.split(',')) {
+		const [key, value] = part.split('=', 2).map((piece) => piece.trim());
+		if (key && value) {
+			parts[key] = value;
+		}
+	}
+	return { ts: parts.ts, v1: parts.v1 };
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> | null {
+	if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+		return null;
+	}
+	const bytes = new Uint8Array(new ArrayBuffer(hex.length / 2));
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+	}
+	return bytes;
+}
+
+/**
+ * Build the signed manifest for a notification
+ * Alphanumeric data ids are signed in lowercase
+ */
+export function buildSignatureManifest(dataId: string | null | undefined, requestId: string | null, ts: string): string {
+	const id = dataId && /^[a-z0-9]+$/i.test(dataId) ? dataId.toLowerCase() : dataId;
+	return [id ? `id:${id};` : '', requestId ? `request-id:${requestId};` : '', `ts:${ts};`].join('');
+}
+
+/**
+ * Verify the signature of a Mercado Pago notification
+ * `dataId` is the `data.id` query parameter of the notification URL
+ */
+export async function verifyWebhookSignature(
+	request: Request,
+	dataId: string | null | undefined,
+	secret: string | undefined,
+	options: { toleranceSeconds?: number; now?: number } = {},
+): Promise<SignatureResult> {
+	if (!secret) {
+		return { valid: false, reason: 'webhook secret not configured' };
+	}
+
+	const header = request.headers.get('x-signature');
+	if (!header) {
+		return { valid: false, reason: 'missing x-signature header' };
+	}
+
+	const { ts, v1 } = parseSignatureHeader(header);
+	const signature = v1 ? hexToBytes(v1) : null;
+	if (!ts || !signature) {
+		return { valid: false, reason: 'malformed x-signature header' };
+	}
+
+	// Mercado Pago has sent both seconds and milliseconds timestamps
+	const timestamp = Number(ts);
+	if (!Number.isFinite(timestamp)) {
+		return { valid: false, reason: 'invalid timestamp' };
+	}
+	const seconds = timestamp > 1e12 ? timestamp / 1000 : timestamp;
+	const now = (options.now ?? Date.now()) / 1000;
+	if (Math.abs(now - seconds) > (options.toleranceSeconds ?? SIGNATURE_TOLERANCE_SECONDS)) {
+		return { valid: false, reason: 'timestamp outside tolerance window' };
+	}
+
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+	const manifest = buildSignatureManifest(dataId, request.headers.get('x-request-id'), ts);
+
+	// crypto.subtle.verify compares in constant time
+	const valid = await crypto.subtle.verify('HMAC', key, signature, encoder.encode(manifest));
+	return valid ? { valid: true } : { valid: false, reason: 'signature mismatch' };
+}
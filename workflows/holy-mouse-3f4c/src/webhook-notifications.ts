@@ -0,0 +1,76 @@
+/**
+ * Webhook notification log
+ *
+ * Mercado Pago retries a notification until it gets a 2xx and may deliver the same one more than once.
+ * This Durable Object remembers notification ids so the side effects of a notification (notifying the
+ * chat agent) run once. A single instance holds the log; notification volume is low.
+ */
+import { DurableObject } from 'cloudflare:workers';
+
+/**
+ * How long handled notification ids are remembered
+ */
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * After this long a notification still marked as processing is assumed abandoned
+ * (the worker crashed mid-way) and can be claimed again
+ */
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Name of the single log instance
+ */
+export const NOTIFICATION_LOG_NAME = 'mercado-pago';
+
+export class WebhookNotifications extends DurableObject<Env> {
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+		this.ctx.storage.sql.exec(`create table if not exists notifications (
+			notification_id text primary key,
+			status text not null,
+			updated_at integer not null
+		)`);
+	}
+
+	/**
+	 * Claim a notification for processing
+	 * Returns false when it was already handled or is being handled right now
+	 */
+	async claim(notificationId: string): Promise<boolean> {
+		const now = Date.now();
+		const sql = this.ctx.storage.sql;
+		sql.exec('delete from notifications where updated_at < ?', now - RETENTION_MS);
+
+		const [existing] = sql
+			.exec<{
+				status: string;
+				updated_at: number;
+			}>('select status, updated_at from notifications where notification_id = ?', notificationId)
+			.toArray();
+		if (existing && (existing.status === 'done' || now - existing.updated_at < PROCESSING_TIMEOUT_MS)) {
+			return false;
+		}
+
+		sql.exec(`insert or replace into notifications (notification_id, status, updated_at) values (?, 'processing', ?)`, notificationId, now);
+		return true;
+	}
+
+	/**
+	 * Mark a claimed notification as handled
+	 */
+	async complete(notificationId: string): Promise<void> {
+		this.ctx.storage.sql.exec(
+			`update notifications set status = 'done', updated_at = ? where notification_id = ?`,
+			Date.now(),
+			notificationId,
+		);
+	}
+
+	/**
+	 * Give up a claim so a retried delivery can process the notification again
+	 */
+	async release(notificationId: string): Promise<void> {
+		this.ctx.storage.sql.exec('delete from notifications where notification_id = ?', notificationId);
+	}
+}
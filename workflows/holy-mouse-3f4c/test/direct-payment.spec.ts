@@ -0,0 +1,125 @@
+import { env, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import worker from '../src';
+import { mockMercadoPago } from './mercado-pago-mock';
+
+const EXTERNAL_REFERENCE = '0f2b8e4c5d6a7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4a5b6c7d8e9f0a1b2c.4242.profissional-mensal.a1b2c3';
+
+async function post(path: string, body: unknown, authorization = `Bearer ${env.PAYMENT_SERVICE_SECRET}`) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(
+		new Request<unknown, IncomingRequestCfProperties>(`http://example.com${path}`, {
+			method: 'POST',
+			headers: { 'content-type': 'application/json', authorization },
+			body: JSON.stringify(body),
+		}),
+		env,
+		ctx,
+	);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+describe('/payment/pix and /payment/boleto', () => {
+	let mercadoPago: ReturnType<typeof mockMercadoPago>;
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mercadoPago = mockMercadoPago();
+	});
+
+	it('creates a PIX payment with its QR code', async () => {
+		const pix = {
+			amount: 197,
+			description: 'Plano Profissional Ingrave - Mensal',
+			external_reference: `${EXTERNAL_REFERENCE}-pix`,
+			expires_at: '2026-01-03T12:00:00.000Z',
+			payer: { email: 'cliente@email.com' },
+		};
+
+		const response = await post('/payment/pix', pix);
+		expect(response.status).toBe(200);
+		const created = (await response.json()) as { id: number; qr_code: string };
+		expect(created).toMatchObject({
+			success: true,
+			status: 'pending',
+			amount: 197,
+			payment_method: 'pix',
+			qr_code: expect.stringContaining('br.gov.bcb.pix'),
+			qr_code_base64: 'iVBORw0KGgo=',
+			ticket_url: expect.stringContaining('/ticket'),
+			external_reference: pix.external_reference,
+		});
+		expect(mercadoPago.requests.find(({ path }) => path === '/v1/payments')?.body).toMatchObject({
+			transaction_amount: 197,
+			payment_method_id: 'pix',
+			date_of_expiration: '2026-01-03T12:00:00.000Z',
+		});
+
+		// Retrying the same order returns the same payment
+		expect(await (await post('/payment/pix', pix)).json()).toMatchObject({ id: created.id, qr_code: created.qr_code });
+	});
+
+	it('creates a boleto registered to the payer', async () => {
+		const response = await post('/payment/boleto', {
+			amount: 97,
+			description: 'Plano Básico Ingrave - Mensal',
+			external_reference: `${EXTERNAL_REFERENCE}-boleto`,
+			payer: {
+				email: 'cliente@email.com',
+				first_name: 'Maria',
+				last_name: 'Souza',
+				identification: { type: 'CPF', number: '12345678909' },
+			},
+		});
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			success: true,
+			status: 'pending',
+			payment_method: 'boleto',
+			barcode: expect.stringMatching(/^23791\d+$/),
+			pdf_url: expect.stringContaining('mercadopago.com.br'),
+			expires_at: '2026-01-03T23:59:59.000-03:00',
+		});
+		expect(mercadoPago.requests.filter(({ path }) => path === '/v1/payments').pop()?.body).toMatchObject({
+			payment_method_id: 'bolbradesco',
+		});
+	});
+
+	it('only accepts calls with the service secret', async () => {
+		const created = mercadoPago.requests.length;
+		const pix = { amount: 197, description: 'Plano', external_reference: `${EXTERNAL_REFERENCE}-forged`, payer: { email: 'a@b.com' } };
+		for (const path of ['/payment/pix', '/payment/boleto']) {
+			const anonymous = await post(path, pix, '');
+			expect(anonymous.status).toBe(401);
+			expect(anonymous.headers.get('access-control-allow-origin')).toBeNull();
+			expect((await post(path, pix, 'Bearer wrong-secret')).status).toBe(401);
+		}
+		expect(mercadoPago.requests).toHaveLength(created);
+
+		// The status carries the payer's email
+		const ctx = createExecutionContext();
+		const status = await worker.fetch(
+			new Request<unknown, IncomingRequestCfProperties>('http://example.com/payment/status?id=1'),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		expect(status.status).toBe(401);
+	});
+
+	it('rejects incomplete requests', async () => {
+		expect((await post('/payment/pix', { amount: 197, description: 'Plano' })).status).toBe(400);
+
+		// Boletos need the payer's CPF or CNPJ
+		const boleto = await post('/payment/boleto', {
+			amount: 97,
+			description: 'Plano Básico Ingrave - Mensal',
+			payer: { email: 'cliente@email.com', first_name: 'Maria' },
+		});
+		expect(boleto.status).toBe(400);
+		expect(await boleto.json()).toEqual({ error: 'payer.first_name and payer.identification are required for boleto' });
+	});
+});
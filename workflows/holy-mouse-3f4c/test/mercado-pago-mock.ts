@@ -0,0 +1,203 @@
+import { fetchMock } from 'cloudflare:test';
+
+const API = 'https://api.mercadopago.com';
+const PREAPPROVAL_PATH = /^\/preapproval\/([^/?]+)$/;
+const PAYMENT_PATH = /^\/v1\/payments\/(\d+)$/;
+const REFUNDS_PATH = /^\/v1\/payments\/(\d+)\/refunds$/;
+
+export interface MockPayment {
+	id: number;
+	status: string;
+	status_detail: string;
+	transaction_amount: number;
+	transaction_amount_refunded: number;
+	currency_id: string;
+	description: string;
+	external_reference?: string;
+	payer: { email: string };
+	payment_method_id?: string;
+	date_of_expiration?: string;
+	point_of_interaction?: { transaction_data: { qr_code: string; qr_code_base64: string; ticket_url: string } };
+	barcode?: { content: string };
+	transaction_details?: { external_resource_url: string };
+}
+
+interface MockPreapproval {
+	id: string;
+	status: 'pending' | 'authorized' | 'paused' | 'cancelled';
+	reason: string;
+	external_reference?: string;
+	payer_email?: string;
+	back_url?: string;
+	init_point: string;
+	auto_recurring: {
+		frequency: number;
+		frequency_type: 'days' | 'months';
+		transaction_amount: number;
+		currency_id: string;
+	};
+}
+
+/**
+ * In-memory stand-in for the Mercado Pago payments and preapproval APIs
+ * Payments are seeded by the test through `payments` or created as PIX and
+ * boleto payments (one per idempotency key); subscriptions created
+ * through the mock can be read, updated and cancelled until the test ends.
+ * Unknown ids answer 404 and invalid transitions 400, like the real API
+ */
+export function mockMercadoPago() {
+	const preapprovals = new Map<string, MockPreapproval>();
+	const payments = new Map<number, MockPayment>();
+	const paymentsByKey = new Map<string, number>();
+	const refundsByKey = new Map<string, { id: number; payment_id: number; amount: number; status: string }>();
+	const requests: Array<{ method: string; path: string; body?: unknown }> = [];
+	const origin = fetchMock.get(API);
+
+	const notFound = { statusCode: 404, data: JSON.stringify({ message: 'Preapproval not found', status: 404 }) };
+	const record = (method: string, path: string, body?: string) => {
+		const parsed = body ? JSON.parse(body) : undefined;
+		requests.push({ method, path, body: parsed });
+		return parsed;
+	};
+
+	const badRequest = (message: string) => ({ statusCode: 400, data: JSON.stringify({ message, status: 400 }) });
+
+	origin
+		.intercept({ path: '/v1/payments', method: 'POST' })
+		.reply(({ path, body, headers }) => {
+			const input = record('POST', path, body as string);
+			const key = (headers as Record<string, string>)['x-idempotency-key'];
+			const repeated = key ? paymentsByKey.get(key) : undefined;
+			if (repeated) {
+				return { statusCode: 201, data: JSON.stringify(payments.get(repeated)) };
+			}
+
+			const id = 70000 + payments.size;
+			const payment: MockPayment = {
+				id,
+				status: 'pending',
+				status_detail: input.payment_method_id === 'pix' ? 'pending_waiting_transfer' : 'pending_waiting_payment',
+				transaction_amount: input.transaction_amount,
+				transaction_amount_refunded: 0,
+				currency_id: 'BRL',
+				description: input.description,
+				external_reference: input.external_reference,
+				payer: input.payer,
+				payment_method_id: input.payment_method_id,
+				date_of_expiration: input.date_of_expiration ?? '2026-01-03T23:59:59.000-03:00',
+			};
+			if (input.payment_method_id === 'pix') {
+				payment.point_of_interaction = {
+					transaction_data: {
+						qr_code: `00020126580014br.gov.bcb.pix0136${id}`,
+						qr_code_base64: 'iVBORw0KGgo=',
+						ticket_url: `https://www.mercadopago.com.br/payments/${id}/ticket`,
+					},
+				};
+			} else {
+				payment.barcode = { content: `23791${String(id).padStart(39, '0')}` };
+				payment.transaction_details = { external_resource_url: `https://www.mercadopago.com.br/payments/${id}/ticket?caller_id=1` };
+			}
+			payments.set(id, payment);
+			paymentsByKey.set(key, id);
+			return { statusCode: 201, data: JSON.stringify(payment) };
+		})
+		.persist();
+
+	origin
+		.intercept({ path: (path) => PAYMENT_PATH.test(path), method: 'GET' })
+		.reply(({ path }) => {
+			record('GET', path);
+			const payment = payments.get(Number(PAYMENT_PATH.exec(path)![1]));
+			return payment ? { statusCode: 200, data: JSON.stringify(payment) } : notFound;
+		})
+		.persist();
+
+	origin
+		.intercept({ path: (path) => PAYMENT_PATH.test(path), method: 'PUT' })
+		.reply(({ path, body }) => {
+			const changes = record('PUT', path, body as string);
+			const payment = payments.get(Number(PAYMENT_PATH.exec(path)![1]));
+			if (!payment) {
+				return notFound;
+			}
+			if (changes.status === 'cancelled' && !['pending', 'in_process'].includes(payment.status)) {
+				return badRequest(`Payment in status ${payment.status} cannot be cancelled`);
+			}
+			Object.assign(payment, changes, { status_detail: 'by_collector' });
+			return { statusCode: 200, data: JSON.stringify(payment) };
+		})
+		.persist();
+
+	origin
+		.intercept({ path: (path) => REFUNDS_PATH.test(path), method: 'POST' })
+		.reply(({ path, body, headers }) => {
+			const input = record('POST', path, body as string) as { amount?: number };
+			const key = (headers as Record<string, string>)['x-idempotency-key'];
+			const repeated = key ? refundsByKey.get(key) : undefined;
+			if (repeated) {
+				return { statusCode: 201, data: JSON.stringify(repeated) };
+			}
+
+			const payment = payments.get(Number(REFUNDS_PATH.exec(path)![1]));
+			if (!payment) {
+				return notFound;
+			}
+			const remaining = payment.transaction_amount - payment.transaction_amount_refunded;
+			const amount = input.amount ?? remaining;
+			if (payment.status !== 'approved' || amount > remaining) {
+				return badRequest('Invalid refund');
+			}
+
+			payment.transaction_amount_refunded += amount;
+			if (payment.transaction_amount_refunded >= payment.transaction_amount) {
+				payment.status = 'refunded';
+				payment.status_detail = 'refunded';
+			} else {
+				payment.status_detail = 'partially_refunded';
+			}
+			const refund = { id: 1000 + refundsByKey.size, payment_id: payment.id, amount, status: 'approved' };
+			refundsByKey.set(key, refund);
+			return { statusCode: 201, data: JSON.stringify(refund) };
+		})
+		.persist();
+
+	origin
+		.intercept({ path: '/preapproval', method: 'POST' })
+		.reply(({ path, body }) => {
+			const input = record('POST', path, body as string);
+			const id = `2c93808${String(preapprovals.size + 1).padStart(4, '0')}`;
+			const preapproval: MockPreapproval = {
+				...input,
+				id,
+				init_point: `https://www.mercadopago.com.br/subscriptions/checkout?preapproval_id=${id}`,
+			};
+			preapprovals.set(id, preapproval);
+			return { statusCode: 201, data: JSON.stringify(preapproval) };
+		})
+		.persist();
+
+	origin
+		.intercept({ path: (path) => PREAPPROVAL_PATH.test(path), method: 'GET' })
+		.reply(({ path }) => {
+			record('GET', path);
+			const preapproval = preapprovals.get(PREAPPROVAL_PATH.exec(path)![1]);
+			return preapproval ? { statusCode: 200, data: JSON.stringify(preapproval) } : notFound;
+		})
+		.persist();
+
+	origin
+		.intercept({ path: (path) => PREAPPROVAL_PATH.test(path), method: 'PUT' })
+		.reply(({ path, body }) => {
+			const changes = record('PUT', path, body as string);
+			const preapproval = preapprovals.get(PREAPPROVAL_PATH.exec(path)![1]);
+			if (!preapproval) {
+				return notFound;
+			}
+			Object.assign(preapproval, changes);
+			return { statusCode: 200, data: JSON.stringify(preapproval) };
+		})
+		.persist();
+
+	return { payments, preapprovals, requests };
+}
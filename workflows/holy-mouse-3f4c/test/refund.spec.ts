@@ -0,0 +1,89 @@
+import { env, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
+import { beforeAll, beforeEach, describe, it, expect } from 'vitest';
+import worker from '../src';
+import { mockMercadoPago } from './mercado-pago-mock';
+import paymentFixture from './fixtures/payment.json';
+
+async function post(path: string, body: unknown, authorization = `Bearer ${env.PAYMENT_SERVICE_SECRET}`) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(
+		new Request<unknown, IncomingRequestCfProperties>(`http://example.com${path}`, {
+			method: 'POST',
+			headers: { 'content-type': 'application/json', authorization },
+			body: JSON.stringify(body),
+		}),
+		env,
+		ctx,
+	);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+describe('/payment/refund and /payment/cancel', () => {
+	let mercadoPago: ReturnType<typeof mockMercadoPago>;
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mercadoPago = mockMercadoPago();
+	});
+
+	beforeEach(() => {
+		mercadoPago.payments.set(paymentFixture.id, { ...paymentFixture, transaction_amount_refunded: 0 });
+		mercadoPago.payments.set(555, {
+			...paymentFixture,
+			id: 555,
+			status: 'pending',
+			status_detail: 'pending_waiting_payment',
+			transaction_amount_refunded: 0,
+		});
+	});
+
+	it('refunds part of a payment, then the rest', async () => {
+		const partial = await post('/payment/refund', { payment_id: String(paymentFixture.id), amount: 50, idempotency_key: 'call-1' });
+		expect(partial.status).toBe(200);
+		expect(await partial.json()).toMatchObject({ success: true, payment_id: paymentFixture.id, amount: 50 });
+		expect(mercadoPago.payments.get(paymentFixture.id)).toMatchObject({ status: 'approved', status_detail: 'partially_refunded' });
+
+		const rest = await post('/payment/refund', { payment_id: String(paymentFixture.id), idempotency_key: 'call-2' });
+		expect(await rest.json()).toMatchObject({ success: true, amount: 147 });
+		expect(mercadoPago.payments.get(paymentFixture.id)!.status).toBe('refunded');
+
+		const refundRequest = mercadoPago.requests.find(({ path }) => path.endsWith('/refunds'));
+		expect(refundRequest?.body).toEqual({ amount: 50 });
+	});
+
+	it('does not refund twice for a retried request', async () => {
+		await post('/payment/refund', { payment_id: String(paymentFixture.id), idempotency_key: 'retried' });
+		const retried = await post('/payment/refund', { payment_id: String(paymentFixture.id), idempotency_key: 'retried' });
+
+		expect(retried.status).toBe(200);
+		expect(mercadoPago.payments.get(paymentFixture.id)!.transaction_amount_refunded).toBe(197);
+	});
+
+	it('cancels pending payments only', async () => {
+		const cancelled = await post('/payment/cancel', { payment_id: '555' });
+		expect(cancelled.status).toBe(200);
+		expect(await cancelled.json()).toMatchObject({ success: true, id: 555, status: 'cancelled' });
+
+		const approved = await post('/payment/cancel', { payment_id: String(paymentFixture.id) });
+		expect(approved.status).toBe(400);
+	});
+
+	it('only accepts calls with the service secret', async () => {
+		for (const path of ['/payment/refund', '/payment/cancel']) {
+			const anonymous = await post(path, { payment_id: String(paymentFixture.id) }, '');
+			expect(anonymous.status).toBe(401);
+			expect(anonymous.headers.get('access-control-allow-origin')).toBeNull();
+			expect((await post(path, { payment_id: String(paymentFixture.id) }, 'Bearer wrong-secret')).status).toBe(401);
+		}
+		expect(mercadoPago.payments.get(paymentFixture.id)).toMatchObject({ status: 'approved', transaction_amount_refunded: 0 });
+	});
+
+	it('validates input', async () => {
+		expect((await post('/payment/refund', {})).status).toBe(400);
+		expect((await post('/payment/refund', { payment_id: '1', amount: -5 })).status).toBe(400);
+		expect((await post('/payment/refund', { payment_id: '1' })).status).toBe(404);
+		expect((await post('/payment/cancel', {})).status).toBe(400);
+	});
+});
@@ -0,0 +1,133 @@
+import { env, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import worker from '../src';
+import { mockMercadoPago } from './mercado-pago-mock';
+
+const EXTERNAL_REFERENCE = '0f2b8e4c5d6a7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4a5b6c7d8e9f0a1b2c.4242.profissional-mensal.a1b2c3';
+
+async function call(
+	path: string,
+	init: RequestInit<IncomingRequestCfProperties> = {},
+	authorization = `Bearer ${env.PAYMENT_SERVICE_SECRET}`,
+) {
+	const ctx = createExecutionContext();
+	const headers = new Headers(init.headers);
+	headers.set('authorization', authorization);
+	const response = await worker.fetch(
+		new Request<unknown, IncomingRequestCfProperties>(`http://example.com${path}`, { ...init, headers }),
+		env,
+		ctx,
+	);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+function createSubscription() {
+	return call('/subscription/create', {
+		method: 'POST',
+		headers: { 'content-type': 'application/json' },
+		body: JSON.stringify({
+			reason: 'Plano Profissional Ingrave - Mensal',
+			external_reference: EXTERNAL_REFERENCE,
+			payer_email: 'cliente@email.com',
+			auto_recurring: { frequency: 1, frequency_type: 'months', transaction_amount: 197, currency_id: 'BRL' },
+		}),
+	});
+}
+
+describe('/subscription routes', () => {
+	let mercadoPago: ReturnType<typeof mockMercadoPago>;
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mercadoPago = mockMercadoPago();
+	});
+
+	it('creates a pending preapproval for the customer to authorize', async () => {
+		const response = await createSubscription();
+
+		expect(response.status).toBe(200);
+		const created = await response.json<{ subscription_id: string; init_point: string; status: string }>();
+		expect(created).toEqual({
+			success: true,
+			subscription_id: expect.any(String),
+			init_point: expect.stringContaining(created.subscription_id),
+			status: 'pending',
+		});
+
+		const [request] = mercadoPago.requests;
+		expect(request).toMatchObject({
+			method: 'POST',
+			path: '/preapproval',
+			body: {
+				external_reference: EXTERNAL_REFERENCE,
+				status: 'pending',
+				back_url: 'https://ingrave.com.br/assinatura/sucesso',
+				auto_recurring: { frequency: 1, frequency_type: 'months', transaction_amount: 197 },
+			},
+		});
+	});
+
+	it('reports and cancels a subscription', async () => {
+		const { subscription_id } = await (await createSubscription()).json<{ subscription_id: string }>();
+		mercadoPago.preapprovals.get(subscription_id)!.status = 'authorized';
+
+		const status = await call(`/subscription/status?id=${subscription_id}`);
+		expect(await status.json()).toMatchObject({
+			id: subscription_id,
+			status: 'authorized',
+			amount: 197,
+			currency: 'BRL',
+			frequency: 1,
+			frequency_type: 'months',
+			external_reference: EXTERNAL_REFERENCE,
+		});
+
+		const cancelled = await call('/subscription/cancel', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({ id: subscription_id }),
+		});
+		expect(cancelled.status).toBe(200);
+		expect(await cancelled.json()).toMatchObject({ success: true, id: subscription_id, status: 'cancelled' });
+		expect(mercadoPago.preapprovals.get(subscription_id)!.status).toBe('cancelled');
+	});
+
+	it('only accepts calls with the service secret', async () => {
+		const { subscription_id } = await (await createSubscription()).json<{ subscription_id: string }>();
+		const requests = mercadoPago.requests.length;
+
+		for (const authorization of ['', 'Bearer wrong-secret']) {
+			const cancel = await call(
+				'/subscription/cancel',
+				{ method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ id: subscription_id }) },
+				authorization,
+			);
+			expect(cancel.status).toBe(401);
+			expect(cancel.headers.get('access-control-allow-origin')).toBeNull();
+			expect((await call(`/subscription/status?id=${subscription_id}`, {}, authorization)).status).toBe(401);
+			expect((await call('/subscription/create', { method: 'POST', body: '{}' }, authorization)).status).toBe(401);
+			expect((await call(`/payment/search?external_reference=${EXTERNAL_REFERENCE}`, {}, authorization)).status).toBe(401);
+		}
+		expect(mercadoPago.requests.length).toBe(requests);
+		expect(mercadoPago.preapprovals.get(subscription_id)!.status).toBe('pending');
+	});
+
+	it('validates input and unknown subscriptions', async () => {
+		const missing = await call('/subscription/create', {
+			method: 'POST',
+			body: JSON.stringify({ reason: 'Plano Básico Ingrave - Mensal' }),
+		});
+		expect(missing.status).toBe(400);
+
+		expect((await call('/subscription/status')).status).toBe(400);
+		expect((await call('/subscription/status?id=unknown')).status).toBe(404);
+
+		const cancel = await call('/subscription/cancel', {
+			method: 'POST',
+			body: JSON.stringify({ id: 'unknown' }),
+		});
+		expect(cancel.status).toBe(404);
+	});
+});
@@ -0,0 +1,167 @@
+import { env, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import worker from '../src';
+import { buildSignatureManifest, verifyWebhookSignature } from '../src/signature';
+import notificationFixture from './fixtures/payment-notification.json';
+import paymentFixture from './fixtures/payment.json';
+
+const SECRET = 'test-webhook-secret';
+const REQUEST_ID = 'bb56a2f1-6aae-46ac-982e-9dcd3581d08e';
+
+async function sign(secret: string, manifest: string) {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const mac = await crypto.subtle.sign('HMAC', key, encoder.encode(manifest));
+	return [...new Uint8Array(mac)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function notificationRequest(
+	notification: typeof notificationFixture,
+	options: { secret?: string; ts?: number; signed?: boolean } = {},
+) {
+	const { secret = SECRET, ts = Math.floor(Date.now() / 1000), signed = true } = options;
+	const dataId = notification.data.id;
+	const headers: Record<string, string> = { 'content-type': 'application/json', 'x-request-id': REQUEST_ID };
+	if (signed) {
+		const v1 = await sign(secret, buildSignatureManifest(dataId, REQUEST_ID, String(ts)));
+		headers['x-signature'] = `ts=${ts},v1=${v1}`;
+	}
+	return new Request<unknown, IncomingRequestCfProperties>(`http://example.com/payment/webhook?data.id=${dataId}&type=payment`, {
+		method: 'POST',
+		headers,
+		body: JSON.stringify(notification),
+	});
+}
+
+/**
+ * Queue stand-in that records what the worker sends to the chat agent
+ */
+function recordingQueue() {
+	const sent: unknown[] = [];
+	const queue = {
+		async send(message: unknown) {
+			sent.push(message);
+		},
+		async sendBatch() {},
+	} as unknown as Queue;
+	return { queue, sent };
+}
+
+async function postNotification(request: Request<unknown, IncomingRequestCfProperties>, queue: Queue) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, { ...env, AGENT_QUEUE: queue }, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+function mockPaymentLookup(times = 1) {
+	fetchMock
+		.get('https://api.mercadopago.com')
+		.intercept({ path: `/v1/payments/${paymentFixture.id}` })
+		.reply(200, paymentFixture)
+		.times(times);
+}
+
+describe('verifyWebhookSignature', () => {
+	const ts = '1742505638';
+	const now = 1742505638 * 1000;
+
+	it('accepts the manifest signed with the secret', async () => {
+		const request = await notificationRequest(notificationFixture, { ts: Number(ts) });
+		expect(await verifyWebhookSignature(request, notificationFixture.data.id, SECRET, { now })).toEqual({ valid: true });
+	});
+
+	it('rejects a different secret, data id or stale timestamp', async () => {
+		const request = await notificationRequest(notificationFixture, { ts: Number(ts), secret: 'other-secret' });
+		expect(await verifyWebhookSignature(request, notificationFixture.data.id, SECRET, { now })).toEqual({
+			valid: false,
+			reason: 'signature mismatch',
+		});
+
+		const signed = await notificationRequest(notificationFixture, { ts: Number(ts) });
+		expect((await verifyWebhookSignature(signed, '1', SECRET, { now })).reason).toBe('signature mismatch');
+		expect((await verifyWebhookSignature(signed, notificationFixture.data.id, SECRET, { now: now + 600_000 })).reason).toBe(
+			'timestamp outside tolerance window',
+		);
+	});
+
+	it('rejects unsigned requests and a missing secret', async () => {
+		const unsigned = await notificationRequest(notificationFixture, { signed: false });
+		expect((await verifyWebhookSignature(unsigned, notificationFixture.data.id, SECRET)).reason).toBe('missing x-signature header');
+
+		const signed = await notificationRequest(notificationFixture);
+		expect((await verifyWebhookSignature(signed, notificationFixture.data.id, undefined)).reason).toBe('webhook secret not configured');
+	});
+
+	it('signs alphanumeric data ids in lowercase', () => {
+		expect(buildSignatureManifest('ABC123', REQUEST_ID, '1')).toBe(`id:abc123;request-id:${REQUEST_ID};ts:1;`);
+		expect(buildSignatureManifest(null, null, '1')).toBe('ts:1;');
+	});
+});
+
+describe('/payment/webhook', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	it('rejects unsigned notifications with 401', async () => {
+		const { queue, sent } = recordingQueue();
+		const response = await postNotification(await notificationRequest(notificationFixture, { signed: false }), queue);
+
+		expect(response.status).toBe(401);
+		expect(sent).toEqual([]);
+	});
+
+	it('notifies the agent once per notification id', async () => {
+		mockPaymentLookup();
+		const { queue, sent } = recordingQueue();
+
+		const first = await postNotification(await notificationRequest(notificationFixture), queue);
+		expect(first.status).toBe(200);
+		expect(await first.json()).toEqual({ success: true });
+
+		// Mercado Pago redelivers the same notification
+		const second = await postNotification(await notificationRequest(notificationFixture), queue);
+		expect(second.status).toBe(200);
+		expect(await second.json()).toEqual({ success: true, duplicate: true });
+
+		expect(sent).toEqual([
+			{
+				type: 'payment_status',
+				timestamp: expect.any(String),
+				data: {
+					paymentId: '98765432100',
+					status: 'approved',
+					statusDetail: 'accredited',
+					externalReference: paymentFixture.external_reference,
+					amount: 197,
+					currency: 'BRL',
+					description: 'Plano Profissional Ingrave - Mensal',
+					payerEmail: 'cliente@email.com',
+				},
+			},
+		]);
+	});
+
+	it('lets Mercado Pago retry when the payment lookup fails', async () => {
+		const notification = { ...notificationFixture, id: 12345678902 };
+		fetchMock
+			.get('https://api.mercadopago.com')
+			.intercept({ path: `/v1/payments/${paymentFixture.id}` })
+			.reply(500, 'unavailable');
+		mockPaymentLookup();
+		const { queue, sent } = recordingQueue();
+
+		const failed = await postNotification(await notificationRequest(notification), queue);
+		expect(failed.status).toBe(502);
+
+		const retried = await postNotification(await notificationRequest(notification), queue);
+		expect(retried.status).toBe(200);
+		expect(sent).toHaveLength(1);
+	});
+});
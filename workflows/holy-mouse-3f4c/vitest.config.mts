@@ -5,6 +5,13 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				miniflare: {
+					bindings: {
+						MERCADO_PAGO_ACCESS_TOKEN: 'TEST-access-token',
+						MERCADO_PAGO_WEBHOOK_SECRET: 'test-webhook-secret',
+						PAYMENT_SERVICE_SECRET: 'test-service-secret',
+					},
+				},
 			},
 		},
 	},
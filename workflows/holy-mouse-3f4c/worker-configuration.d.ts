@@ -5,7 +5,13 @@ declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import('./src/index');
 	}
-	interface Env {}
+	interface Env {
+		MERCADO_PAGO_ACCESS_TOKEN: string;
+		MERCADO_PAGO_WEBHOOK_SECRET: string;
+		PAYMENT_SERVICE_SECRET: string;
+		WEBHOOK_NOTIFICATIONS: DurableObjectNamespace<import('./src/index').WebhookNotifications>;
+		AGENT_QUEUE: Queue;
+	}
 }
 interface Env extends Cloudflare.Env {}
 